@@ -1,14 +1,206 @@
-import React, { useState, useEffect } from 'react';
-import { extractExifData, cleanImageMetadata, fileToBase64 } from './services/imageService';
-import { analyzeImageWithGemini } from './services/geminiService';
-import { ProcessedImage, TabView } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { extractExifData, extractRawMetadata, cleanImageMetadata, DEFAULT_UPLOAD_OPTIONS, prepareUpload, redactImage } from './services/imageService';
+import { analyzeImage, loadProviderSettings, PROVIDERS, saveProviderSettings } from './services/analysisProvider';
+import { DEFAULT_PROFILE_ID, findProfile, formatCustomValue, loadProfiles, loadSelectedProfileId, saveProfiles, saveSelectedProfileId } from './services/profileService';
+import { collectDroppedFiles, downloadBlob, isSupportedImage } from './services/fileService';
+import { DEFAULT_STRIP_OPTIONS } from './services/metadataStripper';
+import { createLimiter, retryWithBackoff, EXIF_CONCURRENCY, AI_CONCURRENCY, OCR_CONCURRENCY } from './services/queueService';
+import { AnalysisError, classifyError } from './services/analysisErrors';
+import { applyFieldEdits, writeEditedImage } from './services/metadataEditor';
+import { EXIF_WRITABLE_FORMATS } from './services/exifWriter';
+import { auditPrivacy, editsForFindings } from './services/privacyAudit';
+import { detectFaces, findTextRegions } from './services/redactionService';
+import { runForensics } from './services/forensicsService';
+import { saveToHistory } from './services/historyService';
+import { CacheKey, createCacheKey, DEFAULT_CACHE_TTL_DAYS, lookupAnalysis, storeAnalysis } from './services/analysisCache';
+import { isAbortError } from './services/workerPool';
+import { perceptualHashes } from './services/hashService';
+import { reverseGeocode } from './services/geocodingService';
+import { toMapPoint } from './services/basemapService';
+import { loadOcrLanguages, recognizeText, saveOcrLanguages } from './services/ocrService';
+import { detectFileFormat, EXTRA_IMAGE_EXTENSIONS, FORMAT_INFO, renameForType, VIDEO_EXTENSIONS, VIDEO_MIME_TYPES } from './services/formatService';
+import { getDecodableImage } from './services/decoderService';
+import { buildExportRecords, printReport, toCsvExport, toDocumentCsvExport, toDocumentJsonExport, toHtmlReport, toJsonExport } from './services/exportService';
+import { extractDocumentFields, scanDocument } from './services/documentService';
+import { AIAnalysisResult, AnalysisProfile, DocumentScan, ExifData, ExportFormat, HistoryEntry, PagePoint, PrivacyFindingId, ProcessedImage, ProcessingStages, ProviderSettings, StageState, StripOptions, StrippedSegment, TabView } from './types';
 import CameraCapture from './components/CameraCapture';
+import CompareView from './components/CompareView';
+import BatchGallery from './components/BatchGallery';
+import MetadataEditor from './components/MetadataEditor';
+import RawMetadataView from './components/RawMetadataView';
+import ForensicsPanel from './components/ForensicsPanel';
+import SettingsPanel from './components/SettingsPanel';
+import StageErrorCard from './components/StageErrorCard';
+import StreamingAnalysisCard from './components/StreamingAnalysisCard';
+import HistoryPanel from './components/HistoryPanel';
+import ExportButtons from './components/ExportButtons';
+import OcrView from './components/OcrView';
+import MapPanel from './components/MapPanel';
+import SimilarImagesPanel from './components/SimilarImagesPanel';
+import PrivacyAuditPanel from './components/PrivacyAuditPanel';
+import RedactionEditor from './components/RedactionEditor';
+import DocumentPanel from './components/DocumentPanel';
+
+// Automatic retries for transient AI failures (quota, network) before the user has to step in
+const AI_MAX_RETRIES = 3;
+const AI_RETRY_BASE_DELAY_MS = 2000;
+
+// Categories whose small text is worth sending again as full-resolution tiles
+const TILED_CATEGORIES: AIAnalysisResult['imageCategory'][] = ['Document', 'Screenshot'];
+
+const INITIAL_STAGES: ProcessingStages = {
+  exif: { status: 'pending', attempts: 0 },
+  ai: { status: 'pending', attempts: 0 },
+  ocr: { status: 'pending', attempts: 0 },
+};
+
+const HISTORY_STAGES: ProcessingStages = {
+  exif: { status: 'done', attempts: 0 },
+  ai: { status: 'done', attempts: 0 },
+  ocr: { status: 'done', attempts: 0 },
+};
+
+const REOPEN_ORIGINAL_NOTICE = 'Reopened from history. Only a thumbnail was stored, so drop the original file again to use this feature.';
 
 function App() {
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
-  const [data, setData] = useState<ProcessedImage | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [profiles, setProfiles] = useState<AnalysisProfile[]>(loadProfiles);
+  const [batchProfileId, setBatchProfileId] = useState(loadSelectedProfileId);
+  const [images, setImages] = useState<ProcessedImage[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
   const [activeTab, setActiveTab] = useState<TabView>(TabView.OVERVIEW);
+  const [stripOptions, setStripOptions] = useState<StripOptions>(DEFAULT_STRIP_OPTIONS);
+  const [stripReport, setStripReport] = useState<StrippedSegment[] | null>(null);
+  const [removedFields, setRemovedFields] = useState<(keyof ExifData)[] | null>(null);
+  // Kept fields that could not be written back, which stop the export
+  const [keptFieldErrors, setKeptFieldErrors] = useState<Partial<Record<keyof ExifData, string>> | null>(null);
+  const [skippedFindings, setSkippedFindings] = useState<PrivacyFindingId[]>([]);
+  const [redactedCount, setRedactedCount] = useState<number | null>(null);
+  const [redactionError, setRedactionError] = useState<string | null>(null);
+  const [isEditingExif, setIsEditingExif] = useState(false);
+  const [exifMode, setExifMode] = useState<'summary' | 'raw'>('summary');
+  const [showElaOverlay, setShowElaOverlay] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [ocrLanguages, setOcrLanguages] = useState(loadOcrLanguages);
+  const exifLimiter = useRef(createLimiter(EXIF_CONCURRENCY));
+  const aiLimiter = useRef(createLimiter(AI_CONCURRENCY));
+  const ocrLimiter = useRef(createLimiter(OCR_CONCURRENCY));
+  const historySaves = useRef(new Set<string>());
+  const redactionRuns = useRef(new Set<string>());
+  const documentRuns = useRef(new Map<string, AbortController>());
+  // One controller per image being processed, so dismissing it cancels its worker tasks
+  const abortControllers = useRef(new Map<string, AbortController>());
+
+  const data = images.find(img => img.id === selectedId) ?? null;
+  // Images removed from the batch drop out of the comparison
+  const compared = (compareIds ?? []).flatMap(id => images.filter(img => img.id === id));
+  const isVideo = !!data?.format && !!FORMAT_INFO[data.format].video;
+  // Keeping some EXIF fields means writing them back, which HEIC and the like do not support
+  const canKeepFields = !!data?.exif && !!data.format && EXIF_WRITABLE_FORMATS.includes(data.format);
+
+  useEffect(() => {
+    setStripReport(null);
+    setRemovedFields(null);
+    setKeptFieldErrors(null);
+    setSkippedFindings([]);
+    setRedactedCount(null);
+    setRedactionError(null);
+    setIsEditingExif(false);
+    setShowElaOverlay(false);
+  }, [selectedId]);
+
+  // Raw metadata is only read when the raw view is opened; null marks a load in flight
+  useEffect(() => {
+    if (exifMode !== 'raw' || !data || data.rawMetadata !== undefined) return;
+    const { id, file } = data;
+    updateImage(id, { rawMetadata: null });
+    extractRawMetadata(file)
+      .then(rawMetadata => updateImage(id, { rawMetadata }))
+      .catch(err => {
+        console.error("Failed to extract raw metadata", err);
+        updateImage(id, { rawMetadata: { groups: [] } });
+      });
+  }, [exifMode, data?.id, data?.rawMetadata]);
+
+  // Forensics are CPU-heavy, so they only run once the AI tab is opened
+  useEffect(() => {
+    // Waits for the format as well, since videos are skipped
+    if (activeTab !== TabView.AI_ANALYSIS || !data || !data.format || data.forensics !== undefined) return;
+    // Timestamp checks need the EXIF stage to have finished
+    if (data.stages.exif.status !== 'done' && data.stages.exif.status !== 'error') return;
+    const { id, file, exif } = data;
+    // Videos are never loaded whole, and the checks are about JPEG compression anyway
+    if (isVideo) {
+      updateImage(id, { forensics: { checks: [{ id: 'pixels', label: 'Forensics', verdict: 'info', detail: 'Forensic checks only apply to images.' }] } });
+      return;
+    }
+    updateImage(id, { forensics: null });
+    runForensics(file, exif)
+      .then(forensics => updateImage(id, { forensics }))
+      .catch(err => {
+        console.error("Forensic analysis failed", err);
+        updateImage(id, {
+          forensics: { checks: [{ id: 'error', label: 'Forensics', verdict: 'info', detail: 'Local analysis could not decode this image.' }] }
+        });
+      });
+  }, [activeTab, data?.id, data?.format, data?.forensics, data?.stages.exif.status]);
+
+  // Face detection loads a large model, so redactions are only proposed once the Privacy tab is opened
+  useEffect(() => {
+    if (activeTab !== TabView.PRIVACY || !data || data.fromHistory || isVideo || data.redactions !== undefined) return;
+    // Sensitive text is located in the local OCR result
+    if (data.stages.ocr.status !== 'done' && data.stages.ocr.status !== 'error') return;
+    const { id, file, ocr } = data;
+    if (redactionRuns.current.has(id)) return;
+    redactionRuns.current.add(id);
+    setRedactionError(null);
+    detectFaces(file)
+      .catch(err => {
+        console.error("Face detection failed", err);
+        const reason = err instanceof Error ? err.message : String(err);
+        setRedactionError(`Face detection is unavailable, so only text was checked. Cover faces by hand. (${reason})`);
+        return [];
+      })
+      .then(faces => updateImage(id, { redactions: [...faces, ...(ocr ? findTextRegions(ocr) : [])] }))
+      .finally(() => redactionRuns.current.delete(id));
+  }, [activeTab, data?.id, data?.redactions, data?.stages.ocr.status, isVideo]);
+
+  // Document mode is a second model pass, so it only starts once the OCR tab is opened on a document
+  useEffect(() => {
+    if (activeTab !== TabView.OCR || !data || data.fromHistory || isVideo || data.document !== undefined) return;
+    if (data.aiAnalysis?.imageCategory !== 'Document') return;
+    runDocumentMode(data);
+  }, [activeTab, data?.id, data?.document, data?.aiAnalysis?.imageCategory, isVideo]);
+
+  // Every finished analysis is kept in the local history; analyzing the same file again overwrites its entry
+  useEffect(() => {
+    images
+      .filter(img => img.status === 'done' && img.aiAnalysis && !img.savedToHistory && !img.fromHistory)
+      .filter(img => !historySaves.current.has(img.id))
+      .forEach(img => {
+        historySaves.current.add(img.id);
+        saveToHistory(img)
+          .then(() => updateImage(img.id, { savedToHistory: true }))
+          .catch(err => console.error("Failed to save analysis to history", err))
+          .finally(() => historySaves.current.delete(img.id));
+      });
+  }, [images]);
+
+  // Reverse geocoding is offline but loads a large gazetteer, so only opened images are looked up
+  useEffect(() => {
+    const latitude = data?.exif?.latitude;
+    const longitude = data?.exif?.longitude;
+    if (!data || data.place !== undefined || latitude === undefined || longitude === undefined) return;
+    const { id } = data;
+    reverseGeocode(latitude, longitude)
+      .then(place => updateImage(id, { place }))
+      .catch(err => console.error("Reverse geocoding failed", err));
+  }, [data?.id, data?.exif, data?.place]);
 
   useEffect(() => {
     // Check system preference
@@ -26,174 +218,889 @@ function App() {
     }
   }, [isDarkMode]);
 
-  const handleImageSelect = async (file: File) => {
-    const previewUrl = URL.createObjectURL(file);
-    
-    // Init state
-    const newImage: ProcessedImage = {
-      id: Date.now().toString(),
+  const updateImage = (id: string, patch: Partial<ProcessedImage>) => {
+    setImages(prev => prev.map(img => img.id === id ? { ...img, ...patch } : img));
+  };
+
+  const updateStage = (id: string, stage: keyof ProcessingStages, patch: Partial<StageState>) => {
+    setImages(prev => prev.map(img => img.id === id
+      ? { ...img, stages: { ...img.stages, [stage]: { ...img.stages[stage], ...patch } } }
+      : img
+    ));
+  };
+
+  /**
+   * State writers for one run over an image. Once the run is cancelled or replaced by a newer one,
+   * whatever it still reports is dropped instead of overwriting the newer state.
+   */
+  const runWriters = (id: string, signal: AbortSignal) => ({
+    update: (patch: Partial<ProcessedImage>) => {
+      if (!signal.aborted) updateImage(id, patch);
+    },
+    updateStage: (stage: keyof ProcessingStages, patch: Partial<StageState>) => {
+      if (!signal.aborted) updateStage(id, stage, patch);
+    },
+  });
+
+  const runExifStage = async (id: string, file: File, signal: AbortSignal): Promise<boolean> => {
+    const run = runWriters(id, signal);
+    run.updateStage('exif', { status: 'pending', attempts: 0, error: undefined });
+    try {
+      // 1. Extract EXIF (Fast, offline)
+      const exifData = await exifLimiter.current(() => {
+        run.updateStage('exif', { status: 'running', attempts: 1 });
+        run.update({ status: 'processing', progress: 10 });
+        return extractExifData(file, signal);
+      }, signal);
+      run.update({ exif: exifData, progress: 30 });
+      run.updateStage('exif', { status: 'done' });
+      return true;
+    } catch (err) {
+      run.updateStage('exif', {
+        status: 'error',
+        error: { kind: 'unknown', message: err instanceof Error ? err.message : String(err) }
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Reuses a cached result for the same file unless force is set. A near-identical image's result
+   * is only offered: the stage stops without calling the provider until the user picks one.
+   * With tiling enabled, images already known to be documents or screenshots are sent with tiles
+   * right away; others are analyzed again with tiles when the first pass says they are.
+   * Fields are shown as the response streams in, until the validated result replaces them.
+   */
+  const runAiStage = async (
+    image: ProcessedImage,
+    { signal, force = false }: { signal: AbortSignal; force?: boolean }
+  ): Promise<boolean> => {
+    const { id, file } = image;
+    const run = runWriters(id, signal);
+    const knownCategory = image.aiAnalysis?.imageCategory;
+    run.updateStage('ai', { status: 'pending', attempts: 0, error: undefined });
+    run.update({ similarAnalysis: undefined });
+    const uploadOptions = providerSettings.upload ?? DEFAULT_UPLOAD_OPTIONS;
+    const cacheTtlDays = providerSettings.cacheTtlDays ?? DEFAULT_CACHE_TTL_DAYS;
+    const provider = PROVIDERS[providerSettings.provider];
+    const profile = findProfile(profiles, image.profileId);
+    try {
+      let cacheKey: CacheKey | undefined;
+      if (cacheTtlDays > 0) {
+        try {
+          cacheKey = await createCacheKey(file, providerSettings, profile, image.fileHash, signal);
+          if (!image.fileHash) run.update({ fileHash: cacheKey.sha256 });
+          const cached = force ? null : await lookupAnalysis(cacheKey, cacheTtlDays);
+          if (cached?.match === 'similar') {
+            run.update({
+              aiAnalysis: undefined,
+              validationIssues: undefined,
+              similarAnalysis: cached.entry,
+              cache: undefined,
+              upload: undefined,
+              progress: 100
+            });
+            run.updateStage('ai', { status: 'done', error: undefined });
+            return true;
+          }
+          if (cached) {
+            run.update({
+              aiAnalysis: cached.entry.result,
+              validationIssues: cached.entry.issues,
+              cache: { hit: true, match: cached.match, cachedAt: cached.entry.cachedAt },
+              upload: undefined,
+              progress: 100
+            });
+            run.updateStage('ai', { status: 'done', error: undefined });
+            return true;
+          }
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          // Without IndexedDB the analysis simply runs uncached
+          console.error("Analysis cache unavailable", err);
+        }
+      }
+
+      // 2. AI Analysis (Async, online)
+      const aiResult = await aiLimiter.current(async () => {
+        run.updateStage('ai', { status: 'running', attempts: 1 });
+        run.update({ status: 'processing' });
+        const analyze = async (tile: boolean) => {
+          const { payload, stats } = await prepareUpload(file, provider, uploadOptions, { tile, signal });
+          run.update({ upload: stats, progress: 50 });
+          const result = await retryWithBackoff(() => analyzeImage(payload, providerSettings, profile, {
+            signal,
+            onPartial: partialAnalysis => run.update({ partialAnalysis }),
+          }), {
+            retries: AI_MAX_RETRIES,
+            baseDelayMs: AI_RETRY_BASE_DELAY_MS,
+            shouldRetry: err => err instanceof AnalysisError && err.retryable,
+            onRetry: (attempt, _delayMs, err) => {
+              // The next attempt streams from the start
+              run.update({ partialAnalysis: undefined });
+              run.updateStage('ai', {
+                status: 'retrying',
+                attempts: attempt + 1,
+                error: classifyError(err).toStageError()
+              });
+            },
+            signal,
+          });
+          return { result, stats };
+        };
+
+        const tileKnown = uploadOptions.tileText && !!knownCategory && TILED_CATEGORIES.includes(knownCategory);
+        const first = await analyze(tileKnown);
+        const { originalWidth, originalHeight } = first.stats;
+        const worthTiling = uploadOptions.tileText && !tileKnown
+          && TILED_CATEGORIES.includes(first.result.result.imageCategory)
+          && Math.max(originalWidth, originalHeight) > uploadOptions.maxEdge;
+        return worthTiling ? (await analyze(true)).result : first.result;
+      }, signal);
+      run.update({
+        aiAnalysis: aiResult.result,
+        partialAnalysis: undefined,
+        validationIssues: aiResult.issues,
+        cache: { hit: false, forced: force },
+        progress: 100
+      });
+      run.updateStage('ai', { status: 'done', error: undefined });
+      if (cacheKey) {
+        storeAnalysis(cacheKey, aiResult.result, aiResult.issues)
+          .catch(err => console.error("Failed to cache analysis", err));
+      }
+      return true;
+    } catch (err) {
+      run.update({ partialAnalysis: undefined });
+      run.updateStage('ai', { status: 'error', error: classifyError(err).toStageError() });
+      return false;
+    }
+  };
+
+  const runOcrStage = async (id: string, file: File, signal: AbortSignal): Promise<boolean> => {
+    const run = runWriters(id, signal);
+    run.updateStage('ocr', { status: 'pending', attempts: 0, error: undefined });
+    try {
+      // 3. Local OCR (Slow, offline)
+      const ocr = await ocrLimiter.current(() => {
+        run.updateStage('ocr', { status: 'running', attempts: 1 });
+        return recognizeText(file, ocrLanguages, signal);
+      }, signal);
+      run.update({ ocr });
+      run.updateStage('ocr', { status: 'done' });
+      return true;
+    } catch (err) {
+      run.updateStage('ocr', {
+        status: 'error',
+        error: { kind: 'unknown', message: err instanceof Error ? err.message : String(err) }
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Straightens the page, then reads key-value pairs, tables and entities from it in a second
+   * model pass. Given corners replace the detected page edges.
+   */
+  const runDocumentMode = async (image: ProcessedImage, corners?: PagePoint[]) => {
+    const { id, file } = image;
+    if (documentRuns.current.has(id)) return;
+    const controller = new AbortController();
+    documentRuns.current.set(id, controller);
+    const { signal } = controller;
+    const run = runWriters(id, signal);
+    if (image.document?.scan.url) URL.revokeObjectURL(image.document.scan.url);
+    updateImage(id, { document: null });
+    // Without a page the photo is read as it is
+    const page = await scanDocument(file, corners, signal).catch(err => {
+      if (!isAbortError(err)) console.error("Page detection failed", err);
+      return { corners: corners ?? null, blob: null };
+    });
+    const scan: DocumentScan = { corners: page.corners, url: page.blob ? URL.createObjectURL(page.blob) : undefined };
+    try {
+      const { extraction, issues } = await aiLimiter.current(() =>
+        extractDocumentFields(page.blob ?? file, providerSettings, !!page.blob, signal), signal
+      );
+      run.update({ document: { extraction, issues, scan }, savedToHistory: false });
+    } catch (err) {
+      run.update({ document: { extraction: null, issues: [], error: classifyError(err).toStageError(), scan } });
+    } finally {
+      if (signal.aborted && scan.url) URL.revokeObjectURL(scan.url);
+      documentRuns.current.delete(id);
+    }
+  };
+
+  /**
+   * Runs the given stages for an image. Stages not listed keep their previous result. Starting a
+   * run cancels the one before it, so only the newest run writes its results.
+   */
+  const processImage = async (
+    image: ProcessedImage,
+    stages: (keyof ProcessingStages)[] = ['exif', 'ai', 'ocr'],
+    { force = false }: { force?: boolean } = {}
+  ) => {
+    const { id, file } = image;
+    abortControllers.current.get(id)?.abort();
+    const controller = new AbortController();
+    abortControllers.current.set(id, controller);
+    const { signal } = controller;
+    updateImage(id, { status: 'queued', isProcessing: true, error: undefined, savedToHistory: false });
+
+    const results: boolean[] = [];
+    if (stages.includes('exif')) results.push(await runExifStage(id, file, signal));
+    // The AI call and local OCR are independent and use separate limiters
+    results.push(...await Promise.all([
+      stages.includes('ai') ? runAiStage(image, { signal, force }) : true,
+      stages.includes('ocr') ? runOcrStage(id, file, signal) : true,
+    ]));
+    if (abortControllers.current.get(id) === controller) abortControllers.current.delete(id);
+    // A cancelled, replaced or dismissed run leaves the state to whoever stopped it
+    if (signal.aborted) return;
+
+    const failed = results.includes(false);
+    updateImage(id, {
+      isProcessing: false,
+      status: failed ? 'error' : 'done',
+      error: failed ? "One or more stages failed." : undefined
+    });
+  };
+
+  /**
+   * Sniffs the real format and, for HEIC and RAW files the browser cannot show,
+   * swaps the preview for a decoded rendition.
+   */
+  const loadPreview = async (image: ProcessedImage) => {
+    try {
+      updateImage(image.id, { format: await detectFileFormat(image.file) });
+      const rendition = await getDecodableImage(image.file);
+      if (rendition !== image.file) {
+        URL.revokeObjectURL(image.previewUrl);
+        updateImage(image.id, { previewUrl: URL.createObjectURL(rendition) });
+      }
+    } catch (err) {
+      console.error("Failed to decode preview", err);
+    }
+  };
+
+  const loadHashes = async (image: ProcessedImage) => {
+    try {
+      updateImage(image.id, { hashes: await perceptualHashes(image.file) });
+    } catch (err) {
+      console.error("Failed to hash image", err);
+    }
+  };
+
+  const failedStages = (image: ProcessedImage) =>
+    (Object.keys(image.stages) as (keyof ProcessingStages)[]).filter(stage => image.stages[stage].status === 'error');
+
+  const handleImagesSelect = (files: File[]) => {
+    if (files.length === 0) return;
+
+    const newImages: ProcessedImage[] = files.map((file, i) => ({
+      id: `${Date.now()}_${i}`,
       file,
-      previewUrl,
+      previewUrl: URL.createObjectURL(file),
       exif: null,
       aiAnalysis: null,
       isProcessing: true,
+      status: 'queued',
+      stages: INITIAL_STAGES,
+      progress: 0,
       error: undefined,
-    };
-    setData(newImage);
+      profileId: batchProfileId,
+    }));
+
+    setImages(prev => [...prev, ...newImages]);
     setShowCamera(false);
+    // A single file with nothing else queued goes straight to the detail view
+    if (files.length === 1 && images.length === 0) {
+      setSelectedId(newImages[0].id);
+    }
 
-    try {
-      // 1. Extract EXIF (Fast, offline)
-      const exifData = await extractExifData(file);
-      
-      setData(prev => prev ? { ...prev, exif: exifData } : null);
+    newImages.forEach(img => {
+      loadPreview(img);
+      loadHashes(img);
+      processImage(img);
+    });
+  };
 
-      // 2. AI Analysis (Async, online)
-      const base64 = await fileToBase64(file);
-      const aiResult = await analyzeImageWithGemini(base64);
+  const handleImageSelect = (file: File) => handleImagesSelect([file]);
+
+  const handleRetry = (id: string) => {
+    const image = images.find(img => img.id === id);
+    if (image) processImage(image, failedStages(image));
+  };
 
-      setData(prev => prev ? { 
-        ...prev, 
-        aiAnalysis: aiResult,
-        isProcessing: false 
-      } : null);
+  const handleUseSimilar = (id: string) => {
+    const entry = images.find(img => img.id === id)?.similarAnalysis;
+    if (!entry) return;
+    updateImage(id, {
+      aiAnalysis: entry.result,
+      validationIssues: entry.issues,
+      cache: { hit: true, match: 'similar', cachedAt: entry.cachedAt },
+      similarAnalysis: undefined,
+      savedToHistory: false
+    });
+  };
 
-    } catch (err) {
-      console.error(err);
-      setData(prev => prev ? { 
-        ...prev, 
+  const handleReanalyze = (id: string) => {
+    const image = images.find(img => img.id === id);
+    if (image) processImage(image, ['ai'], { force: true });
+  };
+
+  /**
+   * Switches an image to another profile and analyzes it again; the cache answers when it was
+   * already analyzed with that profile.
+   */
+  const handleProfileChange = (id: string, profileId: string) => {
+    const image = images.find(img => img.id === id);
+    if (!image) return;
+    updateImage(id, { profileId });
+    if (!image.fromHistory) processImage({ ...image, profileId }, ['ai']);
+  };
+
+  // Images still being processed keep the profile they started with
+  const handleBatchProfileChange = (profileId: string) => {
+    setBatchProfileId(profileId);
+    saveSelectedProfileId(profileId);
+    images
+      .filter(img => img.profileId !== profileId && !img.isProcessing)
+      .forEach(img => handleProfileChange(img.id, profileId));
+  };
+
+  const handleRetryFailed = () => {
+    images.filter(img => img.status === 'error').forEach(img => processImage(img, failedStages(img)));
+  };
+
+  /**
+   * Cancels any work still running for an image and frees its object URLs.
+   */
+  const releaseImage = (img: ProcessedImage) => {
+    abortControllers.current.get(img.id)?.abort();
+    abortControllers.current.delete(img.id);
+    documentRuns.current.get(img.id)?.abort();
+    URL.revokeObjectURL(img.previewUrl);
+    if (img.rawMetadata?.thumbnailUrl) URL.revokeObjectURL(img.rawMetadata.thumbnailUrl);
+    if (img.forensics?.elaHeatmapUrl) URL.revokeObjectURL(img.forensics.elaHeatmapUrl);
+    if (img.document?.scan.url) URL.revokeObjectURL(img.document.scan.url);
+  };
+
+  /**
+   * Stops the image's current run. Stages that finished keep their results; the others are marked
+   * as cancelled and can be retried.
+   */
+  const handleCancel = (id: string) => {
+    abortControllers.current.get(id)?.abort();
+    abortControllers.current.delete(id);
+    // Finished stages keep their result
+    const cancel = (state: StageState): StageState => state.status === 'done' || state.status === 'error'
+      ? state
+      : { ...state, status: 'error', error: { kind: 'cancelled', message: "Cancelled." } };
+    setImages(prev => prev.map(img => img.id === id
+      ? {
+        ...img,
         isProcessing: false,
-        error: "Failed to process image fully." 
-      } : null);
+        status: 'error',
+        error: "Cancelled.",
+        partialAnalysis: undefined,
+        stages: { exif: cancel(img.stages.exif), ai: cancel(img.stages.ai), ocr: cancel(img.stages.ocr) },
+      }
+      : img
+    ));
+  };
+
+  const handleClear = () => {
+    images.forEach(releaseImage);
+    setImages([]);
+    setSelectedId(null);
+    setCompareIds(null);
+  };
+
+  const handleRemove = (id: string) => {
+    const image = images.find(img => img.id === id);
+    if (!image) return;
+    releaseImage(image);
+    setImages(prev => prev.filter(img => img.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleClosePreview = () => {
+    // With a single image there is no gallery to go back to
+    if (images.length <= 1) {
+      handleClear();
+    } else {
+      setSelectedId(null);
+    }
+  };
+
+  const handleOpenFromHistory = (entry: HistoryEntry) => {
+    const existing = images.find(img => img.id === entry.id);
+    if (!existing) {
+      const image: ProcessedImage = {
+        id: entry.id,
+        file: new File([entry.thumbnail], entry.fileName, { type: entry.thumbnail.type }),
+        previewUrl: URL.createObjectURL(entry.thumbnail),
+        exif: entry.exif,
+        aiAnalysis: entry.aiAnalysis,
+        ocr: entry.ocr,
+        // The stored thumbnail carries no metadata and is too small for forensics
+        rawMetadata: { groups: [] },
+        forensics: { checks: [{ id: 'history', label: 'Forensics', verdict: 'info', detail: REOPEN_ORIGINAL_NOTICE }] },
+        isProcessing: false,
+        status: 'done',
+        stages: HISTORY_STAGES,
+        progress: 100,
+        fromHistory: true,
+        fileHash: entry.fileHash,
+        hashes: entry.hashes,
+        redactions: entry.redactions,
+        document: entry.document && { extraction: entry.document, issues: [], scan: { corners: null } },
+        profileId: entry.aiAnalysis.profile?.id ?? DEFAULT_PROFILE_ID,
+      };
+      setImages(prev => [...prev, image]);
     }
+    setSelectedId(entry.id);
+    setShowHistory(false);
+  };
+
+  const handleExport = async (targets: ProcessedImage[], format: ExportFormat) => {
+    if (targets.length === 0) return;
+    const baseName = targets.length === 1
+      ? targets[0].file.name.replace(/\.[^.]+$/, '')
+      : `metadata_${new Date().toISOString().slice(0, 10)}`;
+    setIsExporting(true);
+    try {
+      const records = await buildExportRecords(targets);
+      if (format === 'json') {
+        downloadBlob(toJsonExport(records), `${baseName}.json`);
+      } else if (format === 'csv') {
+        downloadBlob(toCsvExport(records), `${baseName}.csv`);
+      } else {
+        const report = await toHtmlReport(targets, records);
+        if (format === 'pdf') {
+          await printReport(report);
+        } else {
+          downloadBlob(report, `${baseName}_report.html`);
+        }
+      }
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to export results.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDocumentExport = (image: ProcessedImage, format: 'csv' | 'json') => {
+    const extraction = image.document?.extraction;
+    if (!extraction) return;
+    const baseName = `${image.file.name.replace(/\.[^.]+$/, '')}_document`;
+    downloadBlob(format === 'csv' ? toDocumentCsvExport(extraction) : toDocumentJsonExport(extraction), `${baseName}.${format}`);
+  };
+
+  const handleSaveSettings = (settings: ProviderSettings, nextProfiles: AnalysisProfile[]) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+    setProfiles(nextProfiles);
+    saveProfiles(nextProfiles);
+    setShowSettings(false);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleImageSelect(e.dataTransfer.files[0]);
-    }
+    const files = await collectDroppedFiles(e.dataTransfer);
+    handleImagesSelect(files);
   };
 
+  /**
+   * Strips all metadata when every metadata finding is selected. When the user chose to keep
+   * some of them, only the fields of the selected findings are removed and the rest is rewritten.
+   * Redaction regions are covered in both cases, and the image's history entry is re-saved with
+   * them so the export can be reproduced.
+   */
   const handlePrivacyClean = async () => {
-    if (!data?.previewUrl) return;
+    if (!data) return;
+    const findings = auditPrivacy(data.exif, data.aiAnalysis, data.ocr).findings.filter(finding => finding.fields.length > 0);
+    const selected = findings.filter(finding => !skippedFindings.includes(finding.id));
+    const redactions = isVideo ? [] : data.redactions ?? [];
     try {
-      const blob = await cleanImageMetadata(data.previewUrl);
-      if (blob) {
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `clean_${data.file.name}`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+      if (!canKeepFields || !data.exif || selected.length === findings.length) {
+        const { blob, removed } = await cleanImageMetadata(data.file, stripOptions, redactions);
+        if (!blob) return;
+        downloadBlob(blob, `clean_${renameForType(data.file.name, blob.type)}`);
+        setStripReport(removed);
+        setRemovedFields(null);
+      } else {
+        const { result, errors } = applyFieldEdits(data.exif, editsForFindings(selected));
+        if (Object.keys(errors).length > 0) {
+          setKeptFieldErrors(errors);
+          setRemovedFields(null);
+          setStripReport(null);
+          setRedactedCount(null);
+          return;
+        }
+        let file = data.file;
+        if (redactions.length > 0) {
+          const redacted = await redactImage(data.file, redactions);
+          file = new File([redacted], renameForType(data.file.name, redacted.type), { type: redacted.type });
+        }
+        const blob = await writeEditedImage(file, result, stripOptions);
+        downloadBlob(blob, `clean_${file.name}`);
+        setRemovedFields((Object.keys(data.exif) as (keyof ExifData)[]).filter(field => result[field] === undefined));
+        setStripReport(null);
       }
+      setKeptFieldErrors(null);
+      setRedactedCount(redactions.length);
+      if (redactions.length > 0) updateImage(data.id, { savedToHistory: false });
     } catch (e) {
-      alert("Failed to create clean image.");
+      alert(e instanceof Error ? e.message : "Failed to create clean image.");
     }
   };
 
-  // --- UI Components for Results ---
+  const toggleFinding = (id: PrivacyFindingId) => {
+    setSkippedFindings(prev => prev.includes(id) ? prev.filter(skipped => skipped !== id) : [...prev, id]);
+  };
 
-  const renderOverview = () => (
-    <div className="space-y-4">
-      <div className="grid grid-cols-2 gap-4">
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700">
-          <p className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1">Date Taken</p>
-          <p className="text-lg font-medium">
-            {data?.exif?.dateTimeOriginal || <span className="text-slate-400 italic">Unknown</span>}
-          </p>
-        </div>
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700">
-          <p className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1">Camera</p>
-          <p className="text-lg font-medium truncate">
-            {data?.exif?.model || <span className="text-slate-400 italic">Unknown</span>}
-          </p>
-        </div>
-      </div>
+  const handleWriteExif = async (exif: ExifData) => {
+    if (!data) return;
+    try {
+      const blob = await writeEditedImage(data.file, exif, stripOptions);
+      downloadBlob(blob, `edited_${data.file.name}`);
+      setIsEditingExif(false);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to write metadata.");
+    }
+  };
 
-      {data?.aiAnalysis && (
-        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700">
-          <h3 className="font-semibold mb-3">AI Insights</h3>
-          <div className="flex flex-wrap gap-2">
-            <span className="px-3 py-1 bg-brand-100 text-brand-900 rounded-full text-sm font-medium">
-              {data.aiAnalysis.sceneType}
-            </span>
-            <span className="px-3 py-1 bg-purple-100 text-purple-900 rounded-full text-sm font-medium">
-              {data.aiAnalysis.imageCategory}
-            </span>
-             <span className="px-3 py-1 bg-indigo-100 text-indigo-900 rounded-full text-sm font-medium">
-              {data.aiAnalysis.peopleCount} Person(s)
-            </span>
-            {data.aiAnalysis.objects.slice(0, 5).map((obj, i) => (
-              <span key={i} className="px-3 py-1 bg-slate-100 dark:bg-slate-700 rounded-full text-sm">
-                {obj}
-              </span>
-            ))}
-          </div>
-        </div>
-      )}
+  // --- UI Components for Results ---
 
-      {data?.exif?.latitude && (
-        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-4 rounded-xl flex items-start gap-3">
+  const renderLocation = () => {
+    const point = data && toMapPoint(data.id, data.file.name, data.exif);
+    if (!data?.exif || !point) return null;
+    const { exif, place } = data;
+    return (
+      <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-4 rounded-xl space-y-3">
+        <div className="flex items-start gap-3">
           <svg className="w-5 h-5 text-amber-600 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
           </svg>
-          <div>
+          <div className="text-sm text-amber-800 dark:text-amber-200 space-y-0.5">
             <p className="font-bold text-amber-900 dark:text-amber-100">Location Data Found</p>
-            <p className="text-sm text-amber-800 dark:text-amber-200">
-              {data.exif.latitude.toFixed(4)}, {data.exif.longitude?.toFixed(4)}
+            <p>
+              {place
+                ? `${place.city}, ${place.country} (${place.distanceKm} km away)`
+                : place === null ? 'No city nearby in the offline gazetteer' : 'Looking up place...'}
+            </p>
+            <p className="font-mono">{point.latitude.toFixed(5)}, {point.longitude.toFixed(5)}</p>
+            {exif.altitude !== undefined && <p>Altitude: {exif.altitude.toFixed(1)} m</p>}
+            {exif.gpsDirection !== undefined && (
+              <p>Heading: {Math.round(exif.gpsDirection)}° {exif.gpsDirectionRef === 'M' ? '(magnetic)' : '(true north)'}</p>
+            )}
+            {exif.gpsTimestamp && <p>GPS time: {exif.gpsTimestamp}</p>}
+          </div>
+        </div>
+        <MapPanel points={[point]} selectedId={point.id} />
+      </div>
+    );
+  };
+
+  const renderOverview = () => {
+    // Streamed fields show up here before the full analysis is in
+    const insights = data?.aiAnalysis ?? data?.partialAnalysis;
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700">
+            <p className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1">Date Taken</p>
+            <p className="text-lg font-medium">
+              {data?.exif?.dateTimeOriginal || <span className="text-slate-400 italic">Unknown</span>}
+            </p>
+          </div>
+          <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700">
+            <p className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1">Camera</p>
+            <p className="text-lg font-medium truncate">
+              {data?.exif?.model || <span className="text-slate-400 italic">Unknown</span>}
             </p>
           </div>
         </div>
-      )}
-    </div>
-  );
+
+        {insights && (
+          <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700">
+            <h3 className={`font-semibold mb-3 ${data?.aiAnalysis ? '' : 'animate-pulse'}`}>AI Insights</h3>
+            <div className="flex flex-wrap gap-2">
+              {insights.sceneType && (
+                <span className="px-3 py-1 bg-brand-100 text-brand-900 rounded-full text-sm font-medium">
+                  {insights.sceneType}
+                </span>
+              )}
+              {insights.imageCategory && (
+                <span className="px-3 py-1 bg-purple-100 text-purple-900 rounded-full text-sm font-medium">
+                  {insights.imageCategory}
+                </span>
+              )}
+              {insights.peopleCount !== undefined && (
+                <span className="px-3 py-1 bg-indigo-100 text-indigo-900 rounded-full text-sm font-medium">
+                  {insights.peopleCount} Person(s)
+                </span>
+              )}
+              {insights.objects?.slice(0, 5).map((obj, i) => (
+                <span key={i} className="px-3 py-1 bg-slate-100 dark:bg-slate-700 rounded-full text-sm">
+                  {obj}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {data?.stages.ai.status === 'error' && data.stages.ai.error && (
+          <StageErrorCard title="AI Analysis Failed" error={data.stages.ai.error} onRetry={() => handleRetry(data.id)} />
+        )}
+
+        {renderLocation()}
+
+        {data && (
+          <SimilarImagesPanel images={images} focusId={data.id} onOpen={setSelectedId} onOpenHistory={handleOpenFromHistory} />
+        )}
+      </div>
+    );
+  };
 
   const renderExif = () => {
-    if (!data?.exif) return <div className="text-center p-8 text-slate-500">No EXIF data found.</div>;
+    if (!data) return null;
+    if (isEditingExif && data.exif) {
+      return <MetadataEditor exif={data.exif} onWrite={handleWriteExif} onCancel={() => setIsEditingExif(false)} />;
+    }
+
+    const modeToggle = (
+      <div className="flex justify-between items-center">
+        <div className="flex gap-1 p-1 bg-slate-200 dark:bg-slate-800 rounded-lg">
+          {(['summary', 'raw'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setExifMode(mode)}
+              className={`px-3 py-1 rounded-md text-xs font-bold capitalize transition-all ${
+                exifMode === mode ? 'bg-white dark:bg-slate-700 text-brand-600 shadow-sm' : 'text-slate-500 dark:text-slate-400'
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        {exifMode === 'summary' && data.exif && !data.fromHistory && (
+          <button
+            onClick={() => setIsEditingExif(true)}
+            className="px-3 py-2 rounded-lg text-xs font-bold bg-brand-600 text-white hover:bg-brand-700 transition-colors"
+          >
+            Edit Fields
+          </button>
+        )}
+      </div>
+    );
+
+    if (exifMode === 'raw') {
+      return (
+        <div className="space-y-4">
+          {modeToggle}
+          {data.fromHistory ? (
+            <div className="text-center p-8 text-slate-500">{REOPEN_ORIGINAL_NOTICE}</div>
+          ) : data.rawMetadata ? (
+            <RawMetadataView metadata={data.rawMetadata} previewUrl={data.previewUrl} />
+          ) : (
+            <div className="text-center p-8 animate-pulse text-slate-400">Reading all metadata segments...</div>
+          )}
+        </div>
+      );
+    }
+
+    if (!data.exif) {
+      const { exif } = data.stages;
+      return (
+        <div className="space-y-4">
+          {modeToggle}
+          {exif.status === 'error' && exif.error ? (
+            <StageErrorCard title="EXIF Extraction Failed" error={exif.error} onRetry={() => handleRetry(data.id)} />
+          ) : (
+            <div className="text-center p-8 text-slate-500">No EXIF data found.</div>
+          )}
+        </div>
+      );
+    }
     return (
-      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
-        <table className="w-full text-sm text-left">
-          <thead className="bg-slate-50 dark:bg-slate-900 text-slate-500 font-medium">
-            <tr>
-              <th className="px-4 py-3">Property</th>
-              <th className="px-4 py-3">Value</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
-            {Object.entries(data.exif).map(([key, value]) => (
-              <tr key={key}>
-                <td className="px-4 py-3 font-medium capitalize text-slate-700 dark:text-slate-300">
-                  {key.replace(/([A-Z])/g, ' $1').trim()}
-                </td>
-                <td className="px-4 py-3 text-slate-600 dark:text-slate-400 font-mono">
-                  {value?.toString()}
-                </td>
+      <div className="space-y-4">
+        {modeToggle}
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 dark:bg-slate-900 text-slate-500 font-medium">
+              <tr>
+                <th className="px-4 py-3">Property</th>
+                <th className="px-4 py-3">Value</th>
               </tr>
-            ))}
-          </tbody>
-        </table>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+              {Object.entries(data.exif).map(([key, value]) => (
+                <tr key={key}>
+                  <td className="px-4 py-3 font-medium capitalize text-slate-700 dark:text-slate-300">
+                    {key.replace(/([A-Z])/g, ' $1').trim()}
+                  </td>
+                  <td className="px-4 py-3 text-slate-600 dark:text-slate-400 font-mono">
+                    {value?.toString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
       </div>
     );
   };
 
   const renderAiAnalysis = () => {
-    if (!data?.aiAnalysis) return <div className="text-center p-8 animate-pulse text-slate-400">Analyzing image...</div>;
-    const { authenticity, faceEmotion, dominantColors, isSafe } = data.aiAnalysis;
+    if (!data) return null;
+    const forensicsPanel = (
+      <ForensicsPanel
+        report={data.forensics}
+        showOverlay={showElaOverlay}
+        onToggleOverlay={() => setShowElaOverlay(!showElaOverlay)}
+      />
+    );
+    const { upload, cache } = data;
+    const profileSelector = !data.fromHistory && (
+      <label className="flex items-center gap-2 text-sm">
+        <span className="text-xs text-slate-500 uppercase font-bold">Profile</span>
+        <select
+          value={data.profileId}
+          onChange={(e) => handleProfileChange(data.id, e.target.value)}
+          disabled={data.isProcessing}
+          className="bg-slate-100 dark:bg-slate-800 rounded-lg px-2 py-1 text-sm border border-slate-200 dark:border-slate-700 disabled:opacity-50"
+        >
+          {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+      </label>
+    );
+    const uploadSummary = (upload || cache) && (
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-slate-500 space-y-0.5">
+          {cache && (
+            <p>
+              <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase mr-1.5 ${cache.hit ? 'bg-green-100 text-green-800' : 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200'}`}>
+                {cache.hit ? 'Cache hit' : 'Cache miss'}
+              </span>
+              {cache.hit
+                ? `Reused the result stored ${new Date(cache.cachedAt!).toLocaleString()} for ${cache.match === 'exact' ? 'this file' : 'a near-identical image'}; nothing was sent.`
+                : cache.forced ? 'Re-analyzed on request.' : 'Analyzed by the provider.'}
+            </p>
+          )}
+          {upload && (
+            <p>
+              Sent {Math.ceil(upload.bytes / 1024).toLocaleString()} KB as {upload.mimeType.replace('image/', '').toUpperCase()}
+              {' '}at {upload.width}×{upload.height}
+              {(upload.width !== upload.originalWidth || upload.height !== upload.originalHeight) && ` (from ${upload.originalWidth}×${upload.originalHeight})`}
+              {upload.tiles > 0 && ` + ${upload.tiles} tiles`}
+              {upload.estimatedTokens !== undefined && ` · ~${upload.estimatedTokens.toLocaleString()} tokens`}
+            </p>
+          )}
+        </div>
+        {data.aiAnalysis && !data.isProcessing && !data.fromHistory && (
+          <button
+            onClick={() => handleReanalyze(data.id)}
+            className="shrink-0 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+          >
+            Re-analyze
+          </button>
+        )}
+      </div>
+    );
+    if (!data.aiAnalysis) {
+      const { ai } = data.stages;
+      return (
+        <div className="space-y-4">
+          {forensicsPanel}
+          {profileSelector}
+          {uploadSummary}
+          {ai.status === 'error' && ai.error ? (
+            <StageErrorCard title="AI Analysis Failed" error={ai.error} onRetry={() => handleRetry(data.id)} />
+          ) : data.similarAnalysis ? (
+            <div className="bg-brand-50 dark:bg-brand-900/20 border border-brand-100 dark:border-brand-900 p-4 rounded-xl space-y-3">
+              <div>
+                <p className="font-bold text-brand-900 dark:text-brand-100">Similar Image Found</p>
+                <p className="text-sm text-slate-600 dark:text-slate-300">
+                  A near-identical image was analyzed on {new Date(data.similarAnalysis.cachedAt).toLocaleString()}
+                  {' '}({data.similarAnalysis.result.imageCategory} · {data.similarAnalysis.result.sceneType}).
+                  It may be a re-saved or resized copy, or a different shot that looks alike. Nothing has been sent yet.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleUseSimilar(data.id)}
+                  className="px-3 py-1.5 rounded-lg text-xs font-bold bg-brand-600 text-white hover:bg-brand-700 transition-colors"
+                >
+                  Reuse That Result
+                </button>
+                <button
+                  onClick={() => handleReanalyze(data.id)}
+                  disabled={data.isProcessing}
+                  className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                >
+                  Analyze This Image
+                </button>
+              </div>
+            </div>
+          ) : data.partialAnalysis ? (
+            <StreamingAnalysisCard partial={data.partialAnalysis} />
+          ) : (
+            <div className="text-center p-8 animate-pulse text-slate-400">
+              {ai.status === 'retrying' ? `Retrying after ${ai.error?.kind} error (attempt ${ai.attempts})...` : 'Analyzing image...'}
+            </div>
+          )}
+        </div>
+      );
+    }
+    const { authenticity, faceEmotion, dominantColors, isSafe, profile, customFields } = data.aiAnalysis;
     
     return (
       <div className="space-y-4">
+        {forensicsPanel}
+        {profileSelector}
+        {uploadSummary}
+
+        {data.validationIssues && data.validationIssues.length > 0 && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-4 rounded-xl">
+            <p className="font-bold text-amber-900 dark:text-amber-100 mb-1">Response Adjusted</p>
+            <p className="text-sm text-amber-800 dark:text-amber-200 mb-2">
+              The model's response did not fully match the schema. These fields were corrected:
+            </p>
+            <ul className="text-xs font-mono text-amber-800 dark:text-amber-200 space-y-0.5">
+              {data.validationIssues.map((issue, i) => (
+                <li key={i}>{issue.path}: {issue.problem}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {customFields && (
+          <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700">
+            <p className="text-xs text-slate-500 uppercase font-bold mb-3">{profile?.name} Fields</p>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-3">
+              {customFields.map(field => (
+                <div key={field.key}>
+                  <dt className="text-xs text-slate-500">{field.label}</dt>
+                  <dd className="font-medium break-words">
+                    {field.value === null ? <span className="text-slate-400 italic font-normal">Not found</span> : formatCustomValue(field.value)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
         {/* Authenticity Card */}
         <div className={`p-4 rounded-xl border ${authenticity.isLikelyEdited ? 'bg-red-50 border-red-200 dark:bg-red-900/20' : 'bg-green-50 border-green-200 dark:bg-green-900/20'}`}>
           <div className="flex items-center gap-2 mb-2">
-            <span className="font-bold text-lg">Authenticity Check</span>
+            <span className="font-bold text-lg">Model Opinion</span>
             <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${authenticity.isLikelyEdited ? 'bg-red-200 text-red-800' : 'bg-green-200 text-green-800'}`}>
               {authenticity.isLikelyEdited ? 'Edited' : 'Original'}
             </span>
@@ -202,7 +1109,7 @@ function App() {
           <div className="w-full bg-slate-200 rounded-full h-2.5 dark:bg-slate-700">
             <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${authenticity.score}%` }}></div>
           </div>
-          <p className="text-xs text-right mt-1 text-slate-500">Confidence Score</p>
+          <p className="text-xs text-right mt-1 text-slate-500">Model's editing estimate (unverified)</p>
         </div>
 
         {/* Safety & Emotion */}
@@ -235,23 +1142,104 @@ function App() {
     );
   };
 
-  const renderOcr = () => {
-    if (!data?.aiAnalysis) return <div className="text-center p-8 animate-pulse text-slate-400">Processing OCR...</div>;
+  const renderDocument = () => {
+    if (!data || isVideo) return null;
+    if (data.document === undefined) {
+      // Other categories, e.g. a screenshot of a form, can still be read as a document
+      if (data.fromHistory || !data.aiAnalysis || data.aiAnalysis.imageCategory === 'Document') return null;
+      return (
+        <div className="flex justify-end">
+          <button
+            onClick={() => runDocumentMode(data)}
+            className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+          >
+            Read as Document
+          </button>
+        </div>
+      );
+    }
+    const { document } = data;
     return (
-      <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 min-h-[200px]">
-        {data.aiAnalysis.ocrText ? (
-          <pre className="whitespace-pre-wrap font-mono text-sm text-slate-700 dark:text-slate-300">
-            {data.aiAnalysis.ocrText}
-          </pre>
-        ) : (
-          <div className="text-center text-slate-400 italic mt-10">No text detected in image</div>
+      <DocumentPanel
+        key={data.id}
+        result={document}
+        previewUrl={data.previewUrl}
+        onChange={(extraction) => document && updateImage(data.id, { document: { ...document, extraction } })}
+        onCommit={() => updateImage(data.id, { savedToHistory: false })}
+        onRescan={data.fromHistory ? undefined : (corners) => runDocumentMode(data, corners)}
+        onExport={(format) => handleDocumentExport(data, format)}
+      />
+    );
+  };
+
+  const renderOcr = () => (
+    <div className="space-y-6">
+      {renderDocument()}
+      {renderLocalOcr()}
+    </div>
+  );
+
+  const renderLocalOcr = () => {
+    if (!data) return null;
+    const { ocr } = data.stages;
+    if (ocr.status === 'error' && ocr.error) {
+      return <StageErrorCard title="OCR Failed" error={ocr.error} onRetry={() => handleRetry(data.id)} />;
+    }
+    if (data.fromHistory && !data.ocr) {
+      return <div className="text-center p-8 text-slate-500">{REOPEN_ORIGINAL_NOTICE}</div>;
+    }
+    if (!data.ocr) return <div className="text-center p-8 animate-pulse text-slate-400">Recognizing text...</div>;
+    return (
+      <div className="space-y-4">
+        {!data.fromHistory && (
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-slate-500 uppercase font-bold" htmlFor="ocr-languages">Languages</label>
+            <input
+              id="ocr-languages"
+              value={ocrLanguages}
+              onChange={(e) => setOcrLanguages(e.target.value)}
+              onBlur={() => saveOcrLanguages(ocrLanguages)}
+              placeholder="eng+deu"
+              className="flex-1 bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-700"
+            />
+            <button
+              onClick={() => {
+                saveOcrLanguages(ocrLanguages);
+                processImage(data, ['ocr']);
+              }}
+              disabled={data.isProcessing}
+              className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+            >
+              Re-run OCR
+            </button>
+          </div>
         )}
+        <OcrView key={data.id} result={data.ocr} previewUrl={data.previewUrl} modelText={data.aiAnalysis?.ocrText ?? data.partialAnalysis?.ocrText} />
       </div>
     );
   };
 
-  const renderPrivacy = () => (
+  const renderPrivacy = () => !data ? null : data.fromHistory ? (
+    <div className="text-center p-8 text-slate-500">{REOPEN_ORIGINAL_NOTICE}</div>
+  ) : (
     <div className="space-y-4">
+      <PrivacyAuditPanel
+        audit={auditPrivacy(data.exif, data.aiAnalysis, data.ocr)}
+        skipped={skippedFindings}
+        onToggle={toggleFinding}
+        selectable={canKeepFields}
+      />
+
+      {!isVideo && (
+        <RedactionEditor
+          previewUrl={data.previewUrl}
+          regions={data.redactions}
+          onChange={(redactions) => updateImage(data.id, { redactions })}
+          onDetect={() => updateImage(data.id, { redactions: undefined })}
+          error={redactionError}
+        />
+      )}
+
       <div className="bg-white dark:bg-slate-800 p-6 rounded-xl border border-slate-200 dark:border-slate-700 text-center">
         <div className="w-16 h-16 bg-brand-100 dark:bg-brand-900/30 text-brand-600 rounded-full flex items-center justify-center mx-auto mb-4">
           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8">
@@ -260,21 +1248,98 @@ function App() {
         </div>
         <h3 className="text-xl font-bold mb-2">Privacy Mode</h3>
         <p className="text-slate-500 dark:text-slate-400 mb-6 max-w-sm mx-auto">
-          Strip hidden EXIF data, GPS coordinates, and camera details to share your image safely.
+          {isVideo
+            ? 'Remove location, device and encoder atoms without re-encoding, to share your video safely.'
+            : 'Strip hidden EXIF data, GPS coordinates, and camera details to share your image safely.'}
         </p>
+        {!isVideo && data.exif && data.format && !canKeepFields && (
+          <p className="text-sm text-amber-700 dark:text-amber-300 mb-6 max-w-sm mx-auto">
+            {FORMAT_INFO[data.format].label} files are always cleaned completely: keeping selected fields is only supported for JPEG, PNG and WebP.
+          </p>
+        )}
+        {!isVideo && (
+          <div className="flex flex-col items-start gap-2 max-w-xs mx-auto mb-6 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={stripOptions.keepColorProfile}
+                onChange={(e) => setStripOptions({ ...stripOptions, keepColorProfile: e.target.checked })}
+              />
+              Keep color profile (ICC)
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={stripOptions.keepOrientation}
+                onChange={(e) => setStripOptions({ ...stripOptions, keepOrientation: e.target.checked })}
+              />
+              Keep orientation
+            </label>
+          </div>
+        )}
         <button 
           onClick={handlePrivacyClean}
           className="bg-brand-600 hover:bg-brand-700 text-white font-bold py-3 px-6 rounded-lg w-full max-w-xs transition-colors shadow-lg shadow-brand-500/30"
         >
-          Clean & Download Image
+          {isVideo ? 'Clean & Download Video' : 'Clean & Download Image'}
         </button>
       </div>
+
+      {keptFieldErrors && (
+        <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-xl border border-red-200 dark:border-red-800">
+          <p className="text-xs text-red-600 uppercase font-bold mb-3">Nothing Exported</p>
+          <ul className="text-sm space-y-1">
+            {(Object.keys(keptFieldErrors) as (keyof ExifData)[]).map(field => (
+              <li key={field}><span className="font-mono">{field}</span>: <span className="text-red-600">{keptFieldErrors[field]}</span></li>
+            ))}
+          </ul>
+          <p className="text-xs text-slate-500 mt-2">These fields would be kept but their values are invalid, so they cannot be written back. Select every finding to strip all metadata instead.</p>
+        </div>
+      )}
+
+      {!!redactedCount && (
+        <p className="text-sm text-slate-500 text-center">
+          {redactedCount} region(s) were covered, so the image was re-encoded without any metadata segments, including the color profile.
+        </p>
+      )}
+
+      {removedFields && (
+        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700">
+          <p className="text-xs text-slate-500 uppercase font-bold mb-3">Removed Fields</p>
+          <p className="text-sm font-mono">{removedFields.length > 0 ? removedFields.join(', ') : 'None'}</p>
+          <p className="text-xs text-slate-500 mt-2">The other editable fields were kept; everything else was stripped.</p>
+        </div>
+      )}
+
+      {stripReport && (
+        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700">
+          <p className="text-xs text-slate-500 uppercase font-bold mb-3">Removed Segments</p>
+          {stripReport.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">
+              {isVideo ? 'No location or device atoms found.' : 'No metadata segments found, image was re-encoded.'}
+            </p>
+          ) : (
+            <ul className="text-sm font-mono space-y-1">
+              {stripReport.map((segment, i) => (
+                <li key={i} className="flex justify-between">
+                  <span>{segment.label} <span className="text-slate-400">({segment.kind})</span></span>
+                  <span className="text-slate-500">{segment.size.toLocaleString()} B</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 
   return (
     <div className="min-h-screen pb-12 selection:bg-brand-200 selection:text-brand-900">
       {showCamera && <CameraCapture onCapture={handleImageSelect} onClose={() => setShowCamera(false)} />}
+      {showSettings && (
+        <SettingsPanel settings={providerSettings} profiles={profiles} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />
+      )}
+      {showHistory && <HistoryPanel onOpen={handleOpenFromHistory} onClose={() => setShowHistory(false)} />}
       
       {/* Header */}
       <header className="px-6 py-5 flex justify-between items-center sticky top-0 z-10 bg-slate-50/80 dark:bg-slate-950/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-800">
@@ -282,17 +1347,84 @@ function App() {
           <div className="w-8 h-8 bg-brand-600 rounded-lg flex items-center justify-center text-white font-bold text-lg">AI</div>
           <h1 className="font-bold text-xl tracking-tight hidden sm:block">Metadata Extractor</h1>
         </div>
-        <button 
-          onClick={() => setIsDarkMode(!isDarkMode)} 
-          className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-800 transition-colors"
-        >
-          {isDarkMode ? '☀️' : '🌙'}
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowHistory(true)}
+            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-800 transition-colors"
+            title="History"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-800 transition-colors"
+            title="Analysis settings"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </button>
+          <button 
+            onClick={() => setIsDarkMode(!isDarkMode)} 
+            className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-800 transition-colors"
+          >
+            {isDarkMode ? '☀️' : '🌙'}
+          </button>
+        </div>
       </header>
 
       <main className="container mx-auto max-w-lg px-4 pt-6">
         
-        {!data ? (
+        <input
+          id="file-input"
+          type="file"
+          accept={['image/*', ...VIDEO_MIME_TYPES, ...EXTRA_IMAGE_EXTENSIONS, ...VIDEO_EXTENSIONS].join(',')}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) handleImagesSelect(Array.from(e.target.files).filter(isSupportedImage));
+            e.target.value = '';
+          }}
+        />
+        <input
+          id="folder-input"
+          type="file"
+          // webkitdirectory is non-standard and missing from React's typings
+          {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) handleImagesSelect(Array.from(e.target.files).filter(isSupportedImage));
+            e.target.value = '';
+          }}
+        />
+
+        {!data && compared.length > 1 ? (
+          // --- COMPARE STATE ---
+          <CompareView images={compared} onOpen={setSelectedId} onClose={() => setCompareIds(null)} />
+        ) : !data && images.length > 0 ? (
+          // --- BATCH STATE ---
+          <div onDragOver={handleDragOver} onDrop={handleDrop}>
+            <BatchGallery
+              images={images}
+              onOpen={setSelectedId}
+              onRetry={handleRetry}
+              onRetryFailed={handleRetryFailed}
+              onRemove={handleRemove}
+              onOpenHistory={handleOpenFromHistory}
+              onAddFiles={() => document.getElementById('file-input')?.click()}
+              onClear={handleClear}
+              onExport={(format) => handleExport(images, format)}
+              isExporting={isExporting}
+              profiles={profiles}
+              profileId={batchProfileId}
+              onProfileChange={handleBatchProfileChange}
+              onCompare={setCompareIds}
+            />
+          </div>
+        ) : !data ? (
           // --- UPLOAD STATE ---
           <div className="flex flex-col items-center justify-center min-h-[60vh] space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
             <div 
@@ -301,22 +1433,32 @@ function App() {
               onDrop={handleDrop}
               onClick={() => document.getElementById('file-input')?.click()}
             >
-              <input 
-                id="file-input"
-                type="file" 
-                accept="image/*" 
-                className="hidden" 
-                onChange={(e) => e.target.files && handleImageSelect(e.target.files[0])}
-              />
               <div className="w-16 h-16 bg-brand-50 dark:bg-slate-800 rounded-full flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
                 <svg className="w-8 h-8 text-brand-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                 </svg>
               </div>
-              <p className="text-lg font-medium text-slate-700 dark:text-slate-300">Select Image</p>
-              <p className="text-sm text-slate-400">or drag and drop</p>
+              <p className="text-lg font-medium text-slate-700 dark:text-slate-300">Select Images</p>
+              <p className="text-sm text-slate-400">or drag and drop files or folders</p>
+              <button
+                onClick={(e) => { e.stopPropagation(); document.getElementById('folder-input')?.click(); }}
+                className="mt-3 text-xs font-bold text-brand-600 hover:underline"
+              >
+                Choose a folder
+              </button>
             </div>
 
+            <label className="flex items-center gap-2 text-sm">
+              <span className="text-slate-500">Analyze with profile</span>
+              <select
+                value={batchProfileId}
+                onChange={(e) => handleBatchProfileChange(e.target.value)}
+                className="bg-white dark:bg-slate-900 rounded-lg px-2 py-1 text-sm border border-slate-200 dark:border-slate-700"
+              >
+                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+              </select>
+            </label>
+
             <div className="w-full flex items-center gap-4">
                <div className="h-px bg-slate-200 dark:bg-slate-800 flex-1"></div>
                <span className="text-slate-400 text-sm">OR</span>
@@ -340,22 +1482,53 @@ function App() {
             {/* Image Card */}
             <div className="relative rounded-2xl overflow-hidden shadow-lg bg-black group">
               <img src={data.previewUrl} alt="Preview" className="w-full h-64 object-contain bg-slate-900" />
+              {showElaOverlay && data.forensics?.elaHeatmapUrl && (
+                <img
+                  src={data.forensics.elaHeatmapUrl}
+                  alt="ELA heatmap"
+                  className="absolute inset-0 w-full h-64 object-contain mix-blend-screen opacity-80 pointer-events-none"
+                />
+              )}
               <button 
-                onClick={() => setData(null)}
+                onClick={handleClosePreview}
                 className="absolute top-4 left-4 p-2 bg-black/50 backdrop-blur-md rounded-full text-white hover:bg-black/70 transition-colors"
               >
                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                 </svg>
               </button>
+              {data.format && !['jpeg', 'png', 'webp', 'gif'].includes(data.format) && (
+                <span
+                  className="absolute top-4 right-4 px-2 py-1 rounded-md bg-black/50 backdrop-blur-md text-white text-xs font-bold"
+                  title={FORMAT_INFO[data.format].raw ? 'Showing the preview embedded in the RAW file' : undefined}
+                >
+                  {FORMAT_INFO[data.format].label}
+                </span>
+              )}
               {data.isProcessing && (
                 <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex flex-col items-center justify-center text-white">
                   <div className="w-10 h-10 border-4 border-brand-500 border-t-transparent rounded-full animate-spin mb-3"></div>
-                  <p className="font-medium animate-pulse">Analyzing with AI...</p>
+                  <p className="font-medium animate-pulse">
+                    {data.status === 'queued'
+                      ? 'Waiting in queue...'
+                      : data.stages.ai.status === 'retrying'
+                        ? `Retrying AI analysis (attempt ${data.stages.ai.attempts})...`
+                        : data.partialAnalysis
+                          ? 'Receiving analysis...'
+                          : 'Analyzing with AI...'}
+                  </p>
+                  <button
+                    onClick={() => handleCancel(data.id)}
+                    className="mt-4 px-4 py-2 rounded-lg text-sm font-bold bg-white/20 hover:bg-white/30 transition-colors"
+                  >
+                    Cancel
+                  </button>
                 </div>
               )}
             </div>
 
+            <ExportButtons onExport={(format) => handleExport([data], format)} disabled={isExporting} />
+
             {/* Navigation Tabs */}
             <div className="flex gap-1 p-1 bg-slate-200 dark:bg-slate-800 rounded-xl overflow-x-auto no-scrollbar">
               {Object.values(TabView).map((tab) => (
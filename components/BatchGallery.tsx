@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { AnalysisProfile, ExportFormat, HistoryEntry, ProcessedImage, ProcessingStatus } from '../types';
+import ExportButtons from './ExportButtons';
+import MapPanel from './MapPanel';
+import SimilarImagesPanel from './SimilarImagesPanel';
+import { toMapPoint } from '../services/basemapService';
+
+interface BatchGalleryProps {
+  images: ProcessedImage[];
+  onOpen: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOpenHistory: (entry: HistoryEntry) => void;
+  onRetryFailed: () => void;
+  onAddFiles: () => void;
+  onClear: () => void;
+  onExport: (format: ExportFormat) => void;
+  isExporting: boolean;
+  profiles: AnalysisProfile[];
+  profileId: string; // applied to every image of the batch
+  onProfileChange: (profileId: string) => void;
+  onCompare: (ids: string[]) => void;
+}
+
+const statusStyles: Record<ProcessingStatus, string> = {
+  queued: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200',
+  processing: 'bg-brand-100 text-brand-900',
+  done: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+const BatchGallery: React.FC<BatchGalleryProps> = ({ images, onOpen, onRetry, onRemove, onOpenHistory, onRetryFailed, onAddFiles, onClear, onExport, isExporting, profiles, profileId, onProfileChange, onCompare }) => {
+  const doneCount = images.filter(img => img.status === 'done').length;
+  const failedCount = images.filter(img => img.status === 'error').length;
+  const [showMap, setShowMap] = useState(false);
+  const [showSimilar, setShowSimilar] = useState(false);
+  // Ticked images, in the order they were ticked
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const toCompare = compareIds.filter(id => images.some(img => img.id === id));
+  const mapPoints = images.flatMap(img => toMapPoint(img.id, img.file.name, img.exif) ?? []);
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-bold text-lg">Batch</h2>
+          <p className="text-sm text-slate-500">
+            {doneCount} of {images.length} analyzed{failedCount > 0 && `, ${failedCount} failed`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={profileId}
+            onChange={(e) => onProfileChange(e.target.value)}
+            title="Analysis profile for the whole batch"
+            className="px-2 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 border-0"
+          >
+            {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+          </select>
+          {mapPoints.length > 0 && (
+            <button
+              onClick={() => setShowMap(!showMap)}
+              className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+            >
+              {showMap ? 'Hide Map' : `Map (${mapPoints.length})`}
+            </button>
+          )}
+          {toCompare.length > 1 && (
+            <button
+              onClick={() => onCompare(toCompare)}
+              className="px-3 py-2 rounded-lg text-xs font-bold bg-brand-100 text-brand-900 hover:bg-brand-200 transition-colors"
+            >
+              Compare ({toCompare.length})
+            </button>
+          )}
+          <button
+            onClick={() => setShowSimilar(!showSimilar)}
+            className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+          >
+            {showSimilar ? 'Hide Similar' : 'Similar'}
+          </button>
+          {failedCount > 0 && (
+            <button
+              onClick={onRetryFailed}
+              className="px-3 py-2 rounded-lg text-xs font-bold bg-red-100 text-red-800 hover:bg-red-200 transition-colors"
+            >
+              Retry Failed
+            </button>
+          )}
+          <button
+            onClick={onAddFiles}
+            className="px-3 py-2 rounded-lg text-xs font-bold bg-brand-600 text-white hover:bg-brand-700 transition-colors"
+          >
+            Add Files
+          </button>
+          <button
+            onClick={onClear}
+            className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <ExportButtons onExport={onExport} disabled={isExporting || images.some(img => img.isProcessing)} />
+
+      {showMap && mapPoints.length > 0 && <MapPanel points={mapPoints} onSelect={onOpen} />}
+
+      {showSimilar && <SimilarImagesPanel images={images} onOpen={onOpen} onOpenHistory={onOpenHistory} />}
+
+      <ul className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700">
+        {images.map(img => (
+          <li key={img.id} className="flex items-center gap-3 p-3">
+            <input
+              type="checkbox"
+              checked={toCompare.includes(img.id)}
+              onChange={(e) => setCompareIds(e.target.checked ? [...toCompare, img.id] : toCompare.filter(id => id !== img.id))}
+              title="Select to compare"
+              className="shrink-0"
+            />
+            <button onClick={() => onOpen(img.id)} className="shrink-0">
+              <img src={img.previewUrl} alt={img.file.name} className="w-14 h-14 rounded-lg object-cover bg-slate-900" />
+            </button>
+            <button onClick={() => onOpen(img.id)} className="flex-1 min-w-0 text-left">
+              <p className="font-medium truncate">{img.file.name}</p>
+              <div className="flex items-center gap-2 mt-1">
+                <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${statusStyles[img.status]}`}>
+                  {img.status}
+                </span>
+                {img.cache?.hit && (
+                  <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-green-100 text-green-800">Cached</span>
+                )}
+                {img.similarAnalysis && (
+                  <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-brand-100 text-brand-900">Similar found</span>
+                )}
+                {img.aiAnalysis && (
+                  <span className="text-xs text-slate-500 truncate">
+                    {img.aiAnalysis.imageCategory} · {img.aiAnalysis.sceneType}
+                  </span>
+                )}
+                {img.error && <span className="text-xs text-red-600 truncate">{img.error}</span>}
+              </div>
+              <div className="w-full bg-slate-200 rounded-full h-1.5 mt-2 dark:bg-slate-700">
+                <div
+                  className={`h-1.5 rounded-full transition-all ${img.status === 'error' ? 'bg-red-500' : 'bg-brand-500'}`}
+                  style={{ width: `${img.progress}%` }}
+                ></div>
+              </div>
+            </button>
+            {img.status === 'error' && (
+              <button
+                onClick={() => onRetry(img.id)}
+                className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                title="Retry"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={() => onRemove(img.id)}
+              className="p-2 rounded-full text-slate-400 hover:text-slate-700 hover:bg-slate-100 dark:hover:text-slate-200 dark:hover:bg-slate-700 transition-colors"
+              title={img.isProcessing ? 'Cancel and remove' : 'Remove'}
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchGallery;
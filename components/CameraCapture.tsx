@@ -1,4 +1,5 @@
 import React, { useRef, useState, useEffect } from 'react';
+import { runInWorker } from '../services/workerPool';
 
 interface CameraCaptureProps {
   onCapture: (file: File) => void;
@@ -35,21 +36,21 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
     };
   }, []);
 
-  const handleCapture = () => {
+  const handleCapture = async () => {
     if (videoRef.current) {
-      const canvas = document.createElement('canvas');
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(videoRef.current, 0, 0);
-        canvas.toBlob((blob) => {
-          if (blob) {
-            const file = new File([blob], `capture_${Date.now()}.jpg`, { type: 'image/jpeg' });
-            onCapture(file);
-            stopCamera();
-          }
-        }, 'image/jpeg', 0.95);
+      try {
+        // The frame is grabbed here; scaling and JPEG encoding happen in the image worker
+        const bitmap = await createImageBitmap(videoRef.current);
+        const blob = await runInWorker(
+          { type: 'render', source: bitmap, maxEdge: Infinity, mimeType: 'image/jpeg', quality: 0.95 },
+          { transfer: [bitmap] }
+        );
+        const file = new File([blob], `capture_${Date.now()}.jpg`, { type: 'image/jpeg' });
+        onCapture(file);
+        stopCamera();
+      } catch (err) {
+        setError("Could not capture photo.");
+        console.error("Capture error:", err);
       }
     }
   };
@@ -0,0 +1,64 @@
+import React from 'react';
+import { CaptureTimeline as Timeline } from '../services/compareService';
+import { describeDelta } from '../services/timestampService';
+
+interface CaptureTimelineProps {
+  timeline: Timeline;
+  names: string[]; // one per compared image
+}
+
+const CaptureTimeline: React.FC<CaptureTimelineProps> = ({ timeline, names }) => {
+  const { entries, missing, spanMs, approximate } = timeline;
+  const start = entries[0]?.instant.ms ?? 0;
+  // Entries taken at the same moment share the middle of the axis
+  const position = (ms: number) => (spanMs > 0 ? ((ms - start) / spanMs) * 100 : 50);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 space-y-3">
+      <div>
+        <p className="text-xs text-slate-500 uppercase font-bold tracking-wider">Capture Times</p>
+        <p className="text-xs text-slate-400">
+          {entries.length > 1 ? `Taken over ${describeDelta(spanMs)}.` : entries.length === 1 ? 'Only one image has a capture time.' : 'No image has a capture time.'}
+          {approximate && ' Some times have no UTC offset, so the order may be off by up to a timezone.'}
+        </p>
+      </div>
+
+      {entries.length > 0 && (
+        <>
+          <div className="relative h-6 mx-2">
+            <div className="absolute left-0 right-0 top-1/2 h-0.5 bg-slate-200 dark:bg-slate-700" />
+            {entries.map(entry => (
+              <span
+                key={entry.index}
+                title={`${names[entry.index]}: ${entry.time}`}
+                style={{ left: `${position(entry.instant.ms)}%` }}
+                className="absolute top-1/2 -ml-2 -mt-2 w-4 h-4 rounded-full bg-brand-500 ring-2 ring-white dark:ring-slate-800 flex items-center justify-center text-[9px] font-bold text-white"
+              >
+                {entry.index + 1}
+              </span>
+            ))}
+          </div>
+
+          <ol className="text-xs space-y-1">
+            {entries.map(entry => (
+              <li key={entry.index} className="flex items-baseline gap-2">
+                <span className="w-4 text-right font-bold text-brand-600">{entry.index + 1}</span>
+                <span className="font-mono">{entry.time}</span>
+                <span className="truncate text-slate-500">{names[entry.index]}</span>
+                {entry.gap && <span className="ml-auto shrink-0 text-slate-400">+{entry.gap}</span>}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {missing.length > 0 && (
+        <p className="text-xs text-slate-400">
+          No capture time: {missing.map(index => `${index + 1}. ${names[index]}`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CaptureTimeline;
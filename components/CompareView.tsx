@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { ExifData, ProcessedImage } from '../types';
+import { alignExif, buildCaptureTimeline, compareFindings } from '../services/compareService';
+import CaptureTimeline from './CaptureTimeline';
+import SyncedImageViewer from './SyncedImageViewer';
+
+interface CompareViewProps {
+  images: ProcessedImage[];
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}
+
+const cardClass = "bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700";
+
+const formatValue = (value: ExifData[keyof ExifData]) =>
+  value === undefined ? <span className="text-slate-400 italic">missing</span> : String(value);
+
+const CompareView: React.FC<CompareViewProps> = ({ images, onOpen, onClose }) => {
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const names = images.map((img, i) => `${i + 1}. ${img.file.name}`);
+  const exifRows = useMemo(() => alignExif(images.map(img => img.exif)), [images]);
+  const findings = useMemo(() => compareFindings(images.map(img => img.aiAnalysis)), [images]);
+  const timeline = useMemo(() => buildCaptureTimeline(images.map(img => img.exif)), [images]);
+  const differing = exifRows.filter(row => row.differs).length;
+  const pending = images.filter(img => img.isProcessing).length;
+
+  return (
+    <div className="space-y-4 animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-bold text-lg">Compare</h2>
+          <p className="text-sm text-slate-500">
+            {images.length} images{pending > 0 && `, ${pending} still being analyzed`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+        >
+          Back to Batch
+        </button>
+      </div>
+
+      <SyncedImageViewer panes={images.map((img, i) => ({ id: img.id, name: names[i], url: img.previewUrl }))} />
+
+      <CaptureTimeline timeline={timeline} names={names} />
+
+      <div className={`${cardClass} space-y-3`}>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-xs text-slate-500 uppercase font-bold tracking-wider">EXIF</p>
+            <p className="text-xs text-slate-400">
+              {exifRows.length === 0
+                ? 'None of the images has EXIF data.'
+                : differing === 0 ? 'All fields match.' : `${differing} of ${exifRows.length} fields differ.`}
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm shrink-0">
+            <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+            Only differences
+          </label>
+        </div>
+        {exifRows.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 pr-3 font-bold">Field</th>
+                  {images.map((img, i) => (
+                    <th key={img.id} className="py-1 pr-3 font-bold">
+                      <button onClick={() => onOpen(img.id)} className="truncate max-w-[8rem] hover:underline" title={img.file.name}>
+                        {names[i]}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                {exifRows.filter(row => row.differs || !onlyDifferences).map(({ field, values, differs }) => (
+                  <tr key={field} className={differs ? 'bg-amber-50 dark:bg-amber-900/20' : ''}>
+                    <td className="py-1 pr-3 font-mono text-slate-500">{field}</td>
+                    {values.map((value, i) => (
+                      // Values that differ from the first image stand out
+                      <td key={images[i].id} className={`py-1 pr-3 font-mono break-all ${differs && value !== values[0] ? 'font-bold text-amber-800 dark:text-amber-200' : ''}`}>
+                        {formatValue(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className={`${cardClass} space-y-4`}>
+        <p className="text-xs text-slate-500 uppercase font-bold tracking-wider">AI Findings</p>
+
+        <div>
+          <p className="text-xs text-slate-500 mb-1">
+            Scene {findings.sameScene ? <span className="text-green-600 font-bold">· same in all images</span> : <span className="text-amber-600 font-bold">· differs</span>}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {findings.sceneTypes.map((scene, i) => (
+              <span key={images[i].id} className="px-3 py-1 bg-brand-100 text-brand-900 rounded-full text-sm font-medium">
+                {i + 1}: {scene ?? <span className="italic font-normal">not analyzed</span>}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs text-slate-500 mb-1">Objects</p>
+          {findings.objects.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">No objects detected.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                {findings.objects.map(({ label, presentIn }) => (
+                  <tr key={label}>
+                    <td className="py-1 pr-3">{label}</td>
+                    {presentIn.map((present, i) => (
+                      <td key={images[i].id} className="py-1 w-8 text-center">
+                        <span
+                          title={`${present ? 'In' : 'Not in'} ${names[i]}`}
+                          className={`inline-flex w-5 h-5 rounded-full items-center justify-center text-[10px] font-bold ${present ? 'bg-brand-500 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-400'}`}
+                        >
+                          {i + 1}
+                        </span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs text-slate-500 mb-1">Dominant Colors</p>
+          <div className="space-y-2">
+            {findings.colors.map((colors, i) => (
+              <div key={images[i].id} className="flex items-center gap-2">
+                <span className="w-4 text-right text-xs font-bold text-brand-600">{i + 1}</span>
+                {colors.length === 0 ? (
+                  <span className="text-xs text-slate-400 italic">not analyzed</span>
+                ) : colors.map((color, j) => (
+                  <div key={j} title={color} className="w-7 h-7 rounded-full shadow-inner border border-slate-100" style={{ backgroundColor: color }} />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
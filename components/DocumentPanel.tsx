@@ -0,0 +1,230 @@
+import React, { useRef } from 'react';
+import { DocumentEntity, DocumentEntityKind, DocumentExtraction, DocumentResult, DocumentTable, PagePoint } from '../types';
+import { DOCUMENT_ENTITY_KINDS } from '../services/analysisPrompt';
+import { normalizeEntityText } from '../services/analysisValidator';
+import PageCornerEditor from './PageCornerEditor';
+import StageErrorCard from './StageErrorCard';
+
+interface DocumentPanelProps {
+  result: DocumentResult | null; // null while the page is scanned and read
+  previewUrl: string;
+  onChange: (extraction: DocumentExtraction) => void;
+  onCommit: () => void; // an edit is finished and can be saved
+  onRescan?: (corners?: PagePoint[]) => void; // undefined when the original is not at hand
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const cellClass = "w-full bg-transparent px-1 py-0.5 text-sm rounded border border-transparent hover:border-slate-200 dark:hover:border-slate-600 focus:border-brand-500 focus:outline-none";
+const cardClass = "bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700";
+const addClass = "mt-2 text-xs font-bold text-brand-600 hover:underline";
+const removeClass = "text-xs text-red-600 hover:underline";
+
+const DocumentPanel: React.FC<DocumentPanelProps> = ({ result, previewUrl, onChange, onCommit, onRescan, onExport }) => {
+  // Edits are committed when focus leaves the panel, not on every keystroke
+  const dirty = useRef(false);
+
+  if (!result) {
+    return <div className="text-center p-8 animate-pulse text-slate-400">Reading the document...</div>;
+  }
+
+  const { extraction, issues, error, scan } = result;
+  const update = (patch: Partial<DocumentExtraction>) => {
+    if (!extraction) return;
+    dirty.current = true;
+    onChange({ ...extraction, ...patch });
+  };
+
+  const handleBlur = () => {
+    if (!dirty.current) return;
+    dirty.current = false;
+    onCommit();
+  };
+
+  const updateTable = (index: number, patch: Partial<DocumentTable>) => {
+    update({ tables: extraction!.tables.map((table, i) => (i === index ? { ...table, ...patch } : table)) });
+  };
+
+  // The normalized form follows the text, so sums and comparisons stay right after a correction
+  const updateEntity = (index: number, patch: Partial<DocumentEntity>) => {
+    update({
+      entities: extraction!.entities.map((entity, i) => {
+        if (i !== index) return entity;
+        const next = { ...entity, ...patch };
+        return { ...next, normalized: normalizeEntityText(next.kind, next.text) ?? undefined };
+      }),
+    });
+  };
+
+  return (
+    <div className="space-y-4" onBlur={handleBlur}>
+      {onRescan && <PageCornerEditor previewUrl={previewUrl} scanUrl={scan.url} corners={scan.corners} onApply={onRescan} />}
+
+      {error && onRescan && (
+        <StageErrorCard title="Document Extraction Failed" error={error} onRetry={() => onRescan(scan.corners ?? undefined)} />
+      )}
+
+      {extraction && (
+        <>
+          <div className={`${cardClass} flex flex-wrap items-center gap-2`}>
+            <span className="text-xs text-slate-500 uppercase font-bold">Document</span>
+            <input
+              value={extraction.documentType}
+              onChange={(e) => update({ documentType: e.target.value })}
+              className={`${cellClass} flex-1 min-w-[8rem] font-medium`}
+            />
+            {(['csv', 'json'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                className="px-2 py-1 rounded-md text-xs font-bold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+              >
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
+          {issues.length > 0 && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-4 rounded-xl">
+              <p className="font-bold text-amber-900 dark:text-amber-100 mb-1">Response Adjusted</p>
+              <ul className="text-xs font-mono text-amber-800 dark:text-amber-200 space-y-0.5">
+                {issues.map((issue, i) => (
+                  <li key={i}>{issue.path}: {issue.problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className={cardClass}>
+            <p className="text-xs text-slate-500 uppercase font-bold mb-2">Fields</p>
+            <table className="w-full">
+              <tbody>
+                {extraction.keyValues.map((pair, i) => (
+                  <tr key={i} className="border-b border-slate-100 dark:border-slate-700">
+                    <td className="w-1/3">
+                      <input
+                        value={pair.key}
+                        onChange={(e) => update({ keyValues: extraction.keyValues.map((p, j) => (j === i ? { ...p, key: e.target.value } : p)) })}
+                        className={`${cellClass} text-slate-500`}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        value={pair.value}
+                        onChange={(e) => update({ keyValues: extraction.keyValues.map((p, j) => (j === i ? { ...p, value: e.target.value } : p)) })}
+                        className={cellClass}
+                      />
+                    </td>
+                    <td className="w-16 text-right">
+                      <button onClick={() => update({ keyValues: extraction.keyValues.filter((_, j) => j !== i) })} className={removeClass}>
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button onClick={() => update({ keyValues: [...extraction.keyValues, { key: '', value: '' }] })} className={addClass}>
+              + Add Field
+            </button>
+          </div>
+
+          {extraction.tables.map((table, t) => (
+            <div key={t} className={cardClass}>
+              <div className="flex items-center gap-2 mb-2">
+                <input
+                  value={table.title}
+                  onChange={(e) => updateTable(t, { title: e.target.value })}
+                  placeholder="Table"
+                  className={`${cellClass} text-xs uppercase font-bold text-slate-500`}
+                />
+                <button onClick={() => update({ tables: extraction.tables.filter((_, i) => i !== t) })} className={`${removeClass} shrink-0`}>
+                  Remove Table
+                </button>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-slate-200 dark:border-slate-600">
+                      {table.headers.map((header, c) => (
+                        <th key={c}>
+                          <input
+                            value={header}
+                            onChange={(e) => updateTable(t, { headers: table.headers.map((h, i) => (i === c ? e.target.value : h)) })}
+                            className={`${cellClass} font-bold min-w-[5rem]`}
+                          />
+                        </th>
+                      ))}
+                      <th className="w-16" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.map((row, r) => (
+                      <tr key={r} className="border-b border-slate-100 dark:border-slate-700">
+                        {row.map((cell, c) => (
+                          <td key={c}>
+                            <input
+                              value={cell}
+                              onChange={(e) => updateTable(t, {
+                                rows: table.rows.map((cells, i) => (i === r ? cells.map((value, j) => (j === c ? e.target.value : value)) : cells)),
+                              })}
+                              className={`${cellClass} min-w-[5rem]`}
+                            />
+                          </td>
+                        ))}
+                        <td className="text-right">
+                          <button onClick={() => updateTable(t, { rows: table.rows.filter((_, i) => i !== r) })} className={removeClass}>
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <button onClick={() => updateTable(t, { rows: [...table.rows, table.headers.map(() => '')] })} className={addClass}>
+                + Add Row
+              </button>
+            </div>
+          ))}
+
+          <div className={cardClass}>
+            <p className="text-xs text-slate-500 uppercase font-bold mb-2">Entities</p>
+            <table className="w-full">
+              <tbody>
+                {extraction.entities.map((entity, i) => (
+                  <tr key={i} className="border-b border-slate-100 dark:border-slate-700">
+                    <td className="w-32">
+                      <select
+                        value={entity.kind}
+                        onChange={(e) => updateEntity(i, { kind: e.target.value as DocumentEntityKind })}
+                        className="bg-slate-100 dark:bg-slate-700 rounded px-2 py-1 text-xs border border-slate-200 dark:border-slate-600"
+                      >
+                        {DOCUMENT_ENTITY_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+                      </select>
+                    </td>
+                    <td>
+                      <input value={entity.text} onChange={(e) => updateEntity(i, { text: e.target.value })} className={cellClass} />
+                    </td>
+                    <td className="text-xs font-mono text-slate-500 px-2">
+                      {entity.normalized !== entity.text && entity.normalized}
+                    </td>
+                    <td className="w-16 text-right">
+                      <button onClick={() => update({ entities: extraction.entities.filter((_, j) => j !== i) })} className={removeClass}>
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button onClick={() => update({ entities: [...extraction.entities, { kind: 'other', text: '' }] })} className={addClass}>
+              + Add Entity
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DocumentPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { ExportFormat } from '../types';
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ onExport, disabled }) => (
+  <div className="flex items-center gap-1">
+    <span className="text-xs text-slate-500 uppercase font-bold mr-1">Export</span>
+    {FORMATS.map(({ format, label }) => (
+      <button
+        key={format}
+        onClick={() => onExport(format)}
+        disabled={disabled}
+        className="px-2 py-1 rounded-md text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ExportButtons;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ForensicsReport, ForensicVerdict } from '../types';
+
+interface ForensicsPanelProps {
+  report: ForensicsReport | null | undefined;
+  showOverlay: boolean;
+  onToggleOverlay: () => void;
+}
+
+const verdictStyles: Record<ForensicVerdict, string> = {
+  pass: 'bg-green-200 text-green-800',
+  warn: 'bg-amber-200 text-amber-800',
+  fail: 'bg-red-200 text-red-800',
+  info: 'bg-slate-200 text-slate-700',
+};
+
+const GhostChart: React.FC<{ curve: { quality: number; error: number }[] }> = ({ curve }) => {
+  const max = Math.max(...curve.map(p => p.error)) || 1;
+  const points = curve
+    .map((p, i) => `${(i / (curve.length - 1)) * 100},${40 - (p.error / max) * 36}`)
+    .join(' ');
+  return (
+    <div>
+      <svg viewBox="0 0 100 40" className="w-full h-16" preserveAspectRatio="none">
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1} className="text-brand-500" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-slate-400">
+        <span>q{curve[0].quality}</span>
+        <span>q{curve[curve.length - 1].quality}</span>
+      </div>
+    </div>
+  );
+};
+
+const ForensicsPanel: React.FC<ForensicsPanelProps> = ({ report, showOverlay, onToggleOverlay }) => {
+  if (!report) {
+    return (
+      <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 animate-pulse text-slate-400 text-sm">
+        Running local forensic checks...
+      </div>
+    );
+  }
+
+  const { quantization, ghostCurve, elaHeatmapUrl, elaMeanError, checks } = report;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-lg">Local Forensics</span>
+        <span className="text-xs text-slate-500">Deterministic, offline</span>
+      </div>
+
+      <ul className="space-y-2">
+        {checks.map(check => (
+          <li key={check.id} className="text-sm">
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${verdictStyles[check.verdict]}`}>
+                {check.verdict}
+              </span>
+              <span className="font-medium">{check.label}</span>
+            </div>
+            <p className="text-slate-500 dark:text-slate-400 mt-0.5">{check.detail}</p>
+          </li>
+        ))}
+      </ul>
+
+      {quantization && (
+        <div className="text-sm">
+          <p className="text-xs text-slate-500 uppercase font-bold mb-1">Quantization Tables</p>
+          <p className="font-mono text-xs">
+            {quantization.tables.length} table(s) · quality ~{quantization.estimatedQuality} ·{' '}
+            {quantization.isStandard ? 'standard libjpeg' : 'custom'} · {quantization.fingerprint}
+          </p>
+        </div>
+      )}
+
+      {ghostCurve && (
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-bold mb-1">JPEG Ghost Curve</p>
+          <GhostChart curve={ghostCurve} />
+        </div>
+      )}
+
+      {elaHeatmapUrl && (
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs text-slate-500 uppercase font-bold">Error Level Analysis</p>
+            <p className="text-xs font-mono">mean error {elaMeanError?.toFixed(2)}</p>
+          </div>
+          <button
+            onClick={onToggleOverlay}
+            className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+          >
+            {showOverlay ? 'Hide Overlay' : 'Show ELA Overlay'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForensicsPanel;
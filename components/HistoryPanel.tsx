@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AIAnalysisResult, HistoryEntry, HistoryQuery } from '../types';
+import MapPanel from './MapPanel';
+import { toMapPoint } from '../services/basemapService';
+import { clearHistory, deleteFromHistory, filterHistory, loadHistory } from '../services/historyService';
+
+interface HistoryPanelProps {
+  onOpen: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-700";
+
+const CATEGORIES: AIAnalysisResult['imageCategory'][] = ['Selfie', 'Document', 'Screenshot', 'Photo', 'Other'];
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onOpen, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // A failed delete keeps the list usable, unlike a failed load
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [query, setQuery] = useState<HistoryQuery>({});
+  const [showMap, setShowMap] = useState(false);
+
+  useEffect(() => {
+    loadHistory()
+      .then(setEntries)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const thumbnails = useMemo(
+    () => new Map((entries ?? []).map(entry => [entry.id, URL.createObjectURL(entry.thumbnail)])),
+    [entries]
+  );
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const results = useMemo(() => filterHistory(entries ?? [], query), [entries, query]);
+  const mapPoints = useMemo(() => results.flatMap(entry => toMapPoint(entry.id, entry.fileName, entry.exif) ?? []), [results]);
+
+  const setField = (field: keyof HistoryQuery, value: string) => {
+    setQuery(prev => ({ ...prev, [field]: value || undefined }));
+  };
+
+  const handleDelete = async (id: string) => {
+    setActionError(null);
+    try {
+      await deleteFromHistory(id);
+      setEntries(prev => prev?.filter(entry => entry.id !== id) ?? null);
+    } catch (err) {
+      setActionError(`Could not delete the entry: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm('Delete all saved analyses from this browser?')) return;
+    setActionError(null);
+    try {
+      await clearHistory();
+      setEntries([]);
+    } catch (err) {
+      setActionError(`Could not clear the history: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-xl p-6 gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-bold text-lg">History</h2>
+          <div className="flex gap-2">
+            {mapPoints.length > 0 && (
+              <button onClick={() => setShowMap(!showMap)} className="px-3 py-1.5 rounded-lg text-sm font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700">
+                {showMap ? 'Hide Map' : `Map (${mapPoints.length})`}
+              </button>
+            )}
+            {entries && entries.length > 0 && (
+              <button onClick={handleClearAll} className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20">
+                Clear All
+              </button>
+            )}
+            <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-sm font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700">
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          <input
+            value={query.text ?? ''}
+            onChange={(e) => setField('text', e.target.value)}
+            placeholder="Search everything…"
+            className={`${inputClass} col-span-2 md:col-span-3`}
+          />
+          <input value={query.cameraModel ?? ''} onChange={(e) => setField('cameraModel', e.target.value)} placeholder="Camera" className={inputClass} />
+          <input value={query.sceneType ?? ''} onChange={(e) => setField('sceneType', e.target.value)} placeholder="Scene" className={inputClass} />
+          <input value={query.object ?? ''} onChange={(e) => setField('object', e.target.value)} placeholder="Object" className={inputClass} />
+          <select value={query.imageCategory ?? ''} onChange={(e) => setField('imageCategory', e.target.value)} className={inputClass}>
+            <option value="">Any category</option>
+            {CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            From
+            <input type="date" value={query.dateFrom ?? ''} onChange={(e) => setField('dateFrom', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            To
+            <input type="date" value={query.dateTo ?? ''} onChange={(e) => setField('dateTo', e.target.value)} className={inputClass} />
+          </label>
+        </div>
+
+        {showMap && mapPoints.length > 0 && (
+          <MapPanel
+            points={mapPoints}
+            onSelect={(id) => {
+              const entry = results.find(e => e.id === id);
+              if (entry) onOpen(entry);
+            }}
+          />
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {error && <p className="text-sm text-red-600">Could not open history: {error}</p>}
+          {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+          {!error && entries === null && <p className="text-sm text-slate-500">Loading…</p>}
+          {entries !== null && results.length === 0 && (
+            <p className="text-sm text-slate-500">{entries.length === 0 ? 'No analyses saved yet.' : 'No entries match these filters.'}</p>
+          )}
+          {results.map(entry => (
+            <div key={entry.id} className="flex items-center gap-3 p-2 rounded-xl border border-slate-200 dark:border-slate-800">
+              <img src={thumbnails.get(entry.id)} alt={entry.fileName} className="w-16 h-16 object-cover rounded-lg bg-slate-100 dark:bg-slate-800" />
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-sm truncate">{entry.fileName}</p>
+                <p className="text-xs text-slate-500 truncate">
+                  {entry.aiAnalysis.imageCategory} · {entry.aiAnalysis.sceneType}
+                  {entry.exif?.model && ` · ${entry.exif.model}`}
+                </p>
+                <p className="text-xs text-slate-400">Analyzed {new Date(entry.analyzedAt).toLocaleString()}</p>
+              </div>
+              <button
+                onClick={() => onOpen(entry)}
+                className="px-3 py-1.5 rounded-lg text-sm font-bold bg-brand-600 hover:bg-brand-700 text-white"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => handleDelete(entry.id)}
+                className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MapPoint } from '../types';
+import { Basemap, loadBasemap, project } from '../services/basemapService';
+
+interface MapPanelProps {
+  points: MapPoint[];
+  selectedId?: string;
+  onSelect?: (id: string) => void;
+}
+
+interface View {
+  cx: number;
+  cy: number;
+  width: number; // in projected degrees; the map is always twice as wide as it is tall
+}
+
+const WORLD: View = { cx: 180, cy: 90, width: 360 };
+const MIN_WIDTH = 0.5;
+const HEADING_SPREAD = 20; // half-angle of the drawn field-of-view wedge, in degrees
+
+const fitView = (points: MapPoint[]): View => {
+  if (points.length === 0) return WORLD;
+  const xy = points.map(p => project(p.latitude, p.longitude));
+  const xs = xy.map(([x]) => x);
+  const ys = xy.map(([, y]) => y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const width = Math.min(360, Math.max(4, (maxX - minX) * 1.3, (maxY - minY) * 2.6));
+  return { cx: (minX + maxX) / 2, cy: (minY + maxY) / 2, width };
+};
+
+const MapPanel: React.FC<MapPanelProps> = ({ points, selectedId, onSelect }) => {
+  const [basemap, setBasemap] = useState<Basemap | null>(null);
+  const [view, setView] = useState<View>(() => fitView(points));
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number; view: View } | null>(null);
+
+  useEffect(() => {
+    loadBasemap().then(setBasemap).catch(err => console.error("Failed to load basemap", err));
+  }, []);
+
+  // Refit when the set of plotted images changes
+  const pointsKey = points.map(p => p.id).join(',');
+  useEffect(() => setView(fitView(points)), [pointsKey]);
+
+  const zoom = (factor: number) => {
+    setView(v => ({ ...v, width: Math.min(360, Math.max(MIN_WIDTH, v.width * factor)) }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    drag.current = { x: e.clientX, y: e.clientY, view };
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = drag.current;
+    const svg = svgRef.current;
+    if (!start || !svg) return;
+    const unitsPerPixel = start.view.width / svg.clientWidth;
+    setView({
+      ...start.view,
+      cx: start.view.cx - (e.clientX - start.x) * unitsPerPixel,
+      cy: start.view.cy - (e.clientY - start.y) * unitsPerPixel,
+    });
+  };
+
+  const height = view.width / 2;
+  const r = view.width / 120;
+
+  return (
+    <div className="relative rounded-xl overflow-hidden border border-slate-200 dark:border-slate-700 bg-sky-100 dark:bg-slate-900">
+      <svg
+        ref={svgRef}
+        viewBox={`${view.cx - view.width / 2} ${view.cy - height / 2} ${view.width} ${height}`}
+        className="w-full aspect-[2/1] cursor-grab active:cursor-grabbing touch-none select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { drag.current = null; }}
+        onPointerLeave={() => { drag.current = null; }}
+      >
+        {basemap && (
+          <>
+            <path d={basemap.land} className="fill-slate-200 dark:fill-slate-700" />
+            <path
+              d={basemap.borders}
+              fill="none"
+              vectorEffect="non-scaling-stroke"
+              className="stroke-slate-400 dark:stroke-slate-500"
+              strokeWidth={0.5}
+            />
+          </>
+        )}
+        {points.map(point => {
+          const [x, y] = project(point.latitude, point.longitude);
+          const selected = point.id === selectedId;
+          const color = selected ? 'fill-brand-600' : 'fill-red-500';
+          let wedge: string | null = null;
+          if (point.heading !== undefined) {
+            const length = r * 6;
+            const corner = (degrees: number) => {
+              const rad = (degrees * Math.PI) / 180;
+              return `${x + length * Math.sin(rad)} ${y - length * Math.cos(rad)}`;
+            };
+            wedge = `M${x} ${y}L${corner(point.heading - HEADING_SPREAD)}L${corner(point.heading + HEADING_SPREAD)}Z`;
+          }
+          return (
+            <g
+              key={point.id}
+              onClick={() => onSelect?.(point.id)}
+              onPointerDown={(e) => e.stopPropagation()}
+              className={onSelect ? 'cursor-pointer' : undefined}
+            >
+              <title>{point.label}{point.heading !== undefined ? ` · heading ${Math.round(point.heading)}°` : ''}</title>
+              {wedge && <path d={wedge} className={`${color} opacity-40`} />}
+              <circle
+                cx={x}
+                cy={y}
+                r={selected ? r * 1.5 : r}
+                className={`${color} stroke-white`}
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        {[
+          { label: '+', title: 'Zoom in', onClick: () => zoom(0.5) },
+          { label: '−', title: 'Zoom out', onClick: () => zoom(2) },
+          { label: '⤢', title: 'Fit to images', onClick: () => setView(fitView(points)) },
+        ].map(button => (
+          <button
+            key={button.title}
+            onClick={button.onClick}
+            title={button.title}
+            className="w-7 h-7 rounded-md bg-white/90 dark:bg-slate-800/90 shadow text-sm font-bold hover:bg-white dark:hover:bg-slate-700"
+          >
+            {button.label}
+          </button>
+        ))}
+      </div>
+      {!basemap && <p className="absolute inset-0 flex items-center justify-center text-xs text-slate-400 pointer-events-none">Loading map…</p>}
+      <p className="absolute bottom-1 right-2 text-[10px] text-slate-500 pointer-events-none">Natural Earth</p>
+    </div>
+  );
+};
+
+export default MapPanel;
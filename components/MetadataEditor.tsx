@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { ExifData, ExifEdits, FieldAction } from '../types';
+import { applyFieldEdits, diffExif, EDITABLE_FIELDS } from '../services/metadataEditor';
+
+interface MetadataEditorProps {
+  exif: ExifData;
+  onWrite: (result: ExifData) => void;
+  onCancel: () => void;
+}
+
+const formatLabel = (key: string) => key.replace(/([A-Z])/g, ' $1').trim();
+
+const changeStyles = {
+  unchanged: '',
+  changed: 'bg-amber-50 dark:bg-amber-900/20',
+  removed: 'bg-red-50 dark:bg-red-900/20',
+  added: 'bg-green-50 dark:bg-green-900/20',
+};
+
+const MetadataEditor: React.FC<MetadataEditorProps> = ({ exif, onWrite, onCancel }) => {
+  const [edits, setEdits] = useState<ExifEdits>({});
+  const fields = Object.keys(EDITABLE_FIELDS) as (keyof ExifData)[];
+
+  const { result, errors } = useMemo(() => applyFieldEdits(exif, edits), [exif, edits]);
+  const diff = useMemo(() => diffExif(exif, result), [exif, result]);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const setAction = (field: keyof ExifData, action: FieldAction) => {
+    setEdits(prev => ({
+      ...prev,
+      [field]: { action, value: prev[field]?.value ?? (exif[field] !== undefined ? String(exif[field]) : '') }
+    }));
+  };
+
+  const setValue = (field: keyof ExifData, value: string) => {
+    setEdits(prev => ({ ...prev, [field]: { action: 'edit', value } }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 dark:bg-slate-900 text-slate-500 font-medium">
+            <tr>
+              <th className="px-4 py-3">Property</th>
+              <th className="px-4 py-3">Action</th>
+              <th className="px-4 py-3">Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {fields.map(field => {
+              const edit = edits[field] ?? { action: 'keep' as FieldAction };
+              return (
+                <tr key={field}>
+                  <td className="px-4 py-3 font-medium capitalize text-slate-700 dark:text-slate-300">
+                    {formatLabel(field)}
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={edit.action}
+                      onChange={(e) => setAction(field, e.target.value as FieldAction)}
+                      className="bg-slate-100 dark:bg-slate-700 rounded px-2 py-1 text-xs"
+                    >
+                      <option value="keep">Keep</option>
+                      <option value="remove">Remove</option>
+                      <option value="edit">Edit</option>
+                      {EDITABLE_FIELDS[field]?.fuzzable && <option value="fuzz">Fuzz</option>}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-slate-600 dark:text-slate-400 font-mono">
+                    {edit.action === 'edit' ? (
+                      <input
+                        value={edit.value ?? ''}
+                        onChange={(e) => setValue(field, e.target.value)}
+                        className="w-full bg-slate-100 dark:bg-slate-700 rounded px-2 py-1 text-xs"
+                      />
+                    ) : (
+                      exif[field]?.toString() ?? <span className="text-slate-400 italic">—</span>
+                    )}
+                    {errors[field] && <p className="text-xs text-red-600 mt-1 font-sans">{errors[field]}</p>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <p className="text-xs text-slate-500 uppercase font-bold px-4 pt-4 pb-2">Before / After</p>
+        <table className="w-full text-sm text-left">
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {diff.map(row => (
+              <tr key={row.field} className={changeStyles[row.change]}>
+                <td className="px-4 py-2 font-medium capitalize text-slate-700 dark:text-slate-300">{formatLabel(row.field)}</td>
+                <td className="px-4 py-2 font-mono text-slate-500">{row.before?.toString() ?? '—'}</td>
+                <td className="px-4 py-2 font-mono">{row.after?.toString() ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-slate-400 px-4 py-3">
+          All other metadata (XMP, IPTC, comments) is removed when the new EXIF block is written.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 rounded-lg font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onWrite(result)}
+          disabled={hasErrors}
+          className="flex-1 py-3 rounded-lg font-bold bg-brand-600 hover:bg-brand-700 text-white transition-colors disabled:opacity-50"
+        >
+          Write & Download
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MetadataEditor;
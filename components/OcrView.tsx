@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { OcrBox, OcrResult } from '../types';
+
+interface OcrViewProps {
+  result: OcrResult;
+  previewUrl: string;
+  modelText?: string; // the analysis provider's reading, shown as a second opinion
+}
+
+const boxStyle = (box: OcrBox, result: OcrResult): React.CSSProperties => ({
+  left: `${(box.x0 / result.width) * 100}%`,
+  top: `${(box.y0 / result.height) * 100}%`,
+  width: `${((box.x1 - box.x0) / result.width) * 100}%`,
+  height: `${((box.y1 - box.y0) / result.height) * 100}%`,
+});
+
+const OcrView: React.FC<OcrViewProps> = ({ result, previewUrl, modelText }) => {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showModelText, setShowModelText] = useState(false);
+
+  const words = useMemo(
+    () => result.lines.flatMap((line, l) => line.words.map((word, w) => ({ ...word, key: `${l}:${w}` }))),
+    [result]
+  );
+  const needle = search.trim().toLowerCase();
+  const matches = new Set(needle ? words.filter(word => word.text.toLowerCase().includes(needle)).map(word => word.key) : []);
+
+  const toggleWord = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const selectedText = words.filter(word => selected.has(word.key)).map(word => word.text).join(' ');
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text).catch(() => alert("Could not access the clipboard."));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative rounded-xl overflow-hidden bg-slate-900">
+        <img src={previewUrl} alt="OCR source" className="w-full h-auto block" />
+        {words.map(word => (
+          <button
+            key={word.key}
+            onClick={() => toggleWord(word.key)}
+            title={`${word.text} (${Math.round(word.confidence)}%)`}
+            style={boxStyle(word.bbox, result)}
+            className={`absolute border transition-colors ${
+              selected.has(word.key)
+                ? 'border-brand-500 bg-brand-500/40'
+                : matches.has(word.key)
+                  ? 'border-amber-400 bg-amber-400/40'
+                  : word.confidence < 60
+                    ? 'border-red-400/70 hover:bg-red-400/20'
+                    : 'border-green-400/70 hover:bg-green-400/20'
+            }`}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search text…"
+          className="flex-1 min-w-[8rem] bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-700"
+        />
+        {needle && <span className="text-xs text-slate-500">{matches.size} match(es)</span>}
+        <button
+          onClick={() => copy(selectedText)}
+          disabled={selected.size === 0}
+          className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          Copy Selection
+        </button>
+        <button
+          onClick={() => copy(result.text)}
+          disabled={!result.text}
+          className="px-3 py-2 rounded-lg text-xs font-bold bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50 transition-colors"
+        >
+          Copy All
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 min-h-[120px]">
+        <div className="flex justify-between text-xs text-slate-500 uppercase font-bold mb-3">
+          <span>Local OCR{result.language && ` · ${result.language}`}</span>
+          <span>{Math.round(result.confidence)}% confidence</span>
+        </div>
+        {result.lines.length > 0 ? (
+          <div className="font-mono text-sm text-slate-700 dark:text-slate-300 space-y-1">
+            {result.lines.map((line, l) => (
+              <p key={l}>
+                {line.words.map((word, w) => {
+                  const key = `${l}:${w}`;
+                  return (
+                    <span key={key} className={matches.has(key) ? 'bg-amber-200 dark:bg-amber-700' : selected.has(key) ? 'bg-brand-100 dark:bg-brand-900' : ''}>
+                      {word.text}{' '}
+                    </span>
+                  );
+                })}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center text-slate-400 italic mt-6">No text detected in image</div>
+        )}
+      </div>
+
+      {modelText !== undefined && (
+        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700">
+          <button onClick={() => setShowModelText(!showModelText)} className="text-xs text-slate-500 uppercase font-bold">
+            {showModelText ? '▾' : '▸'} Model's reading (second opinion)
+          </button>
+          {showModelText && (
+            modelText ? (
+              <pre className="mt-3 whitespace-pre-wrap font-mono text-sm text-slate-700 dark:text-slate-300">{modelText}</pre>
+            ) : (
+              <p className="mt-3 text-sm text-slate-400 italic">The model did not report any text.</p>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OcrView;
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PagePoint } from '../types';
+import { DEFAULT_PAGE_CORNERS } from '../services/documentService';
+
+interface PageCornerEditorProps {
+  previewUrl: string;
+  scanUrl?: string;
+  corners: PagePoint[] | null; // null when no page edges were found
+  onApply: (corners: PagePoint[]) => void;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const sameCorners = (a: PagePoint[] | null, b: PagePoint[] | null) =>
+  a === b || (!!a && !!b && a.every((p, i) => p.x === b[i].x && p.y === b[i].y));
+
+const PageCornerEditor: React.FC<PageCornerEditorProps> = ({ previewUrl, scanUrl, corners, onApply }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<PagePoint[] | null>(corners);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [showScan, setShowScan] = useState(!!scanUrl);
+
+  useEffect(() => {
+    setDraft(corners);
+    setShowScan(!!scanUrl);
+  }, [corners, scanUrl]);
+
+  const handleMove = (e: React.PointerEvent) => {
+    if (dragging === null || !draft) return;
+    const rect = containerRef.current!.getBoundingClientRect();
+    const point = { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+    setDraft(draft.map((corner, i) => (i === dragging ? point : corner)));
+  };
+
+  const startDrag = (e: React.PointerEvent, index: number) => {
+    containerRef.current?.setPointerCapture(e.pointerId);
+    setDragging(index);
+  };
+
+  const changed = !!draft && !sameCorners(draft, corners);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-bold">Page</p>
+          <p className="text-xs text-slate-400">
+            {scanUrl
+              ? 'Read from the straightened page. Drag the corners on the original to correct the edges.'
+              : draft
+                ? 'Drag the corners to the edges of the page.'
+                : 'No page edges found, so the photo was read as it is.'}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {scanUrl && (
+            <button
+              onClick={() => setShowScan(!showScan)}
+              className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+            >
+              {showScan ? 'Show Original' : 'Show Scan'}
+            </button>
+          )}
+          {!draft && (
+            <button
+              onClick={() => setDraft(DEFAULT_PAGE_CORNERS)}
+              className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+            >
+              Place Corners
+            </button>
+          )}
+          {changed && (
+            <button
+              onClick={() => onApply(draft!)}
+              className="px-3 py-2 rounded-lg text-xs font-bold bg-brand-600 text-white hover:bg-brand-700 transition-colors"
+            >
+              Straighten and Extract Again
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showScan && scanUrl ? (
+        <img src={scanUrl} alt="Straightened page" className="w-full h-auto block rounded-lg bg-slate-100" />
+      ) : (
+        <div
+          ref={containerRef}
+          onPointerMove={handleMove}
+          onPointerUp={() => setDragging(null)}
+          className="relative rounded-lg overflow-hidden bg-slate-900 select-none touch-none"
+        >
+          <img src={previewUrl} alt="Original photo" className="w-full h-auto block pointer-events-none" draggable={false} />
+          {draft && (
+            <>
+              <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                <polygon
+                  points={draft.map(p => `${p.x},${p.y}`).join(' ')}
+                  className="fill-brand-500/20 stroke-brand-500"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+              {draft.map((corner, i) => (
+                <span
+                  key={i}
+                  onPointerDown={(e) => startDrag(e, i)}
+                  style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-brand-500 ring-2 ring-white cursor-move"
+                />
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageCornerEditor;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { PrivacyAudit, PrivacyFinding, PrivacyFindingId } from '../types';
+
+interface PrivacyAuditPanelProps {
+  audit: PrivacyAudit;
+  skipped: PrivacyFindingId[]; // findings the user chose to leave in the file
+  onToggle: (id: PrivacyFindingId) => void;
+  selectable: boolean; // false for videos and formats without EXIF writing, which are cleaned all at once
+}
+
+const levelStyles: Record<PrivacyAudit['level'], { badge: string; bar: string }> = {
+  low: { badge: 'bg-green-100 text-green-800', bar: 'bg-green-500' },
+  medium: { badge: 'bg-amber-100 text-amber-800', bar: 'bg-amber-500' },
+  high: { badge: 'bg-red-100 text-red-800', bar: 'bg-red-500' },
+};
+
+const severityStyles: Record<PrivacyFinding['severity'], string> = {
+  low: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200',
+  medium: 'bg-amber-100 text-amber-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+const PrivacyAuditPanel: React.FC<PrivacyAuditPanelProps> = ({ audit, skipped, onToggle, selectable }) => (
+  <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-4">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-xs text-slate-500 uppercase font-bold">Privacy Risk</p>
+        <p className="text-3xl font-bold">{audit.score}<span className="text-sm text-slate-400 font-medium"> / 100</span></p>
+      </div>
+      <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${levelStyles[audit.level].badge}`}>
+        {audit.level}
+      </span>
+    </div>
+    <div className="w-full bg-slate-200 rounded-full h-2 dark:bg-slate-700">
+      <div className={`h-2 rounded-full ${levelStyles[audit.level].bar}`} style={{ width: `${audit.score}%` }}></div>
+    </div>
+
+    {audit.findings.length === 0 ? (
+      <p className="text-sm text-slate-400 italic">Nothing identifying was found in the metadata, the analysis or the recognized text.</p>
+    ) : (
+      <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+        {audit.findings.map(finding => {
+          // Metadata the cleaner can remove; faces and text are covered by redaction regions
+          const inMetadata = finding.fields.length > 0;
+          return (
+            <li key={finding.id} className="py-3 flex gap-3">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={inMetadata && !skipped.includes(finding.id)}
+                disabled={!inMetadata || !selectable}
+                onChange={() => onToggle(finding.id)}
+              />
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{finding.title}</span>
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${severityStyles[finding.severity]}`}>
+                    {finding.severity}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-600 dark:text-slate-400 break-words">{finding.detail}</p>
+                <p className="text-xs text-slate-500">
+                  <span className="font-bold">Fix:</span> {finding.fix}
+                  {!inMetadata && selectable && ' Check the proposed regions in the redaction editor.'}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    )}
+  </div>
+);
+
+export default PrivacyAuditPanel;
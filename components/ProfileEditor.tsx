@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { AnalysisProfile, ProfileField, ProfileFieldType } from '../types';
+import { DEFAULT_PROFILE_ID, emptyField, validateProfile } from '../services/profileService';
+
+interface ProfileEditorProps {
+  profiles: AnalysisProfile[];
+  onChange: (profiles: AnalysisProfile[]) => void;
+}
+
+const FIELD_TYPES: { value: ProfileFieldType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'integer', label: 'Whole number' },
+  { value: 'boolean', label: 'Yes / no' },
+  { value: 'date', label: 'Date' },
+  { value: 'enum', label: 'One of' },
+  { value: 'list', label: 'List of text' },
+];
+
+const inputClass = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-700";
+const smallInputClass = "w-full bg-slate-100 dark:bg-slate-800 rounded px-2 py-1 text-xs border border-slate-200 dark:border-slate-700";
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profiles, onChange }) => {
+  const [editingId, setEditingId] = useState(DEFAULT_PROFILE_ID);
+  const profile = profiles.find(p => p.id === editingId) ?? profiles[0];
+  const error = profile.builtIn ? null : validateProfile(profile);
+
+  const update = (patch: Partial<AnalysisProfile>) => {
+    onChange(profiles.map(p => (p.id === profile.id ? { ...p, ...patch } : p)));
+  };
+
+  const updateField = (index: number, patch: Partial<ProfileField>) => {
+    update({ fields: profile.fields.map((field, i) => (i === index ? { ...field, ...patch } : field)) });
+  };
+
+  // Built-in profiles are customized through a copy
+  const handleDuplicate = () => {
+    const copy: AnalysisProfile = {
+      ...structuredClone(profile),
+      id: `custom_${Date.now()}`,
+      name: `${profile.name} (copy)`,
+      builtIn: undefined,
+    };
+    onChange([...profiles, copy]);
+    setEditingId(copy.id);
+  };
+
+  const handleDelete = () => {
+    onChange(profiles.filter(p => p.id !== profile.id));
+    setEditingId(DEFAULT_PROFILE_ID);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <select value={profile.id} onChange={(e) => setEditingId(e.target.value)} className={inputClass}>
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}{p.builtIn ? ' (built-in)' : ''}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDuplicate}
+          className="shrink-0 px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+        >
+          Duplicate
+        </button>
+        {!profile.builtIn && (
+          <button
+            onClick={handleDelete}
+            className="shrink-0 px-3 py-2 rounded-lg text-xs font-bold bg-red-100 text-red-800 hover:bg-red-200 transition-colors"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      <fieldset disabled={profile.builtIn} className="space-y-3 disabled:opacity-70">
+        {!profile.builtIn && (
+          <input value={profile.name} onChange={(e) => update({ name: e.target.value })} placeholder="Profile name" className={inputClass} />
+        )}
+        <textarea
+          value={profile.instructions}
+          onChange={(e) => update({ instructions: e.target.value })}
+          placeholder="Extra instructions for the model"
+          rows={2}
+          className={inputClass}
+        />
+
+        {profile.fields.map((field, i) => (
+          <div key={i} className="grid grid-cols-6 gap-1.5 items-center">
+            <input
+              value={field.key}
+              onChange={(e) => updateField(i, { key: e.target.value })}
+              placeholder="key"
+              className={`${smallInputClass} col-span-2 font-mono`}
+            />
+            <input
+              value={field.label}
+              onChange={(e) => updateField(i, { label: e.target.value })}
+              placeholder="Label"
+              className={`${smallInputClass} col-span-2`}
+            />
+            <select
+              value={field.type}
+              onChange={(e) => updateField(i, { type: e.target.value as ProfileFieldType })}
+              className={`${smallInputClass} col-span-2`}
+            >
+              {FIELD_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+            </select>
+            <input
+              value={field.description ?? ''}
+              onChange={(e) => updateField(i, { description: e.target.value || undefined })}
+              placeholder="What the model should put here"
+              className={`${smallInputClass} col-span-4`}
+            />
+            <label className="flex items-center gap-1 text-xs">
+              <input type="checkbox" checked={field.required} onChange={(e) => updateField(i, { required: e.target.checked })} />
+              Req.
+            </label>
+            {!profile.builtIn && (
+              <button
+                onClick={() => update({ fields: profile.fields.filter((_, j) => j !== i) })}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            )}
+            {field.type === 'enum' && (
+              // Parsed on blur, so a trailing comma survives while typing
+              <input
+                key={`${profile.id}_${i}`}
+                defaultValue={(field.options ?? []).join(', ')}
+                onBlur={(e) => updateField(i, { options: e.target.value.split(',').map(option => option.trim()).filter(Boolean) })}
+                placeholder="Options, comma-separated"
+                className={`${smallInputClass} col-span-6`}
+              />
+            )}
+          </div>
+        ))}
+
+        {!profile.builtIn && (
+          <button
+            onClick={() => update({ fields: [...profile.fields, emptyField(profile.fields.length)] })}
+            className="text-xs font-bold text-brand-600 hover:underline"
+          >
+            + Add Field
+          </button>
+        )}
+      </fieldset>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ProfileEditor;
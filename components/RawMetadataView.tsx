@@ -0,0 +1,74 @@
+import React from 'react';
+import { RawMetadata } from '../types';
+
+interface RawMetadataViewProps {
+  metadata: RawMetadata;
+  previewUrl: string;
+}
+
+const formatTagId = (id?: number) => (id === undefined ? '' : `0x${id.toString(16).padStart(4, '0')}`);
+
+const RawMetadataView: React.FC<RawMetadataViewProps> = ({ metadata, previewUrl }) => (
+  <div className="space-y-4">
+    {/* Main image vs. embedded thumbnail: a mismatch is a common sign of editing */}
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700">
+      <p className="text-xs text-slate-500 uppercase font-bold mb-3">Embedded Thumbnail</p>
+      {metadata.thumbnailUrl ? (
+        <div className="grid grid-cols-2 gap-4">
+          <figure>
+            <img src={previewUrl} alt="Main" className="w-full h-32 object-contain bg-slate-900 rounded-lg" />
+            <figcaption className="text-xs text-center text-slate-500 mt-1">Main image</figcaption>
+          </figure>
+          <figure>
+            <img src={metadata.thumbnailUrl} alt="Thumbnail" className="w-full h-32 object-contain bg-slate-900 rounded-lg" />
+            <figcaption className="text-xs text-center text-slate-500 mt-1">EXIF thumbnail</figcaption>
+          </figure>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400 italic">No embedded thumbnail.</p>
+      )}
+    </div>
+
+    {metadata.groups.length === 0 && (
+      <div className="text-center p-8 text-slate-500">No metadata segments found.</div>
+    )}
+
+    {metadata.groups.map(group => (
+      <details
+        key={group.segment}
+        open
+        className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden"
+      >
+        <summary className="px-4 py-3 font-bold cursor-pointer flex justify-between">
+          <span className="uppercase">{group.segment}</span>
+          <span className="text-xs text-slate-500 font-medium">{group.tags.length} tags</span>
+        </summary>
+        <table className="w-full text-xs text-left">
+          <thead className="bg-slate-50 dark:bg-slate-900 text-slate-500 font-medium">
+            <tr>
+              <th className="px-3 py-2">ID</th>
+              <th className="px-3 py-2">Tag</th>
+              <th className="px-3 py-2">Value</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {group.tags.map(tag => (
+              <tr key={`${group.segment}-${tag.name}`}>
+                <td className="px-3 py-2 font-mono text-slate-400">{formatTagId(tag.id)}</td>
+                <td className="px-3 py-2 font-medium text-slate-700 dark:text-slate-300">{tag.name}</td>
+                <td className="px-3 py-2 font-mono text-slate-600 dark:text-slate-400 break-all">
+                  {tag.value}
+                  {tag.value !== tag.rawValue && (
+                    <span className="block text-slate-400">raw: {tag.rawValue}</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    ))}
+  </div>
+);
+
+export default RawMetadataView;
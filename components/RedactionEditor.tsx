@@ -0,0 +1,199 @@
+import React, { useRef, useState } from 'react';
+import { RedactionRegion, RedactionSource } from '../types';
+
+interface RedactionEditorProps {
+  previewUrl: string;
+  regions: RedactionRegion[] | undefined; // undefined while the proposal is computed
+  onChange: (regions: RedactionRegion[]) => void;
+  onDetect: () => void;
+  error?: string | null;
+}
+
+interface Drag {
+  mode: 'draw' | 'move' | 'resize';
+  id: string;
+  startX: number; // pointer position where the drag began, in fractions of the image
+  startY: number;
+  origin: RedactionRegion;
+}
+
+const SOURCE_LABELS: Record<RedactionSource, string> = {
+  face: 'Face',
+  email: 'E-mail',
+  phone: 'Phone',
+  card: 'Card number',
+  address: 'Address',
+  plate: 'Licence plate',
+  id: 'ID number',
+  name: 'Name',
+  manual: 'Manual',
+};
+
+// Smaller drawn regions are taken for a stray click
+const MIN_REGION_SIZE = 0.01;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const regionStyle = (region: RedactionRegion): React.CSSProperties => ({
+  left: `${region.x * 100}%`,
+  top: `${region.y * 100}%`,
+  width: `${region.width * 100}%`,
+  height: `${region.height * 100}%`,
+});
+
+const RedactionEditor: React.FC<RedactionEditorProps> = ({ previewUrl, regions, onChange, onDetect, error }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [draft, setDraft] = useState<RedactionRegion | null>(null);
+
+  const pointOf = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width, 0, 1), y: clamp((e.clientY - rect.top) / rect.height, 0, 1) };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: Drag['mode'], region: RedactionRegion) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    const { x, y } = pointOf(e);
+    setDrag({ mode, id: region.id, startX: x, startY: y, origin: region });
+    setSelectedId(region.id);
+  };
+
+  const handleBackgroundDown = (e: React.PointerEvent) => {
+    if (!regions) return;
+    const { x, y } = pointOf(e);
+    const region: RedactionRegion = { id: `manual_${Date.now()}`, x, y, width: 0, height: 0, style: 'box', source: 'manual' };
+    setDraft(region);
+    startDrag(e, 'draw', region);
+  };
+
+  const handleMove = (e: React.PointerEvent) => {
+    if (!drag || !regions) return;
+    const { x, y } = pointOf(e);
+    const { origin } = drag;
+    if (drag.mode === 'draw') {
+      setDraft({
+        ...origin,
+        x: Math.min(drag.startX, x),
+        y: Math.min(drag.startY, y),
+        width: Math.abs(x - drag.startX),
+        height: Math.abs(y - drag.startY),
+      });
+      return;
+    }
+    const moved = drag.mode === 'move'
+      ? {
+        ...origin,
+        x: clamp(origin.x + x - drag.startX, 0, 1 - origin.width),
+        y: clamp(origin.y + y - drag.startY, 0, 1 - origin.height),
+      }
+      : {
+        ...origin,
+        width: clamp(origin.width + x - drag.startX, MIN_REGION_SIZE, 1 - origin.x),
+        height: clamp(origin.height + y - drag.startY, MIN_REGION_SIZE, 1 - origin.y),
+      };
+    onChange(regions.map(region => (region.id === drag.id ? moved : region)));
+  };
+
+  const handleUp = () => {
+    if (drag?.mode === 'draw' && draft && regions && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+      onChange([...regions, draft]);
+    } else if (drag?.mode === 'draw') {
+      setSelectedId(null);
+    }
+    setDrag(null);
+    setDraft(null);
+  };
+
+  const update = (id: string, patch: Partial<RedactionRegion>) => {
+    if (regions) onChange(regions.map(region => (region.id === id ? { ...region, ...patch } : region)));
+  };
+
+  const remove = (id: string) => {
+    if (regions) onChange(regions.filter(region => region.id !== id));
+  };
+
+  const renderRegion = (region: RedactionRegion) => (
+    <div
+      key={region.id}
+      onPointerDown={(e) => startDrag(e, 'move', region)}
+      style={regionStyle(region)}
+      className={`absolute cursor-move ${region.style === 'box' ? 'bg-black/90' : 'backdrop-blur-md bg-white/10'} ${
+        region.id === selectedId ? 'ring-2 ring-brand-500' : 'ring-1 ring-white/60'
+      }`}
+    >
+      <span className="absolute -top-5 left-0 px-1 rounded bg-slate-900/80 text-[10px] text-white whitespace-nowrap pointer-events-none">
+        {SOURCE_LABELS[region.source]}
+      </span>
+      <span
+        onPointerDown={(e) => startDrag(e, 'resize', region)}
+        className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-sm bg-brand-500 cursor-se-resize"
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-bold">Redaction</p>
+          <p className="text-xs text-slate-400">Drag on the image to add a region; drag a region to move it, its corner to resize it.</p>
+        </div>
+        <button
+          onClick={onDetect}
+          disabled={!regions}
+          className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+        >
+          {regions ? 'Detect Again' : 'Detecting…'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div
+        ref={containerRef}
+        onPointerDown={handleBackgroundDown}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        className="relative rounded-lg overflow-hidden bg-slate-900 select-none touch-none cursor-crosshair"
+      >
+        <img src={previewUrl} alt="Redaction preview" className="w-full h-auto block pointer-events-none" draggable={false} />
+        {regions?.map(renderRegion)}
+        {draft && <div style={regionStyle(draft)} className="absolute border-2 border-dashed border-brand-500 bg-brand-500/20" />}
+      </div>
+
+      {regions && regions.length > 0 ? (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {regions.map(region => (
+            <li
+              key={region.id}
+              onClick={() => setSelectedId(region.id)}
+              className={`py-2 flex items-center gap-3 text-sm ${region.id === selectedId ? 'font-medium' : ''}`}
+            >
+              <span className="flex-1">
+                {SOURCE_LABELS[region.source]}
+                {region.confidence !== undefined && (
+                  <span className="text-xs text-slate-500"> · {Math.round(region.confidence * 100)}%</span>
+                )}
+              </span>
+              <select
+                value={region.style}
+                onChange={(e) => update(region.id, { style: e.target.value as RedactionRegion['style'] })}
+                className="bg-slate-100 dark:bg-slate-700 rounded px-2 py-1 text-xs border border-slate-200 dark:border-slate-600"
+              >
+                <option value="blur">Blur</option>
+                <option value="box">Black box</option>
+              </select>
+              <button onClick={() => remove(region.id)} className="text-xs text-red-600 hover:underline">Remove</button>
+            </li>
+          ))}
+        </ul>
+      ) : regions && (
+        <p className="text-sm text-slate-400 italic">No regions, so the export is not redacted.</p>
+      )}
+    </div>
+  );
+};
+
+export default RedactionEditor;
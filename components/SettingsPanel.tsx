@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisProfile, AnalysisProviderId, ProviderSettings, UploadOptions } from '../types';
+import { PROVIDERS } from '../services/analysisProvider';
+import { DEFAULT_UPLOAD_OPTIONS } from '../services/imageService';
+import { clearAnalysisCache, countCachedAnalyses, DEFAULT_CACHE_TTL_DAYS } from '../services/analysisCache';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/openAiCompatibleProvider';
+import { validateProfile } from '../services/profileService';
+import ProfileEditor from './ProfileEditor';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  profiles: AnalysisProfile[];
+  onSave: (settings: ProviderSettings, profiles: AnalysisProfile[]) => void;
+  onClose: () => void;
+}
+
+const MEGABYTE = 1024 * 1024;
+
+const inputClass = "w-full bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-2 text-sm border border-slate-200 dark:border-slate-700";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, profiles, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [draftProfiles, setDraftProfiles] = useState<AnalysisProfile[]>(profiles);
+  const profilesValid = draftProfiles.every(profile => profile.builtIn || !validateProfile(profile));
+  const upload = draft.upload ?? DEFAULT_UPLOAD_OPTIONS;
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    countCachedAnalyses().then(setCachedCount, () => setCachedCount(null));
+  }, []);
+
+  const handleClearCache = async () => {
+    await clearAnalysisCache();
+    setCachedCount(0);
+  };
+
+  const updateUpload = (patch: Partial<UploadOptions>) => {
+    setDraft({ ...draft, upload: { ...upload, ...patch } });
+  };
+
+  const handleProviderChange = (provider: AnalysisProviderId) => {
+    setDraft({
+      ...draft,
+      provider,
+      model: PROVIDERS[provider].defaultModel,
+      baseUrl: provider === 'openai-compatible' ? draft.baseUrl || DEFAULT_OPENAI_BASE_URL : undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-white dark:bg-slate-900 rounded-2xl shadow-xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="font-bold text-lg">Analysis Settings</h2>
+
+        <label className="block space-y-1">
+          <span className="text-xs text-slate-500 uppercase font-bold">Provider</span>
+          <select
+            value={draft.provider}
+            onChange={(e) => handleProviderChange(e.target.value as AnalysisProviderId)}
+            className={inputClass}
+          >
+            {Object.values(PROVIDERS).map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-xs text-slate-500 uppercase font-bold">Model</span>
+          <input
+            value={draft.model}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            disabled={draft.provider === 'mock'}
+            className={inputClass}
+          />
+        </label>
+
+        {draft.provider === 'openai-compatible' && (
+          <label className="block space-y-1">
+            <span className="text-xs text-slate-500 uppercase font-bold">Base URL</span>
+            <input
+              value={draft.baseUrl ?? ''}
+              onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+              placeholder={DEFAULT_OPENAI_BASE_URL}
+              className={inputClass}
+            />
+          </label>
+        )}
+
+        {draft.provider !== 'mock' && (
+          <label className="block space-y-1">
+            <span className="text-xs text-slate-500 uppercase font-bold">API Key</span>
+            <input
+              type="password"
+              value={draft.apiKey ?? ''}
+              onChange={(e) => setDraft({ ...draft, apiKey: e.target.value || undefined })}
+              placeholder={draft.provider === 'gemini' ? 'Uses the build-time key if empty' : 'Optional'}
+              className={inputClass}
+            />
+          </label>
+        )}
+
+        {draft.provider !== 'mock' && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-500 uppercase font-bold">Max Edge (px)</span>
+              <input
+                type="number"
+                min={256}
+                step={64}
+                value={upload.maxEdge}
+                onChange={(e) => updateUpload({ maxEdge: Math.max(256, Number(e.target.value) || DEFAULT_UPLOAD_OPTIONS.maxEdge) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-500 uppercase font-bold">Upload Budget (MB)</span>
+              <input
+                type="number"
+                min={0.25}
+                step={0.25}
+                value={upload.maxBytes / MEGABYTE}
+                onChange={(e) => updateUpload({ maxBytes: Math.round(Math.max(0.25, Number(e.target.value) || 0) * MEGABYTE) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="col-span-2 flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={upload.tileText}
+                onChange={(e) => updateUpload({ tileText: e.target.checked })}
+              />
+              Send documents and screenshots as tiles too, so small text stays readable
+            </label>
+          </div>
+        )}
+
+        <div className="flex items-end gap-3">
+          <label className="block space-y-1 flex-1">
+            <span className="text-xs text-slate-500 uppercase font-bold">Cache Results (days, 0 = off)</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.cacheTtlDays ?? DEFAULT_CACHE_TTL_DAYS}
+              onChange={(e) => setDraft({ ...draft, cacheTtlDays: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </label>
+          <button
+            onClick={handleClearCache}
+            disabled={!cachedCount}
+            className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+          >
+            Clear Cache{cachedCount ? ` (${cachedCount})` : ''}
+          </button>
+        </div>
+
+        <div className="space-y-1">
+          <span className="text-xs text-slate-500 uppercase font-bold">Analysis Profiles</span>
+          <ProfileEditor profiles={draftProfiles} onChange={setDraftProfiles} />
+        </div>
+
+        <div className="flex gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 rounded-lg font-bold bg-slate-200 dark:bg-slate-800 hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft, draftProfiles)}
+            disabled={!profilesValid}
+            className="flex-1 py-2 rounded-lg font-bold bg-brand-600 hover:bg-brand-700 text-white transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
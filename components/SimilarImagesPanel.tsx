@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ExifData, HistoryEntry, PerceptualHashes, ProcessedImage } from '../types';
+import { perceptualHashes } from '../services/hashService';
+import { loadHistory } from '../services/historyService';
+import { clusterBySimilarity, diffExif } from '../services/similarityService';
+
+interface SimilarImagesPanelProps {
+  images: ProcessedImage[];
+  focusId?: string; // only show the cluster containing this image
+  onOpen: (id: string) => void;
+  onOpenHistory: (entry: HistoryEntry) => void;
+}
+
+interface Candidate {
+  id: string;
+  name: string;
+  previewUrl: string;
+  hashes: PerceptualHashes;
+  exif: ExifData | null;
+  entry?: HistoryEntry; // set for history entries
+}
+
+const formatValue = (value: ExifData[keyof ExifData]) =>
+  value === undefined ? <span className="text-slate-400 italic">missing</span> : String(value);
+
+const SimilarImagesPanel: React.FC<SimilarImagesPanelProps> = ({ images, focusId, onOpen, onOpenHistory }) => {
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [history, setHistory] = useState<{ entry: HistoryEntry; hashes: PerceptualHashes }[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!includeHistory || history) return;
+    // Entries saved before duplicate detection are hashed from their thumbnail
+    loadHistory()
+      .then(entries => Promise.all(entries.map(async entry => {
+        const hashes = entry.hashes ?? await perceptualHashes(entry.thumbnail).catch(() => undefined);
+        return hashes ? [{ entry, hashes }] : [];
+      })))
+      .then(results => setHistory(results.flat()))
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [includeHistory, history]);
+
+  const thumbnails = useMemo(
+    () => new Map((history ?? []).map(({ entry }) => [entry.id, URL.createObjectURL(entry.thumbnail)])),
+    [history]
+  );
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const pending = images.filter(img => !img.hashes && img.status !== 'error').length;
+
+  const clusters = useMemo(() => {
+    const candidates: Candidate[] = images.flatMap(img => img.hashes
+      ? [{ id: img.id, name: img.file.name, previewUrl: img.previewUrl, hashes: img.hashes, exif: img.exif }]
+      : []
+    );
+    if (includeHistory && history) {
+      // An image reopened from or saved to history is already in the batch under the same id
+      const inBatch = new Set(images.map(img => img.id));
+      candidates.push(...history
+        .filter(({ entry }) => !inBatch.has(entry.id))
+        .map(({ entry, hashes }) => ({
+          id: entry.id,
+          name: entry.fileName,
+          previewUrl: thumbnails.get(entry.id) ?? '',
+          hashes,
+          exif: entry.exif,
+          entry,
+        })));
+    }
+    const all = clusterBySimilarity(candidates);
+    return focusId ? all.filter(cluster => cluster.members.some(member => member.id === focusId)) : all;
+  }, [images, includeHistory, history, thumbnails, focusId]);
+
+  const open = (candidate: Candidate) => (candidate.entry ? onOpenHistory(candidate.entry) : onOpen(candidate.id));
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-bold tracking-wider">Similar Images</p>
+          {pending > 0 && <p className="text-xs text-slate-400">Hashing {pending} image(s)...</p>}
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={includeHistory} onChange={(e) => setIncludeHistory(e.target.checked)} />
+          Include history
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {includeHistory && !history && !error && <p className="text-sm text-slate-400 animate-pulse">Loading history...</p>}
+
+      {clusters.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No near-duplicates found.</p>
+      ) : clusters.map(({ members, scores }) => {
+        const differences = diffExif(members.map(member => member.exif));
+        return (
+          <div key={members[0].id} className="space-y-3 border-t border-slate-100 dark:border-slate-700 pt-3 first:border-0 first:pt-0">
+            <div className="flex gap-3 overflow-x-auto">
+              {members.map((member, i) => (
+                <button
+                  key={member.id}
+                  onClick={() => open(member)}
+                  className={`shrink-0 w-24 text-left ${member.id === focusId ? 'opacity-60 cursor-default' : ''}`}
+                  disabled={member.id === focusId}
+                >
+                  <img src={member.previewUrl} alt={member.name} className="w-24 h-24 rounded-lg object-cover bg-slate-900" />
+                  <p className="text-xs font-medium truncate mt-1">{member.name}</p>
+                  <p className="text-[10px] text-slate-500">
+                    {i === 0 ? 'Reference' : `${Math.round(scores[i] * 100)}% similar`}
+                    {member.entry && ' · history'}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {differences.length === 0 ? (
+              <p className="text-xs text-slate-500">EXIF is identical across these copies.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-slate-500">
+                      <th className="py-1 pr-3 font-bold">Field</th>
+                      {members.map(member => (
+                        <th key={member.id} className="py-1 pr-3 font-bold truncate max-w-[8rem]">{member.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                    {differences.map(({ field, values }) => (
+                      <tr key={field}>
+                        <td className="py-1 pr-3 font-mono text-slate-500">{field}</td>
+                        {values.map((value, i) => (
+                          <td key={members[i].id} className="py-1 pr-3 font-mono break-all">{formatValue(value)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SimilarImagesPanel;
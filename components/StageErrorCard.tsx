@@ -0,0 +1,33 @@
+import React from 'react';
+import { StageError } from '../types';
+import { ERROR_DESCRIPTIONS } from '../services/analysisErrors';
+
+interface StageErrorCardProps {
+  title: string;
+  error: StageError;
+  onRetry: () => void;
+}
+
+const StageErrorCard: React.FC<StageErrorCardProps> = ({ title, error, onRetry }) => (
+  <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-4 rounded-xl">
+    <div className="flex items-center gap-2 mb-2">
+      <span className="font-bold text-red-900 dark:text-red-100">{title}</span>
+      <span className="px-2 py-0.5 rounded text-xs font-bold uppercase bg-red-200 text-red-800">{error.kind}</span>
+    </div>
+    <p className="text-sm text-red-800 dark:text-red-200 mb-1">{ERROR_DESCRIPTIONS[error.kind]}</p>
+    <p className="text-xs font-mono text-red-700/70 dark:text-red-300/70 break-all mb-3">{error.message}</p>
+    {error.fields && error.fields.length > 0 && (
+      <ul className="text-xs font-mono text-red-800 dark:text-red-200 mb-3 list-disc list-inside">
+        {error.fields.map(field => <li key={field}>{field}</li>)}
+      </ul>
+    )}
+    <button
+      onClick={onRetry}
+      className="px-4 py-2 rounded-lg text-sm font-bold bg-red-600 hover:bg-red-700 text-white transition-colors"
+    >
+      Retry
+    </button>
+  </div>
+);
+
+export default StageErrorCard;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AIAnalysisResult } from '../types';
+
+interface StreamingAnalysisCardProps {
+  partial: Partial<AIAnalysisResult>;
+}
+
+// Shown while the response streams in; the full result replaces it once validated
+const StreamingAnalysisCard: React.FC<StreamingAnalysisCardProps> = ({ partial }) => {
+  const rows: [string, React.ReactNode][] = [];
+  if (partial.imageCategory) rows.push(['Category', partial.imageCategory]);
+  if (partial.sceneType) rows.push(['Scene', partial.sceneType]);
+  if (partial.peopleCount !== undefined) rows.push(['People', partial.peopleCount]);
+  if (partial.faceEmotion) rows.push(['Emotion', partial.faceEmotion]);
+  if (partial.isSafe !== undefined) rows.push(['Content Safety', partial.isSafe ? 'Safe' : 'NSFW / Unsafe']);
+  if (partial.objects?.length) rows.push(['Objects', partial.objects.join(', ')]);
+  if (partial.authenticity) rows.push(['Model Opinion', `${partial.authenticity.isLikelyEdited ? 'Edited' : 'Original'}: ${partial.authenticity.reason}`]);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center gap-2 mb-3">
+        <span className="w-2 h-2 rounded-full bg-brand-500 animate-pulse" />
+        <p className="text-xs text-slate-500 uppercase font-bold">Receiving Analysis</p>
+      </div>
+      {rows.length > 0 ? (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-3">
+          {rows.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs text-slate-500">{label}</dt>
+              <dd className="font-medium break-words">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-sm text-slate-400">Waiting for the first fields...</p>
+      )}
+      {partial.dominantColors && partial.dominantColors.length > 0 && (
+        <div className="flex gap-2 mt-3">
+          {partial.dominantColors.map((c, i) => (
+            <div key={i} className="w-6 h-6 rounded-full shadow-inner border border-slate-100" style={{ backgroundColor: c }} title={c} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamingAnalysisCard;
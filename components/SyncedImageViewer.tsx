@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface SyncedImageViewerProps {
+  panes: { id: string; name: string; url: string }[];
+}
+
+// Pan offsets are fractions of the pane size, so panes of different pixel sizes stay aligned
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_SCALE = 8;
+const WHEEL_STEP = 1.15;
+const INITIAL_VIEW: View = { scale: 1, x: 0, y: 0 };
+
+// Keeps the image covering its pane, so panning stops at the edges
+const clampView = ({ scale, x, y }: View): View => {
+  const s = Math.min(MAX_SCALE, Math.max(1, scale));
+  return { scale: s, x: Math.min(0, Math.max(1 - s, x)), y: Math.min(0, Math.max(1 - s, y)) };
+};
+
+// Zooms to a new scale, keeping the point at (px, py) of the pane where it is
+const zoomAt = (view: View, scale: number, px: number, py: number): View => {
+  const s = Math.min(MAX_SCALE, Math.max(1, scale));
+  return clampView({
+    scale: s,
+    x: px - ((px - view.x) / view.scale) * s,
+    y: py - ((py - view.y) / view.scale) * s,
+  });
+};
+
+const SyncedImageViewer: React.FC<SyncedImageViewerProps> = ({ panes }) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const drag = useRef<{ pointerId: number; clientX: number; clientY: number; rect: DOMRect } | null>(null);
+
+  // React registers wheel listeners as passive, which would let the page scroll while zooming
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    const onWheel = (e: WheelEvent) => {
+      const pane = (e.target as HTMLElement).closest('[data-pane]');
+      if (!pane) return;
+      e.preventDefault();
+      const rect = pane.getBoundingClientRect();
+      const px = (e.clientX - rect.left) / rect.width;
+      const py = (e.clientY - rect.top) / rect.height;
+      setView(prev => zoomAt(prev, prev.scale * (e.deltaY < 0 ? WHEEL_STEP : 1 / WHEEL_STEP), px, py));
+    };
+    grid.addEventListener('wheel', onWheel, { passive: false });
+    return () => grid.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { pointerId: e.pointerId, clientX: e.clientX, clientY: e.clientY, rect: e.currentTarget.getBoundingClientRect() };
+  };
+
+  const moveDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = drag.current;
+    if (!start || start.pointerId !== e.pointerId) return;
+    const dx = (e.clientX - start.clientX) / start.rect.width;
+    const dy = (e.clientY - start.clientY) / start.rect.height;
+    drag.current = { ...start, clientX: e.clientX, clientY: e.clientY };
+    setView(prev => clampView({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const buttonClass = "px-2 py-1 rounded-md text-xs font-bold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors disabled:opacity-50";
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-bold tracking-wider">Side by Side</p>
+          <p className="text-xs text-slate-400">Scroll to zoom and drag to pan; all images follow.</p>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <button onClick={() => setView(prev => zoomAt(prev, prev.scale / WHEEL_STEP ** 3, 0.5, 0.5))} disabled={view.scale <= 1} className={buttonClass}>−</button>
+          <span className="w-12 text-center text-xs font-mono">{Math.round(view.scale * 100)}%</span>
+          <button onClick={() => setView(prev => zoomAt(prev, prev.scale * WHEEL_STEP ** 3, 0.5, 0.5))} disabled={view.scale >= MAX_SCALE} className={buttonClass}>+</button>
+          <button onClick={() => setView(INITIAL_VIEW)} disabled={view === INITIAL_VIEW} className={buttonClass}>Reset</button>
+        </div>
+      </div>
+
+      <div ref={gridRef} className="grid grid-cols-2 gap-2">
+        {panes.map(pane => (
+          <figure key={pane.id} className="min-w-0">
+            <div
+              data-pane
+              onPointerDown={startDrag}
+              onPointerMove={moveDrag}
+              onPointerUp={() => { drag.current = null; }}
+              onDoubleClick={() => setView(INITIAL_VIEW)}
+              className="relative aspect-square overflow-hidden rounded-lg bg-slate-900 select-none touch-none cursor-move"
+            >
+              <img
+                src={pane.url}
+                alt={pane.name}
+                draggable={false}
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none origin-top-left"
+                style={{ transform: `translate(${view.x * 100}%, ${view.y * 100}%) scale(${view.scale})` }}
+              />
+            </div>
+            <figcaption className="text-xs font-medium truncate mt-1">{pane.name}</figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SyncedImageViewer;
@@ -0,0 +1,25 @@
+// Downloads the runtime files no npm package ships into public/, where Vite serves and copies them.
+// Exits non-zero when a download fails, so a build never ships without them.
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+const ASSETS = {
+  'public/models/blaze_face_short_range.tflite':
+    'https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite',
+};
+
+let failed = false;
+for (const [path, url] of Object.entries(ASSETS)) {
+  if (existsSync(path)) continue;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, new Uint8Array(await response.arrayBuffer()));
+    console.log(`Downloaded ${path}`);
+  } catch (error) {
+    console.error(`Could not download ${url}: ${error instanceof Error ? error.message : error}`);
+    failed = true;
+  }
+}
+if (failed) process.exit(1);
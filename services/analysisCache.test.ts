@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIAnalysisResult, AnalysisCacheEntry, AnalysisProfile, ProviderSettings } from '../types';
+import { createCacheKey, lookupAnalysis, storeAnalysis } from './analysisCache';
+import { perceptualHashes } from './hashService';
+import { DEFAULT_UPLOAD_OPTIONS } from './imageService';
+import { DEFAULT_OPENAI_BASE_URL } from './openAiCompatibleProvider';
+import { BUILT_IN_PROFILES } from './profileService';
+
+// IndexedDB does not exist in Node, so the cache store is a Map behind the same withStore calls
+const { entries } = vi.hoisted(() => ({ entries: new Map<string, AnalysisCacheEntry>() }));
+vi.mock('./database', () => ({
+  ANALYSIS_CACHE_STORE: 'analysisCache',
+  withStore: async (_store: string, _mode: string, run: (store: unknown) => unknown) => run({
+    index: () => ({ getAll: (scope: string) => [...entries.values()].filter(entry => entry.scope === scope) }),
+    put: (entry: AnalysisCacheEntry) => entries.set(entry.key, entry),
+    delete: (key: string) => entries.delete(key),
+  }),
+}));
+
+// Hashing runs in a worker, which Node does not have
+vi.mock('./workerPool', () => ({
+  runInWorker: vi.fn(),
+  isAbortError: (error: unknown) => error instanceof DOMException && error.name === 'AbortError',
+}));
+vi.mock('./hashService', async importOriginal => ({
+  ...await importOriginal<typeof import('./hashService')>(),
+  sha256Hex: vi.fn(),
+  perceptualHashes: vi.fn(),
+}));
+
+const DHASH = '0f0f0f0f0f0f0f0f';
+
+const RESULT: AIAnalysisResult = {
+  schemaVersion: 2,
+  objects: ['cat'],
+  peopleCount: 0,
+  sceneType: 'Living room',
+  imageCategory: 'Photo',
+  dominantColors: ['gray'],
+  faceEmotion: 'None',
+  isSafe: true,
+  authenticity: { isLikelyEdited: false, reason: 'none', score: 5 },
+  ocrText: '',
+};
+
+const GEMINI: ProviderSettings = { provider: 'gemini', model: 'gemini-2.5-flash' };
+const LOCAL: ProviderSettings = { provider: 'openai-compatible', model: 'llava', baseUrl: 'http://localhost:8080/v1' };
+const [GENERAL, RECEIPT] = BUILT_IN_PROFILES;
+
+const keyFor = (settings: ProviderSettings, profile: AnalysisProfile = GENERAL, sha256 = 'a'.repeat(64), dHash = DHASH) => {
+  vi.mocked(perceptualHashes).mockResolvedValueOnce({ aHash: dHash, dHash, pHash: dHash });
+  return createCacheKey(new Blob(['image']), settings, profile, sha256);
+};
+
+describe('lookupAnalysis', () => {
+  beforeEach(async () => {
+    entries.clear();
+    await storeAnalysis(await keyFor(GEMINI), RESULT, []);
+    await storeAnalysis(await keyFor(LOCAL), RESULT, []);
+  });
+
+  it('finds the same file under the same settings', async () => {
+    const hit = await lookupAnalysis(await keyFor(GEMINI), 30);
+    expect(hit?.match).toBe('exact');
+    expect(hit?.entry.result).toEqual(RESULT);
+  });
+
+  it.each<[string, ProviderSettings]>([
+    ['model', { ...GEMINI, model: 'gemini-2.5-pro' }],
+    ['provider', { ...GEMINI, provider: 'mock' }],
+    ['server', { ...LOCAL, baseUrl: 'http://gpu-box:8000/v1' }],
+    ['default server', { ...LOCAL, baseUrl: undefined }],
+    ['upload size', { ...GEMINI, upload: { ...DEFAULT_UPLOAD_OPTIONS, maxEdge: DEFAULT_UPLOAD_OPTIONS.maxEdge / 2 } }],
+    ['upload budget', { ...GEMINI, upload: { ...DEFAULT_UPLOAD_OPTIONS, maxBytes: DEFAULT_UPLOAD_OPTIONS.maxBytes * 2 } }],
+    ['tiling', { ...GEMINI, upload: { ...DEFAULT_UPLOAD_OPTIONS, tileText: !DEFAULT_UPLOAD_OPTIONS.tileText } }],
+  ])('misses with a different %s', async (_, settings) => {
+    expect(await lookupAnalysis(await keyFor(settings), 30)).toBeNull();
+  });
+
+  it('ignores a server setting left over from another provider', async () => {
+    const hit = await lookupAnalysis(await keyFor({ ...GEMINI, baseUrl: 'http://gpu-box:8000/v1' }), 30);
+    expect(hit?.match).toBe('exact');
+  });
+
+  it('treats an empty server as the default one', async () => {
+    await storeAnalysis(await keyFor({ ...LOCAL, baseUrl: DEFAULT_OPENAI_BASE_URL }), RESULT, []);
+    expect((await lookupAnalysis(await keyFor({ ...LOCAL, baseUrl: '' }), 30))?.match).toBe('exact');
+  });
+
+  it('misses with a different profile', async () => {
+    expect(await lookupAnalysis(await keyFor(GEMINI, RECEIPT), 30)).toBeNull();
+  });
+
+  it('misses once the profile was edited', async () => {
+    await storeAnalysis(await keyFor(GEMINI, RECEIPT), RESULT, []);
+    const edited = { ...RECEIPT, instructions: `${RECEIPT.instructions} Ignore tips.` };
+    expect(await lookupAnalysis(await keyFor(GEMINI, edited), 30)).toBeNull();
+    expect((await lookupAnalysis(await keyFor(GEMINI, RECEIPT), 30))?.match).toBe('exact');
+  });
+
+  it('offers a near-identical image as similar', async () => {
+    const hit = await lookupAnalysis(await keyFor(GEMINI, GENERAL, 'b'.repeat(64), '0f0f0f0f0f0f0f0e'), 30);
+    expect(hit?.match).toBe('similar');
+    expect(hit?.entry.sha256).toBe('a'.repeat(64));
+  });
+
+  it('picks the closest of several similar images', async () => {
+    await storeAnalysis(await keyFor(GEMINI, GENERAL, 'c'.repeat(64), '0f0f0f0f0f0f0f08'), RESULT, []);
+    const hit = await lookupAnalysis(await keyFor(GEMINI, GENERAL, 'b'.repeat(64), '0f0f0f0f0f0f0f09'), 30);
+    expect(hit?.entry.sha256).toBe('c'.repeat(64));
+  });
+
+  it.each([
+    ['a different image', 'f0f0f0f0f0f0f0f0'],
+    ['one just past the distance limit', '0f0f0f0f0f0f0f00'],
+  ])('misses %s', async (_, dHash) => {
+    expect(await lookupAnalysis(await keyFor(GEMINI, GENERAL, 'b'.repeat(64), dHash), 30)).toBeNull();
+  });
+
+  it('only matches an undecodable image exactly', async () => {
+    const key = { ...await keyFor(GEMINI, GENERAL, 'b'.repeat(64)), perceptualHash: undefined };
+    expect(await lookupAnalysis(key, 30)).toBeNull();
+  });
+
+  it('drops entries older than the TTL', async () => {
+    const key = await keyFor(GEMINI);
+    const stored = entries.get(`${key.sha256}|${key.scope}`)!;
+    stored.cachedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    expect(await lookupAnalysis(key, 30)).toBeNull();
+    expect(entries.has(stored.key)).toBe(false);
+  });
+});
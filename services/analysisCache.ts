@@ -0,0 +1,121 @@
+import { AIAnalysisResult, AnalysisCacheEntry, AnalysisProfile, ProviderSettings, ValidationIssue } from '../types';
+import { ANALYSIS_PROMPT_VERSION } from './analysisPrompt';
+import { migrateAnalysisResult } from './analysisValidator';
+import { ANALYSIS_CACHE_STORE, withStore } from './database';
+import { hammingDistance, perceptualHashes, sha256Hex } from './hashService';
+import { DEFAULT_UPLOAD_OPTIONS } from './imageService';
+import { DEFAULT_OPENAI_BASE_URL } from './openAiCompatibleProvider';
+import { DEFAULT_PROFILE_ID, profileFingerprint } from './profileService';
+import { isAbortError } from './workerPool';
+
+export const DEFAULT_CACHE_TTL_DAYS = 30;
+
+// Out of 64 bits; re-encoded copies of a photo stay well below this, different photos well above
+const SIMILAR_MAX_DISTANCE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CacheKey {
+  sha256: string;
+  perceptualHash?: string;
+  scope: string;
+}
+
+export interface CacheHit {
+  entry: AnalysisCacheEntry;
+  // Only exact hits are reused automatically; a similar one is offered to the user
+  match: 'exact' | 'similar';
+}
+
+/**
+ * Identifies an image's analysis by content, provider, model and server, prompt version, upload
+ * options and profile. A known SHA-256 (e.g. of a history entry's original file) is used instead
+ * of hashing the file again.
+ */
+export const createCacheKey = async (
+  file: Blob,
+  settings: ProviderSettings,
+  profile: AnalysisProfile,
+  knownSha256?: string,
+  signal?: AbortSignal
+): Promise<CacheKey> => {
+  const [sha256, perceptual] = await Promise.all([
+    knownSha256 ?? sha256Hex(file, signal),
+    // Formats the browser cannot decode are only matched exactly
+    perceptualHashes(file, signal).then(hashes => hashes.dHash, error => {
+      if (isAbortError(error)) throw error;
+      return undefined;
+    }),
+  ]);
+  // The default profile keeps the scope results were cached under before profiles existed
+  const fingerprint = profileFingerprint(profile);
+  const profileScope = fingerprint === DEFAULT_PROFILE_ID ? '' : `|${fingerprint}`;
+  // What the model is shown depends on the downscaling and tiling, so they are part of the scope too
+  const { maxEdge, maxBytes, tileText } = settings.upload ?? DEFAULT_UPLOAD_OPTIONS;
+  const server = settings.provider === 'openai-compatible' ? `@${settings.baseUrl || DEFAULT_OPENAI_BASE_URL}` : '';
+  const scope = `${settings.provider}|${settings.model}${server}|v${ANALYSIS_PROMPT_VERSION}|${maxEdge}px,${maxBytes}B${tileText ? ',tiles' : ''}${profileScope}`;
+  return { sha256, perceptualHash: perceptual, scope };
+};
+
+/**
+ * Finds a stored result younger than ttlDays: the same file first, then the closest
+ * near-duplicate as a 'similar' match, which callers must not reuse without asking.
+ * Expired entries of the scope are deleted along the way.
+ */
+export const lookupAnalysis = async (key: CacheKey, ttlDays: number): Promise<CacheHit | null> => {
+  const entries = await withStore<AnalysisCacheEntry[]>(ANALYSIS_CACHE_STORE, 'readonly', store => store.index('scope').getAll(key.scope));
+  const cutoff = Date.now() - ttlDays * DAY_MS;
+
+  const fresh: AnalysisCacheEntry[] = [];
+  for (const entry of entries) {
+    if (Date.parse(entry.cachedAt) >= cutoff) {
+      fresh.push(entry);
+    } else {
+      withStore(ANALYSIS_CACHE_STORE, 'readwrite', store => store.delete(entry.key))
+        .catch(error => console.error("Failed to evict cache entry", error));
+    }
+  }
+
+  let hit: CacheHit | null = null;
+  const exact = fresh.find(entry => entry.sha256 === key.sha256);
+  if (exact) {
+    hit = { entry: exact, match: 'exact' };
+  } else if (key.perceptualHash) {
+    let best = SIMILAR_MAX_DISTANCE + 1;
+    for (const entry of fresh) {
+      if (!entry.perceptualHash) continue;
+      const distance = hammingDistance(entry.perceptualHash, key.perceptualHash);
+      if (distance < best) {
+        best = distance;
+        hit = { entry, match: 'similar' };
+      }
+    }
+  }
+  if (!hit) return null;
+
+  try {
+    return { ...hit, entry: { ...hit.entry, result: migrateAnalysisResult(hit.entry.result).result } };
+  } catch (error) {
+    console.error(`Ignoring unreadable cache entry ${hit.entry.key}`, error);
+    return null;
+  }
+};
+
+export const storeAnalysis = (key: CacheKey, result: AIAnalysisResult, issues: ValidationIssue[]): Promise<IDBValidKey> => {
+  const entry: AnalysisCacheEntry = {
+    key: `${key.sha256}|${key.scope}`,
+    scope: key.scope,
+    sha256: key.sha256,
+    perceptualHash: key.perceptualHash,
+    result,
+    issues,
+    cachedAt: new Date().toISOString(),
+  };
+  return withStore(ANALYSIS_CACHE_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const countCachedAnalyses = (): Promise<number> =>
+  withStore(ANALYSIS_CACHE_STORE, 'readonly', store => store.count());
+
+export const clearAnalysisCache = (): Promise<undefined> =>
+  withStore(ANALYSIS_CACHE_STORE, 'readwrite', store => store.clear());
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError } from './analysisErrors';
+
+describe('classifyError', () => {
+  it.each([
+    [new TypeError('Failed to fetch'), 'network'],
+    [new TypeError('NetworkError when attempting to fetch resource.'), 'network'],
+    [new TypeError('Load failed'), 'network'],
+    [Object.assign(new Error('Service Unavailable'), { status: 503 }), 'network'],
+    [Object.assign(new Error('Too Many Requests'), { status: 429 }), 'quota'],
+    [new TypeError("Cannot read properties of undefined (reading 'network')"), 'unknown'],
+    [new TypeError('response.json is not a function'), 'unknown'],
+    [new SyntaxError('Unexpected token'), 'schema'],
+  ])('classifies %s', (error, kind) => {
+    expect(classifyError(error).kind).toBe(kind);
+  });
+
+  it('retries only quota and network failures', () => {
+    expect(classifyError(new TypeError('Failed to fetch')).retryable).toBe(true);
+    expect(classifyError(Object.assign(new Error('quota'), { status: 429 })).retryable).toBe(true);
+    expect(classifyError(new Error('Something odd happened')).retryable).toBe(false);
+    expect(classifyError(new TypeError('x is not a function')).retryable).toBe(false);
+  });
+});
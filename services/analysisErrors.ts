@@ -0,0 +1,74 @@
+import { AnalysisErrorKind, StageError } from '../types';
+
+// Transient failures that are worth retrying automatically
+const RETRYABLE_KINDS: AnalysisErrorKind[] = ['quota', 'network'];
+
+// How browsers and Node word a fetch that never got a response; other TypeErrors are bugs, not outages
+const FETCH_FAILURE = /failed to fetch|NetworkError when attempting|load failed|network request failed|fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT/i;
+
+/**
+ * A classified provider failure. Providers throw this (or anything classifyError understands)
+ * instead of returning placeholder results.
+ */
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly fields?: string[];
+
+  constructor(kind: AnalysisErrorKind, message: string, fields?: string[]) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.fields = fields;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  toStageError(): StageError {
+    return { kind: this.kind, message: this.message, fields: this.fields };
+  }
+}
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Maps SDK, fetch and parsing errors onto the AnalysisError kinds.
+ */
+export const classifyError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error) ?? Number(message.match(/\b(4\d\d|5\d\d)\b/)?.[1]);
+
+  if (error instanceof SyntaxError) {
+    return new AnalysisError('schema', `Response was not valid JSON: ${message}`);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AnalysisError('quota', message);
+  }
+  if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AnalysisError('auth', message);
+  }
+  if (FETCH_FAILURE.test(message) || (!(error instanceof TypeError) && /network|timed? ?out/i.test(message))) {
+    return new AnalysisError('network', message);
+  }
+  // Gateway and overload errors clear up on their own, like a dropped connection
+  if (status === 502 || status === 503 || status === 504 || /UNAVAILABLE|overloaded/.test(message)) {
+    return new AnalysisError('network', message);
+  }
+  return new AnalysisError('unknown', message);
+};
+
+export const ERROR_DESCRIPTIONS: Record<AnalysisErrorKind, string> = {
+  quota: 'The provider rate limit or quota was exceeded.',
+  auth: 'The API key is missing or was rejected. Check the analysis settings.',
+  network: 'The provider could not be reached.',
+  schema: 'The provider returned a response that does not match the expected format.',
+  blocked: 'The provider refused to analyze this image. Treat its content as unreviewed, not as safe.',
+  cancelled: 'The analysis was cancelled before it finished.',
+  unknown: 'The analysis failed for an unknown reason.',
+};
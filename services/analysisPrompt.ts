@@ -0,0 +1,216 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisProfile, DocumentEntityKind, ImagePayload, ProfileField, ProfileFieldType } from '../types';
+
+// Part of the result cache key: bump it whenever the prompt or response schema changes
+export const ANALYSIS_PROMPT_VERSION = 1;
+
+// Shared by every provider so results stay comparable across backends
+export const ANALYSIS_PROMPT = `Analyze this image in detail. Extract visual data, text, and authenticity clues.
+
+            Strictly follow the JSON schema.
+            - For 'sceneType', use generic terms like Indoor, Outdoor, Nature, Urban, Office, Home.
+            - For 'imageCategory', choose one of: Selfie, Document, Screenshot, Photo, Other.
+            - For 'faceEmotion', if no face is present, use 'None'.
+            - For 'authenticity', look for artifacts, unnatural lighting, or inconsistencies that suggest editing.
+            - For 'ocrText', extract all visible text. If no text, return empty string.`;
+
+const TILES_NOTE = `The first image is the whole picture. The images after it are overlapping crops of it at higher resolution, in reading order, so that small text can be read. Describe the picture as a whole and read text from the crops.`;
+
+const describeField = (field: ProfileField): string => {
+  const parts = [`- '${field.key}' (${field.label})`];
+  if (field.description) parts.push(`: ${field.description}`);
+  if (field.type === 'date') parts.push(', as YYYY-MM-DD');
+  if (!field.required) parts.push('. Use null if the image does not show it');
+  return parts.join('');
+};
+
+const profileNote = (profile: AnalysisProfile): string => [
+  profile.instructions.trim(),
+  profile.fields.length > 0 ? `Also fill 'customFields':\n${profile.fields.map(describeField).join('\n')}` : '',
+].filter(Boolean).join('\n\n');
+
+/**
+ * The analysis prompt, with the profile's instructions and fields, and a note on how to read
+ * the parts when the image is sent as tiles.
+ */
+export const buildAnalysisPrompt = (image: ImagePayload, profile?: AnalysisProfile): string =>
+  [ANALYSIS_PROMPT, profile ? profileNote(profile) : '', image.tiles?.length ? TILES_NOTE : '']
+    .filter(Boolean)
+    .join('\n\n');
+
+export const ANALYSIS_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    objects: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "List of detected objects in the image"
+    },
+    peopleCount: {
+      type: Type.INTEGER,
+      description: "Count of people detected"
+    },
+    sceneType: {
+      type: Type.STRING,
+      description: "The environment or setting of the image"
+    },
+    imageCategory: {
+      type: Type.STRING,
+      enum: ['Selfie', 'Document', 'Screenshot', 'Photo', 'Other'],
+      description: "Category of the image"
+    },
+    dominantColors: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Top 5 dominant colors as hex codes or names"
+    },
+    faceEmotion: {
+      type: Type.STRING,
+      enum: ['Happy', 'Neutral', 'Sad', 'Angry', 'Surprised', 'None'],
+      description: "Dominant facial emotion if applicable"
+    },
+    isSafe: {
+      type: Type.BOOLEAN,
+      description: "Whether the image is considered safe (SFW)"
+    },
+    authenticity: {
+      type: Type.OBJECT,
+      properties: {
+        isLikelyEdited: { type: Type.BOOLEAN },
+        reason: { type: Type.STRING },
+        score: { type: Type.NUMBER, description: "0 to 100 likelihood score" }
+      },
+      required: ['isLikelyEdited', 'reason', 'score']
+    },
+    ocrText: {
+      type: Type.STRING,
+      description: "All text extracted from the image"
+    }
+  },
+  required: ['objects', 'peopleCount', 'sceneType', 'imageCategory', 'dominantColors', 'faceEmotion', 'isSafe', 'authenticity', 'ocrText']
+};
+
+// Second pass for images categorized as Document
+export const DOCUMENT_PROMPT = `This image is a document. Extract its content as structured data.
+
+            Strictly follow the JSON schema.
+            - For 'documentType', name the kind of document, e.g. Invoice, Receipt, Bank statement, Letter, Form, Contract.
+            - For 'keyValues', list labeled values in reading order, e.g. "Invoice no." and its number. Copy values as printed.
+            - For 'tables', give each table's column headers and every row as cells in header order. Use an empty string for empty cells. Do not repeat key-value pairs as tables.
+            - For 'entities', list every date, amount, IBAN, person name, organization, postal address, email address, phone number and ID number, copied as printed.
+            - Return empty arrays for anything the document does not contain.`;
+
+const SCAN_NOTE = `The image has been cropped to the page and its perspective corrected.`;
+
+/**
+ * The document prompt, noting when the page was straightened and when it is sent as tiles.
+ */
+export const buildDocumentPrompt = (image: ImagePayload, scanned: boolean): string =>
+  [DOCUMENT_PROMPT, scanned ? SCAN_NOTE : '', image.tiles?.length ? TILES_NOTE : '']
+    .filter(Boolean)
+    .join('\n\n');
+
+export const DOCUMENT_ENTITY_KINDS: DocumentEntityKind[] = ['date', 'amount', 'iban', 'name', 'organization', 'address', 'email', 'phone', 'id', 'other'];
+
+export const DOCUMENT_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    documentType: {
+      type: Type.STRING,
+      description: "Kind of document"
+    },
+    keyValues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          key: { type: Type.STRING },
+          value: { type: Type.STRING }
+        },
+        required: ['key', 'value']
+      },
+      description: "Labeled values in reading order"
+    },
+    tables: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "Caption or a short description of the table" },
+          headers: { type: Type.ARRAY, items: { type: Type.STRING } },
+          rows: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.STRING } } }
+        },
+        required: ['title', 'headers', 'rows']
+      }
+    },
+    entities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: DOCUMENT_ENTITY_KINDS },
+          text: { type: Type.STRING }
+        },
+        required: ['kind', 'text']
+      }
+    }
+  },
+  required: ['documentType', 'keyValues', 'tables', 'entities']
+};
+
+const FIELD_TYPES: Record<ProfileFieldType, Schema> = {
+  string: { type: Type.STRING },
+  number: { type: Type.NUMBER },
+  integer: { type: Type.INTEGER },
+  boolean: { type: Type.BOOLEAN },
+  date: { type: Type.STRING },
+  enum: { type: Type.STRING },
+  list: { type: Type.ARRAY, items: { type: Type.STRING } },
+};
+
+const fieldSchema = (field: ProfileField): Schema => ({
+  ...FIELD_TYPES[field.type],
+  description: field.description || field.label,
+  ...(field.type === 'enum' ? { enum: field.options } : {}),
+  // Strict structured output needs every property listed as required, so optional means nullable
+  ...(field.required ? {} : { nullable: true }),
+});
+
+/**
+ * The response schema with the profile's fields added under `customFields`.
+ */
+export const buildResponseSchema = (profile?: AnalysisProfile): Schema => {
+  if (!profile?.fields.length) return ANALYSIS_RESPONSE_SCHEMA;
+  return {
+    ...ANALYSIS_RESPONSE_SCHEMA,
+    properties: {
+      ...ANALYSIS_RESPONSE_SCHEMA.properties,
+      customFields: {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(profile.fields.map(field => [field.key, fieldSchema(field)])),
+        required: profile.fields.map(field => field.key),
+      },
+    },
+    required: [...ANALYSIS_RESPONSE_SCHEMA.required!, 'customFields'],
+  };
+};
+
+/**
+ * Converts a Gemini schema into standard JSON Schema for OpenAI-style structured output.
+ * Gemini uses upper-case type names; JSON Schema uses lower-case ones.
+ */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.nullable ? [schema.type.toLowerCase(), 'null'] : schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    out.additionalProperties = false;
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
@@ -0,0 +1,116 @@
+import { AIAnalysisResult, AnalysisProfile, AnalysisProviderId, DocumentExtraction, ImagePayload, ProviderSettings, ValidationIssue } from '../types';
+import { classifyError } from './analysisErrors';
+import { readPartialAnalysis, validateAnalysisResult, validateDocumentExtraction } from './analysisValidator';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { openAiCompatibleProvider } from './openAiCompatibleProvider';
+import { parsePartialJson } from './partialJson';
+
+export interface ProviderCallOptions {
+  // Cancels the request; the call then rejects with the signal's reason
+  signal?: AbortSignal;
+  // The response text received so far, for backends that stream
+  onText?: (text: string) => void;
+}
+
+/**
+ * A backend that turns an image into a raw, parsed JSON response shaped like AIAnalysisResult,
+ * with the profile's fields under `customFields`.
+ * Implementations throw on failure; the response is validated by analyzeImage.
+ */
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  defaultModel: string;
+  // MIME types the backend accepts as image input; undefined means any
+  supportedMimeTypes?: string[];
+  // Rough input token cost of one image part; undefined when the backend does not say
+  estimateImageTokens?: (width: number, height: number) => number;
+  analyze: (image: ImagePayload, settings: ProviderSettings, profile?: AnalysisProfile, options?: ProviderCallOptions) => Promise<unknown>;
+  // Document mode: a raw response shaped like DocumentExtraction; scanned says the page was straightened
+  extractDocument: (image: ImagePayload, settings: ProviderSettings, scanned: boolean, options?: ProviderCallOptions) => Promise<unknown>;
+}
+
+export const PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+  'openai-compatible': openAiCompatibleProvider,
+};
+
+const SETTINGS_STORAGE_KEY = 'analysisProviderSettings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: geminiProvider.defaultModel,
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const settings = JSON.parse(stored) as ProviderSettings;
+      if (settings.provider in PROVIDERS) return settings;
+    }
+  } catch (error) {
+    console.error("Failed to load provider settings", error);
+  }
+  return DEFAULT_PROVIDER_SETTINGS;
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  // Called with the fields parsed so far each time a streamed response adds one
+  onPartial?: (partial: Partial<AIAnalysisResult>) => void;
+}
+
+/**
+ * Runs the image through the provider selected in settings and validates the response, including
+ * the profile's fields. Failures are rethrown as a classified AnalysisError, never replaced with
+ * placeholder data; a cancelled call rejects with the signal's reason.
+ */
+export const analyzeImage = async (
+  image: ImagePayload,
+  settings: ProviderSettings,
+  profile?: AnalysisProfile,
+  { signal, onPartial }: AnalyzeOptions = {}
+): Promise<{ result: AIAnalysisResult; issues: ValidationIssue[] }> => {
+  const provider = PROVIDERS[settings.provider];
+  let shown = '';
+  const onText = onPartial && ((text: string) => {
+    const partial = readPartialAnalysis(parsePartialJson(text));
+    const key = JSON.stringify(partial);
+    if (key === shown) return;
+    shown = key;
+    onPartial(partial);
+  });
+  try {
+    return validateAnalysisResult(await provider.analyze(image, settings, profile, { signal, onText }), profile);
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    console.error(`${provider.label} Analysis Error:`, error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Runs the document pass through the provider selected in settings and validates the response.
+ */
+export const extractDocument = async (
+  image: ImagePayload,
+  settings: ProviderSettings,
+  scanned: boolean,
+  signal?: AbortSignal
+): Promise<{ extraction: DocumentExtraction; issues: ValidationIssue[] }> => {
+  const provider = PROVIDERS[settings.provider];
+  try {
+    return validateDocumentExtraction(await provider.extractDocument(image, settings, scanned, { signal }));
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    console.error(`${provider.label} Document Extraction Error:`, error);
+    throw classifyError(error);
+  }
+};
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisProfile } from '../types';
+import { AnalysisError } from './analysisErrors';
+import { ANALYSIS_SCHEMA_VERSION, migrateAnalysisResult, normalizeEntityText, validateAnalysisResult } from './analysisValidator';
+
+const RESPONSE = {
+  objects: [],
+  peopleCount: 0,
+  sceneType: 'receipt',
+  imageCategory: 'Document',
+  dominantColors: [],
+  faceEmotion: 'None',
+  isSafe: true,
+  authenticity: { isLikelyEdited: false, score: 10, reason: 'none' },
+};
+
+describe('normalizeEntityText(amount)', () => {
+  it.each([
+    ['1,234', '1234'],
+    ['1.234', '1234'],
+    ['1,234,567', '1234567'],
+    ['1.234.567', '1234567'],
+    ['1,250', '1250'],
+    ['€ 1,234.50', '1234.5'],
+    ['1.234,50', '1234.5'],
+    ['1 234,50 €', '1234.5'],
+    ['12,99', '12.99'],
+    ['12.5', '12.5'],
+    ['0,125', '0.125'],
+    ['1,2345', '1.2345'],
+    ['-1,234', '-1234'],
+  ])('reads %s as %s', (text, expected) => {
+    expect(normalizeEntityText('amount', text)).toBe(expected);
+  });
+
+  it('rejects text without digits', () => {
+    expect(normalizeEntityText('amount', 'n/a')).toBeNull();
+  });
+});
+
+describe('validateAnalysisResult custom fields', () => {
+  const profile: AnalysisProfile = {
+    id: 'test',
+    name: 'Test',
+    instructions: '',
+    fields: [
+      { key: 'total', label: 'Total', type: 'number', required: true },
+      { key: 'units', label: 'Units', type: 'integer', required: true },
+    ],
+  };
+  const response = (customFields: Record<string, unknown>) => ({ ...RESPONSE, customFields });
+
+  it.each([
+    ['1,234', 1234],
+    ['1,234,567', 1234567],
+    ['1.234.567', 1234567],
+    ['€ 1,234.50', 1234.5],
+    ['1.234,50', 1234.5],
+    ['12,99', 12.99],
+  ])('reads %s as %d', (total, expected) => {
+    const { result } = validateAnalysisResult(response({ total, units: 1 }), profile);
+    expect(result.customFields?.[0].value).toBe(expected);
+  });
+
+  it('parses grouped amounts in integer fields', () => {
+    const { result } = validateAnalysisResult(response({ total: 1, units: '1.234.567' }), profile);
+    expect(result.customFields?.[1].value).toBe(1234567);
+  });
+});
+
+describe('validateAnalysisResult', () => {
+  const rejectedFields = (input: unknown): string[] | undefined => {
+    try {
+      validateAnalysisResult(input);
+    } catch (error) {
+      expect(error).toBeInstanceOf(AnalysisError);
+      expect((error as AnalysisError).kind).toBe('schema');
+      return (error as AnalysisError).fields;
+    }
+    return undefined;
+  };
+
+  it.each([
+    ['isSafe', { ...RESPONSE, isSafe: undefined }],
+    ['isSafe', { ...RESPONSE, isSafe: 'maybe' }],
+    ['authenticity.score', { ...RESPONSE, authenticity: { isLikelyEdited: false, reason: 'none' } }],
+    ['authenticity.score', { ...RESPONSE, authenticity: { isLikelyEdited: false, score: 'high', reason: 'none' } }],
+    ['authenticity.isLikelyEdited', { ...RESPONSE, authenticity: { score: 10, reason: 'none' } }],
+  ])('rejects a missing or invalid %s', (path, input) => {
+    expect(rejectedFields(input)).toEqual([path]);
+  });
+
+  it('lists every rejected field at once', () => {
+    expect(rejectedFields({ ...RESPONSE, isSafe: undefined, authenticity: undefined })).toEqual([
+      'authenticity',
+      'authenticity.score',
+      'authenticity.isLikelyEdited',
+      'isSafe',
+    ]);
+  });
+
+  it('rejects a response that is not an object', () => {
+    expect(() => validateAnalysisResult([RESPONSE])).toThrow(AnalysisError);
+  });
+
+  it.each([
+    [-5, 0],
+    [0, 0],
+    [55.5, 55.5],
+    [100, 100],
+    [250, 100],
+    ['80', 80],
+  ])('clamps authenticity.score %j to %d', (score, expected) => {
+    const { result, issues } = validateAnalysisResult({ ...RESPONSE, authenticity: { ...RESPONSE.authenticity, score } });
+    expect(result.authenticity.score).toBe(expected);
+    expect(issues.some(issue => issue.path === 'authenticity.score')).toBe(score !== expected);
+  });
+});
+
+describe('migrateAnalysisResult', () => {
+  const stored = {
+    ...RESPONSE,
+    imageCategory: 'Photo',
+    authenticity: { isLikelyEdited: true, score: 70, reason: 'Cloned sky' },
+    ocrText: 'Hello',
+  };
+
+  it.each([
+    ['v0 without a version', stored],
+    ['v0', { ...stored, schemaVersion: 0 }],
+    ['v1', { ...stored, schemaVersion: 1 }],
+    ['v2', { ...stored, schemaVersion: 2 }],
+  ])('upgrades %s to the current version', (_, input) => {
+    const { result, issues } = migrateAnalysisResult(input);
+    expect(result).toEqual({ ...stored, schemaVersion: 2 });
+    expect(result.profile).toBeUndefined();
+    expect(result.customFields).toBeUndefined();
+    expect(issues).toEqual([]);
+  });
+
+  it('restores custom fields from their stored definitions', () => {
+    const customFields = [
+      { key: 'total', label: 'Total', type: 'number', required: true, value: 12.5 },
+      { key: 'vendor', label: 'Vendor', type: 'string', required: false, value: null },
+    ];
+    const { result } = migrateAnalysisResult({ ...stored, schemaVersion: 2, profile: { id: 'receipts', name: 'Receipts' }, customFields });
+    expect(result.profile).toEqual({ id: 'receipts', name: 'Receipts' });
+    expect(result.customFields).toEqual(customFields);
+  });
+
+  it('refuses a newer schema version', () => {
+    expect(() => migrateAnalysisResult({ ...stored, schemaVersion: ANALYSIS_SCHEMA_VERSION + 1 }))
+      .toThrow(`schema version ${ANALYSIS_SCHEMA_VERSION + 1}, newer than supported ${ANALYSIS_SCHEMA_VERSION}`);
+  });
+
+  it('refuses a stored value that is not an object', () => {
+    expect(() => migrateAnalysisResult('{"isSafe": true}')).toThrow(AnalysisError);
+  });
+});
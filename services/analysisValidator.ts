@@ -0,0 +1,443 @@
+import { AIAnalysisResult, AnalysisProfile, CustomFieldResult, CustomFieldValue, DocumentEntity, DocumentEntityKind, DocumentExtraction, DocumentTable, ProfileField, ValidationIssue } from '../types';
+import { AnalysisError } from './analysisErrors';
+import { DOCUMENT_ENTITY_KINDS } from './analysisPrompt';
+import { DEFAULT_PROFILE_ID } from './profileService';
+
+/**
+ * Version of the AIAnalysisResult shape. Bump it whenever the shape in types.ts changes
+ * and add a migration from the previous version below.
+ */
+export const ANALYSIS_SCHEMA_VERSION = 2;
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version-n result to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // Results saved before versioning existed have the same fields as v1
+  0: data => ({ ...data, schemaVersion: 1 }),
+  // v2 added the optional profile and customFields, which v1 results simply lack
+  1: data => ({ ...data, schemaVersion: 2 }),
+};
+
+const IMAGE_CATEGORIES: AIAnalysisResult['imageCategory'][] = ['Selfie', 'Document', 'Screenshot', 'Photo', 'Other'];
+const FACE_EMOTIONS: AIAnalysisResult['faceEmotion'][] = ['Happy', 'Neutral', 'Sad', 'Angry', 'Surprised', 'None'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Collects issues while coercing fields. Fields that drive a verdict (safety, editing)
+ * are never defaulted, because a guessed value would look like a real finding.
+ */
+const createValidator = () => {
+  const issues: ValidationIssue[] = [];
+  const coerced = (path: string, problem: string) => issues.push({ path, problem, action: 'coerced' });
+  const rejected = (path: string, problem: string) => issues.push({ path, problem, action: 'rejected' });
+
+  const string = (value: unknown, path: string, fallback: string): string => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      coerced(path, `expected string, got ${typeof value}`);
+      return String(value);
+    }
+    coerced(path, value === undefined ? 'missing' : `expected string, got ${typeof value}`);
+    return fallback;
+  };
+
+  const stringArray = (value: unknown, path: string): string[] => {
+    if (typeof value === 'string') {
+      coerced(path, 'expected array, got string');
+      return value ? [value] : [];
+    }
+    if (!Array.isArray(value)) {
+      coerced(path, value === undefined ? 'missing' : `expected array, got ${typeof value}`);
+      return [];
+    }
+    const strings = value.filter((item): item is string => typeof item === 'string');
+    if (strings.length !== value.length) coerced(path, 'dropped non-string items');
+    return strings;
+  };
+
+  const number = (value: unknown, path: string): number | undefined => {
+    const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof n === 'number' && isFinite(n)) {
+      if (n !== value) coerced(path, 'expected number, got string');
+      return n;
+    }
+    return undefined;
+  };
+
+  const boolean = (value: unknown, path: string): boolean | undefined => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') {
+      coerced(path, 'expected boolean, got string');
+      return value === 'true';
+    }
+    rejected(path, value === undefined ? 'missing' : `expected boolean, got ${typeof value}`);
+    return undefined;
+  };
+
+  const oneOf = <T extends string>(value: unknown, allowed: T[], path: string, fallback: T): T => {
+    if (typeof value === 'string') {
+      const match = allowed.find(option => option.toLowerCase() === value.trim().toLowerCase());
+      if (match) {
+        if (match !== value) coerced(path, `normalized "${value}" to "${match}"`);
+        return match;
+      }
+    }
+    coerced(path, `unknown value ${JSON.stringify(value)}, using "${fallback}"`);
+    return fallback;
+  };
+
+  return { issues, coerced, rejected, string, stringArray, number, boolean, oneOf };
+};
+
+type Validator = ReturnType<typeof createValidator>;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// A single separator after one to three digits (not a lone zero) and before exactly three, e.g. "1,234"
+const THOUSANDS_ONLY = /^-?[1-9]\d{0,2}[.,]\d{3}$/;
+
+// Models like to format amounts, e.g. "€ 1,234.50", "1.234,50", "1,234,567" or "12,99"
+const parseAmount = (value: string): string => {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  // With both separators, the last one is the decimal point
+  if (cleaned.includes('.') && cleaned.includes(',')) {
+    return cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  }
+  const separator = cleaned.includes('.') ? '.' : ',';
+  // A repeated separator, or one followed by exactly three digits, groups thousands
+  if (cleaned.split(separator).length > 2 || THOUSANDS_ONLY.test(cleaned)) return cleaned.split(separator).join('');
+  return cleaned.replace(',', '.');
+};
+
+// Day first, as everywhere dots separate date parts, e.g. "12.03.2024"
+const DOTTED_DATE = /^(\d{1,2})\.\s?(\d{1,2})\.\s?(\d{4})$/;
+
+const isoDate = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Reads a printed date as YYYY-MM-DD, or null when it is not one.
+ */
+const normalizeDate = (text: string): string | null => {
+  if (ISO_DATE.test(text) && !isNaN(Date.parse(text))) return text;
+  const dotted = text.match(DOTTED_DATE);
+  if (dotted) {
+    const [day, month, year] = [Number(dotted[1]), Number(dotted[2]), Number(dotted[3])];
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? isoDate(year, month, day) : null;
+  }
+  const parsed = Date.parse(text);
+  if (isNaN(parsed)) return null;
+  // Date.parse reads a date without a time as local time
+  const date = new Date(parsed);
+  return isoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+};
+
+const customValue = (v: Validator, raw: unknown, field: ProfileField, path: string): CustomFieldValue => {
+  switch (field.type) {
+    case 'string':
+      return v.string(raw, path, '') || null;
+    case 'number':
+    case 'integer': {
+      const n = v.number(typeof raw === 'string' ? parseAmount(raw) : raw, path);
+      if (n === undefined) {
+        v.coerced(path, `expected number, got ${JSON.stringify(raw)}`);
+        return null;
+      }
+      if (field.type === 'integer' && !Number.isInteger(n)) {
+        v.coerced(path, `expected integer, got ${n}`);
+        return Math.round(n);
+      }
+      return n;
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (raw === 'true' || raw === 'false') {
+        v.coerced(path, 'expected boolean, got string');
+        return raw === 'true';
+      }
+      v.coerced(path, `expected boolean, got ${JSON.stringify(raw)}`);
+      return null;
+    case 'date': {
+      const text = v.string(raw, path, '').trim();
+      const iso = normalizeDate(text);
+      if (iso === null) {
+        v.coerced(path, `not a date: ${JSON.stringify(raw)}`);
+        return null;
+      }
+      if (iso !== text) v.coerced(path, `normalized "${text}" to "${iso}"`);
+      return iso;
+    }
+    case 'enum': {
+      const options = field.options ?? [];
+      const match = typeof raw === 'string' ? options.find(option => option.toLowerCase() === raw.trim().toLowerCase()) : undefined;
+      if (match === undefined) {
+        v.coerced(path, `unknown value ${JSON.stringify(raw)}`);
+        return null;
+      }
+      if (match !== raw) v.coerced(path, `normalized "${raw}" to "${match}"`);
+      return match;
+    }
+    case 'list':
+      return v.stringArray(raw, path);
+  }
+};
+
+/**
+ * Validates the profile's fields. They describe the image rather than deliver a verdict, so an
+ * invalid or missing value becomes null and is reported, without failing the analysis.
+ */
+const validateCustomFields = (v: Validator, input: unknown, fields: ProfileField[]): CustomFieldResult[] => {
+  if (!isRecord(input)) v.coerced('customFields', input === undefined ? 'missing' : 'expected object');
+  const values = isRecord(input) ? input : {};
+  return fields.map(field => {
+    const path = `customFields.${field.key}`;
+    const raw = values[field.key];
+    if (raw === undefined || raw === null || raw === '') {
+      if (field.required) v.coerced(path, 'missing');
+      return { ...field, value: null };
+    }
+    return { ...field, value: customValue(v, raw, field, path) };
+  });
+};
+
+/**
+ * Validates a raw provider response against AIAnalysisResult and the profile's fields.
+ * Recoverable problems are coerced and reported; unrecoverable ones throw a schema AnalysisError
+ * that lists the failing fields.
+ */
+export const validateAnalysisResult = (
+  input: unknown,
+  profile?: AnalysisProfile
+): { result: AIAnalysisResult; issues: ValidationIssue[] } => {
+  if (!isRecord(input)) {
+    throw new AnalysisError('schema', "Response is not a JSON object");
+  }
+  const v = createValidator();
+
+  let peopleCount = v.number(input.peopleCount, 'peopleCount');
+  if (peopleCount === undefined) {
+    v.rejected('peopleCount', 'missing or not a number');
+  } else if (!Number.isInteger(peopleCount) || peopleCount < 0) {
+    v.coerced('peopleCount', `out of range: ${peopleCount}`);
+    peopleCount = Math.max(0, Math.round(peopleCount));
+  }
+
+  const authenticity = isRecord(input.authenticity) ? input.authenticity : {};
+  if (!isRecord(input.authenticity)) v.rejected('authenticity', 'missing or not an object');
+  let score = v.number(authenticity.score, 'authenticity.score');
+  if (score === undefined) {
+    v.rejected('authenticity.score', 'missing or not a number');
+  } else if (score < 0 || score > 100) {
+    v.coerced('authenticity.score', `out of range: ${score}`);
+    score = Math.min(100, Math.max(0, score));
+  }
+  const isLikelyEdited = v.boolean(authenticity.isLikelyEdited, 'authenticity.isLikelyEdited');
+  const isSafe = v.boolean(input.isSafe, 'isSafe');
+
+  const rejectedFields = v.issues.filter(issue => issue.action === 'rejected').map(issue => issue.path);
+  if (rejectedFields.length > 0) {
+    throw new AnalysisError('schema', `Invalid fields: ${rejectedFields.join(', ')}`, rejectedFields);
+  }
+
+  const result: AIAnalysisResult = {
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    objects: v.stringArray(input.objects, 'objects'),
+    peopleCount: peopleCount!,
+    sceneType: v.string(input.sceneType, 'sceneType', 'Unknown'),
+    imageCategory: v.oneOf(input.imageCategory, IMAGE_CATEGORIES, 'imageCategory', 'Other'),
+    dominantColors: v.stringArray(input.dominantColors, 'dominantColors'),
+    faceEmotion: v.oneOf(input.faceEmotion, FACE_EMOTIONS, 'faceEmotion', 'None'),
+    isSafe: isSafe!,
+    authenticity: {
+      isLikelyEdited: isLikelyEdited!,
+      reason: v.string(authenticity.reason, 'authenticity.reason', ''),
+      score: score!,
+    },
+    ocrText: v.string(input.ocrText, 'ocrText', ''),
+  };
+  if (profile && profile.id !== DEFAULT_PROFILE_ID) {
+    result.profile = { id: profile.id, name: profile.name };
+    if (profile.fields.length > 0) result.customFields = validateCustomFields(v, input.customFields, profile.fields);
+  }
+
+  return { result, issues: v.issues };
+};
+
+// ISO 13616: move the country code and check digits to the end, letters become 10-35, mod 97 is 1
+const ibanChecksumValid = (iban: string): boolean => {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, char => String(char.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder === 1;
+};
+
+const NORMALIZED_KINDS: DocumentEntityKind[] = ['date', 'amount', 'iban'];
+
+/**
+ * A date as YYYY-MM-DD, an amount as a plain number or an IBAN without spaces, so they can be
+ * compared and summed. Null when the text does not parse or the kind is not normalized.
+ */
+export const normalizeEntityText = (kind: DocumentEntityKind, text: string): string | null => {
+  switch (kind) {
+    case 'date':
+      return normalizeDate(text.trim());
+    case 'amount': {
+      const amount = /\d/.test(text) ? Number(parseAmount(text)) : NaN;
+      return isFinite(amount) ? String(amount) : null;
+    }
+    case 'iban': {
+      const iban = text.replace(/[\s-]/g, '').toUpperCase();
+      return ibanChecksumValid(iban) ? iban : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Entities that do not parse keep their printed text and are reported
+const normalizeEntity = (v: Validator, entity: DocumentEntity, path: string): DocumentEntity => {
+  if (!NORMALIZED_KINDS.includes(entity.kind)) return entity;
+  const normalized = normalizeEntityText(entity.kind, entity.text);
+  if (normalized === null) {
+    v.coerced(path, entity.kind === 'iban'
+      ? `IBAN checksum does not match: ${JSON.stringify(entity.text)}`
+      : `not a valid ${entity.kind}: ${JSON.stringify(entity.text)}`);
+    return entity;
+  }
+  return { ...entity, normalized };
+};
+
+/**
+ * Validates a raw document-mode response. Nothing in it is a verdict, so malformed parts are
+ * dropped or padded and reported instead of failing the extraction. Table rows are padded to
+ * the widest row, so every row has one cell per header.
+ */
+export const validateDocumentExtraction = (input: unknown): { extraction: DocumentExtraction; issues: ValidationIssue[] } => {
+  if (!isRecord(input)) {
+    throw new AnalysisError('schema', "Response is not a JSON object");
+  }
+  const v = createValidator();
+
+  const records = (value: unknown, path: string): Record<string, unknown>[] => {
+    if (!Array.isArray(value)) {
+      v.coerced(path, value === undefined ? 'missing' : `expected array, got ${typeof value}`);
+      return [];
+    }
+    const items = value.filter(isRecord);
+    if (items.length !== value.length) v.coerced(path, 'dropped non-object items');
+    return items;
+  };
+
+  const keyValues = records(input.keyValues, 'keyValues')
+    .map((item, i) => ({
+      key: v.string(item.key, `keyValues.${i}.key`, '').trim(),
+      value: v.string(item.value, `keyValues.${i}.value`, '').trim(),
+    }))
+    .filter(pair => pair.key || pair.value);
+
+  const tables = records(input.tables, 'tables')
+    .map((item, i): DocumentTable => {
+      const path = `tables.${i}`;
+      const headers = v.stringArray(item.headers, `${path}.headers`);
+      if (!Array.isArray(item.rows)) v.coerced(`${path}.rows`, item.rows === undefined ? 'missing' : 'expected array');
+      const rows = (Array.isArray(item.rows) ? item.rows : []).map((row, r) => v.stringArray(row, `${path}.rows.${r}`));
+      const width = Math.max(headers.length, ...rows.map(row => row.length));
+      if (headers.length < width) v.coerced(`${path}.headers`, `${headers.length} headers for ${width} columns`);
+      if (rows.some(row => row.length < width)) v.coerced(`${path}.rows`, `padded short rows to ${width} cells`);
+      return {
+        title: v.string(item.title, `${path}.title`, '').trim(),
+        headers: Array.from({ length: width }, (_, c) => headers[c] ?? `Column ${c + 1}`),
+        rows: rows.map(row => Array.from({ length: width }, (_, c) => row[c] ?? '')),
+      };
+    })
+    .filter(table => table.rows.length > 0);
+
+  const entities = records(input.entities, 'entities')
+    .map((item, i) => {
+      const path = `entities.${i}`;
+      const entity: DocumentEntity = {
+        kind: v.oneOf(item.kind, DOCUMENT_ENTITY_KINDS, `${path}.kind`, 'other'),
+        text: v.string(item.text, `${path}.text`, '').trim(),
+      };
+      return entity.text ? normalizeEntity(v, entity, path) : entity;
+    })
+    .filter(entity => entity.text);
+
+  return {
+    extraction: {
+      documentType: v.string(input.documentType, 'documentType', 'Document').trim() || 'Document',
+      keyValues,
+      tables,
+      entities,
+    },
+    issues: v.issues,
+  };
+};
+
+/**
+ * Picks the fields of a streamed response that already have a usable value, for display while
+ * the rest arrives. Nothing is coerced or reported; the complete response is validated as usual.
+ * The authenticity verdict is only included once all of its parts are there.
+ */
+export const readPartialAnalysis = (input: unknown): Partial<AIAnalysisResult> => {
+  if (!isRecord(input)) return {};
+  const partial: Partial<AIAnalysisResult> = {};
+  const strings = (value: unknown) => (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined);
+  if (strings(input.objects)) partial.objects = strings(input.objects);
+  if (strings(input.dominantColors)) partial.dominantColors = strings(input.dominantColors);
+  if (typeof input.peopleCount === 'number') partial.peopleCount = input.peopleCount;
+  if (typeof input.sceneType === 'string') partial.sceneType = input.sceneType;
+  if (IMAGE_CATEGORIES.includes(input.imageCategory as AIAnalysisResult['imageCategory'])) {
+    partial.imageCategory = input.imageCategory as AIAnalysisResult['imageCategory'];
+  }
+  if (FACE_EMOTIONS.includes(input.faceEmotion as AIAnalysisResult['faceEmotion'])) {
+    partial.faceEmotion = input.faceEmotion as AIAnalysisResult['faceEmotion'];
+  }
+  if (typeof input.isSafe === 'boolean') partial.isSafe = input.isSafe;
+  if (typeof input.ocrText === 'string') partial.ocrText = input.ocrText;
+  const { authenticity } = input;
+  if (isRecord(authenticity) && typeof authenticity.isLikelyEdited === 'boolean'
+    && typeof authenticity.reason === 'string' && typeof authenticity.score === 'number') {
+    partial.authenticity = { isLikelyEdited: authenticity.isLikelyEdited, reason: authenticity.reason, score: authenticity.score };
+  }
+  return partial;
+};
+
+/**
+ * Reads a stored result of any schema version, migrates it to the current version and validates it.
+ */
+export const migrateAnalysisResult = (stored: unknown): { result: AIAnalysisResult; issues: ValidationIssue[] } => {
+  if (!isRecord(stored)) {
+    throw new AnalysisError('schema', "Stored analysis is not a JSON object");
+  }
+  let data = stored;
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (version > ANALYSIS_SCHEMA_VERSION) {
+    throw new AnalysisError('schema', `Stored analysis has schema version ${version}, newer than supported ${ANALYSIS_SCHEMA_VERSION}`);
+  }
+  while (version < ANALYSIS_SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  // Stored custom fields carry their definitions, which stand in for the profile they came from
+  const storedFields = Array.isArray(data.customFields) ? (data.customFields.filter(isRecord) as unknown as CustomFieldResult[]) : [];
+  const profile: AnalysisProfile | undefined = isRecord(data.profile)
+    ? {
+      id: String(data.profile.id),
+      name: String(data.profile.name),
+      instructions: '',
+      fields: storedFields.map(({ value, ...field }) => field),
+    }
+    : undefined;
+  return validateAnalysisResult(
+    { ...data, customFields: Object.fromEntries(storedFields.map(field => [field.key, field.value])) },
+    profile
+  );
+};
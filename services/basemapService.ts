@@ -0,0 +1,58 @@
+import { feature, mesh } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import type { Position } from 'geojson';
+import { ExifData, MapPoint } from '../types';
+
+export interface Basemap {
+  land: string; // SVG path data
+  borders: string;
+}
+
+/**
+ * Equirectangular projection onto a 360 x 180 plane: x grows east from -180°, y grows south from 90°.
+ */
+export const project = (latitude: number, longitude: number): [number, number] => [longitude + 180, 90 - latitude];
+
+/**
+ * Builds a map marker for an image, or null when its EXIF has no position.
+ */
+export const toMapPoint = (id: string, label: string, exif: ExifData | null): MapPoint | null =>
+  exif?.latitude !== undefined && exif.longitude !== undefined
+    ? { id, label, latitude: exif.latitude, longitude: exif.longitude, heading: exif.gpsDirection }
+    : null;
+
+// Rings that cross the antimeridian would otherwise draw a line across the whole map
+const ringToPath = (ring: Position[]): string =>
+  ring
+    .map(([lon, lat], i) => {
+      const [x, y] = project(lat, lon);
+      const jump = i > 0 && Math.abs(lon - ring[i - 1][0]) > 180;
+      return `${i === 0 || jump ? 'M' : 'L'}${x.toFixed(2)} ${y.toFixed(2)}`;
+    })
+    .join('');
+
+let basemapPromise: Promise<Basemap> | null = null;
+
+/**
+ * Loads the bundled Natural Earth 1:50m land and country borders as SVG paths.
+ */
+export const loadBasemap = (): Promise<Basemap> => {
+  basemapPromise ??= import('world-atlas/countries-50m.json').then(module => {
+    const topology = module.default as unknown as Topology<{ countries: GeometryCollection; land: GeometryCollection }>;
+    const land = feature(topology, topology.objects.land);
+    const borders = mesh(topology, topology.objects.countries, (a, b) => a !== b);
+
+    const landPath = land.features
+      .flatMap(f => {
+        const geometry = f.geometry;
+        if (geometry.type === 'Polygon') return geometry.coordinates;
+        if (geometry.type === 'MultiPolygon') return geometry.coordinates.flat();
+        return [];
+      })
+      .map(ring => `${ringToPath(ring)}Z`)
+      .join('');
+    const borderPath = borders.coordinates.map(ringToPath).join('');
+    return { land: landPath, borders: borderPath };
+  });
+  return basemapPromise;
+};
@@ -0,0 +1,98 @@
+import { AIAnalysisResult, ExifData } from '../types';
+import { EXIF_COLUMNS } from './exportService';
+import { describeDelta, Instant, toInstant } from './timestampService';
+
+export interface ExifComparisonRow {
+  field: keyof ExifData;
+  values: ExifData[keyof ExifData][]; // one per compared image, undefined where the field is missing
+  differs: boolean;
+}
+
+/**
+ * Lines up the EXIF of several images field by field, in the export's column order. Fields no
+ * image has are left out; a field missing on some images counts as a difference.
+ */
+export const alignExif = (exifs: (ExifData | null)[]): ExifComparisonRow[] =>
+  EXIF_COLUMNS
+    .map(field => ({ field, values: exifs.map(exif => exif?.[field]) }))
+    .filter(({ values }) => values.some(value => value !== undefined))
+    .map(({ field, values }) => ({ field, values, differs: values.some(value => value !== values[0]) }));
+
+export interface SharedObject {
+  label: string; // as the first image that lists it spells it
+  presentIn: boolean[]; // one per compared image
+}
+
+export interface FindingsComparison {
+  objects: SharedObject[]; // seen in the most images first
+  sceneTypes: (string | undefined)[]; // undefined where the image has no analysis
+  sameScene: boolean;
+  colors: string[][]; // each image's dominant colors
+}
+
+const objectKey = (label: string) => label.trim().toLowerCase();
+
+/**
+ * Merges the AI findings of several images: objects are matched by name regardless of case, so
+ * each one can be shown with the images it appears in. Images without an analysis match nothing.
+ */
+export const compareFindings = (analyses: (AIAnalysisResult | null)[]): FindingsComparison => {
+  const objects = new Map<string, SharedObject>();
+  analyses.forEach((analysis, i) => {
+    analysis?.objects.forEach(label => {
+      const key = objectKey(label);
+      if (!key) return;
+      const shared = objects.get(key) ?? { label: label.trim(), presentIn: analyses.map(() => false) };
+      shared.presentIn[i] = true;
+      objects.set(key, shared);
+    });
+  });
+  const count = (object: SharedObject) => object.presentIn.filter(Boolean).length;
+  const sceneTypes = analyses.map(analysis => analysis?.sceneType);
+  const known = sceneTypes.filter((scene): scene is string => !!scene).map(objectKey);
+
+  return {
+    objects: [...objects.values()].sort((a, b) => count(b) - count(a)),
+    sceneTypes,
+    sameScene: known.length === analyses.length && known.every(scene => scene === known[0]),
+    colors: analyses.map(analysis => analysis?.dominantColors ?? []),
+  };
+};
+
+export interface TimelineEntry {
+  index: number; // position of the image in the compared list
+  time: string; // the timestamp as recorded
+  instant: Instant;
+  gap?: string; // readable time since the previous entry
+}
+
+export interface CaptureTimeline {
+  entries: TimelineEntry[]; // earliest first
+  missing: number[]; // images without a capture time
+  spanMs: number;
+  // Some times carry a UTC offset and others are wall-clock times, so the order may be off by up to
+  // a timezone
+  approximate: boolean;
+}
+
+/**
+ * Orders the images by capture time, falling back to the digitize date when a camera only wrote that.
+ */
+export const buildCaptureTimeline = (exifs: (ExifData | null)[]): CaptureTimeline => {
+  const entries: TimelineEntry[] = [];
+  const missing: number[] = [];
+  exifs.forEach((exif, index) => {
+    const time = exif?.dateTimeOriginal ?? exif?.createDate;
+    const instant = toInstant(time);
+    if (time && instant) entries.push({ index, time, instant });
+    else missing.push(index);
+  });
+  entries.sort((a, b) => a.instant.ms - b.instant.ms);
+  entries.forEach((entry, i) => {
+    if (i > 0) entry.gap = describeDelta(entry.instant.ms - entries[i - 1].instant.ms);
+  });
+
+  const spanMs = entries.length > 1 ? entries[entries.length - 1].instant.ms - entries[0].instant.ms : 0;
+  const approximate = entries.some(entry => entry.instant.hasOffset) && entries.some(entry => !entry.instant.hasOffset);
+  return { entries, missing, spanMs, approximate };
+};
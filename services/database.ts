@@ -0,0 +1,52 @@
+const DB_NAME = 'metadata-extractor';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const ANALYSIS_CACHE_STORE = 'analysisCache';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Each step brings a database from the previous version up to date
+        if (event.oldVersion < 1) {
+          const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          history.createIndex('fileHash', 'fileHash');
+          history.createIndex('analyzedAt', 'analyzedAt');
+        }
+        if (event.oldVersion < 2) {
+          const cache = db.createObjectStore(ANALYSIS_CACHE_STORE, { keyPath: 'key' });
+          cache.createIndex('scope', 'scope');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store in its own transaction.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
@@ -0,0 +1,142 @@
+import { ImageFormat } from '../types';
+import { detectFileFormat, FORMAT_INFO } from './formatService';
+import { getNumber, readTiff, TiffFile } from './tiffReader';
+import { captureKeyframe } from './videoService';
+
+// Formats every browser decodes natively
+const NATIVE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp', 'gif', 'bmp'];
+
+const canDecode = async (file: Blob): Promise<boolean> => {
+  try {
+    (await createImageBitmap(file)).close();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Returns the SOF marker of a JPEG, or undefined when none is found before the scan data.
+ */
+const findSofMarker = (data: Uint8Array): number | undefined => {
+  let pos = 2;
+  while (pos + 4 <= data.length && data[pos] === 0xff) {
+    const marker = data[pos + 1];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) return marker;
+    if (marker === 0xda) return undefined;
+    pos += 2 + ((data[pos + 2] << 8) | data[pos + 3]);
+  }
+  return undefined;
+};
+
+// Baseline, extended and progressive JPEG; RAW files also embed lossless JPEG (SOF3), which browsers cannot decode
+const DECODABLE_SOF = [0xc0, 0xc1, 0xc2];
+
+/**
+ * Finds the largest browser-decodable JPEG embedded in a TIFF-based RAW file. Cameras store
+ * previews either as a JPEGInterchangeFormat pointer or as a single JPEG-compressed strip.
+ */
+const findEmbeddedJpeg = (tiff: TiffFile): Uint8Array | null => {
+  let best: Uint8Array | null = null;
+  for (const ifd of tiff.ifds) {
+    let offset = getNumber(tiff, ifd, 0x0201);
+    let length = getNumber(tiff, ifd, 0x0202);
+    const compression = getNumber(tiff, ifd, 0x0103);
+    if ((offset === undefined || length === undefined) && (compression === 6 || compression === 7) && ifd.entries.get(0x0111)?.count === 1) {
+      offset = getNumber(tiff, ifd, 0x0111);
+      length = getNumber(tiff, ifd, 0x0117);
+    }
+    if (offset === undefined || !length || offset + length > tiff.bytes.length) continue;
+    if (best && length <= best.length) continue;
+
+    const data = tiff.bytes.subarray(offset, offset + length);
+    const sof = data[0] === 0xff && data[1] === 0xd8 ? findSofMarker(data) : undefined;
+    if (sof !== undefined && DECODABLE_SOF.includes(sof)) best = data;
+  }
+  return best;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), 'image/jpeg', 0.92);
+  });
+
+/**
+ * Draws a bitmap with an EXIF orientation (1-8) applied and encodes the result as JPEG.
+ */
+const renderOriented = async (source: Blob, orientation: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'none' });
+  const { width, height } = bitmap;
+  const canvas = document.createElement('canvas');
+  const swap = orientation >= 5 && orientation <= 8;
+  canvas.width = swap ? height : width;
+  canvas.height = swap ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Could not get canvas context");
+  }
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, width, 0],
+    3: [-1, 0, 0, -1, width, height],
+    4: [1, 0, 0, -1, 0, height],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, height, 0],
+    7: [0, -1, -1, 0, height, width],
+    8: [0, -1, 1, 0, 0, width],
+  };
+  if (transforms[orientation]) ctx.transform(...transforms[orientation]);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvasToJpeg(canvas);
+};
+
+const decodeRaw = async (file: Blob, format: ImageFormat): Promise<Blob> => {
+  const tiff = readTiff(new Uint8Array(await file.arrayBuffer()));
+  const preview = tiff && findEmbeddedJpeg(tiff);
+  if (!tiff || !preview) {
+    throw new Error(`No embedded preview found in this ${FORMAT_INFO[format].label} file`);
+  }
+  const jpeg = new Blob([preview as BlobPart], { type: 'image/jpeg' });
+  // The preview is stored sensor-oriented; the RAW's own IFD0 says how to turn it
+  const orientation = getNumber(tiff, tiff.ifds[0], 0x0112) ?? 1;
+  return orientation > 1 && orientation <= 8 ? renderOriented(jpeg, orientation) : jpeg;
+};
+
+const decodeHeic = async (file: Blob): Promise<Blob> => {
+  // Safari decodes HEIC natively; elsewhere fall back to libheif compiled to WebAssembly
+  if (await canDecode(file)) return file;
+  const { default: heic2any } = await import('heic2any');
+  const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+  return Array.isArray(result) ? result[0] : result;
+};
+
+const decode = async (file: Blob): Promise<Blob> => {
+  const format = await detectFileFormat(file);
+  if (NATIVE_FORMATS.includes(format) || format === 'unknown') return file;
+  if (FORMAT_INFO[format].video) return captureKeyframe(file);
+  if (format === 'heic') return decodeHeic(file);
+  if (await canDecode(file)) return file;
+  if (format === 'avif') throw new Error("This browser cannot decode AVIF images");
+  return decodeRaw(file, format);
+};
+
+const renditions = new WeakMap<Blob, Promise<Blob>>();
+
+/**
+ * Returns something createImageBitmap and <img> can display: the file itself when the browser
+ * supports its format, otherwise a JPEG rendition (decoded HEIC, a RAW file's embedded preview
+ * or a video frame).
+ * Results are cached per file.
+ */
+export const getDecodableImage = (file: Blob): Promise<Blob> => {
+  let rendition = renditions.get(file);
+  if (!rendition) {
+    rendition = decode(file);
+    renditions.set(file, rendition);
+    // Let a later call retry, e.g. after the heic2any chunk failed to load
+    rendition.catch(() => renditions.delete(file));
+  }
+  return rendition;
+};
@@ -0,0 +1,67 @@
+import { DocumentExtraction, PagePoint, ProviderSettings, ValidationIssue } from '../types';
+import { extractDocument, PROVIDERS } from './analysisProvider';
+import { getDecodableImage } from './decoderService';
+import { DEFAULT_UPLOAD_OPTIONS, prepareUpload } from './imageService';
+import { runInWorker } from './workerPool';
+
+// Where the corners start when no page edges were found, for placing them by hand
+export const DEFAULT_PAGE_CORNERS: PagePoint[] = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.9, y: 0.9 },
+  { x: 0.1, y: 0.9 },
+];
+
+// Long edge of the straightened page; enough for small print at A4
+const SCAN_MAX_EDGE = 2400;
+
+/**
+ * Finds the page in a photo of a document, in the image worker. Resolves to null when no page
+ * edges stand out or the page already fills the frame.
+ */
+export const findPageCorners = async (file: Blob, signal?: AbortSignal): Promise<PagePoint[] | null> =>
+  runInWorker({ type: 'page', source: await getDecodableImage(file) }, { signal });
+
+/**
+ * Renders the page inside the corners as a straightened, contrast-stretched JPEG.
+ */
+export const scanPage = async (file: Blob, corners: PagePoint[], signal?: AbortSignal): Promise<Blob> =>
+  runInWorker({
+    type: 'warp',
+    source: await getDecodableImage(file),
+    corners,
+    maxEdge: SCAN_MAX_EDGE,
+    mimeType: 'image/jpeg',
+    quality: 0.92,
+  }, { signal });
+
+/**
+ * Straightens the page, using the given corners or detected ones. When no page is found the
+ * photo is used as it is, and blob is null.
+ */
+export const scanDocument = async (
+  file: Blob,
+  corners?: PagePoint[],
+  signal?: AbortSignal
+): Promise<{ corners: PagePoint[] | null; blob: Blob | null }> => {
+  const found = corners ?? await findPageCorners(file, signal);
+  return { corners: found, blob: found ? await scanPage(file, found, signal) : null };
+};
+
+/**
+ * The document pass. Pages are always sent with tiles, since small print is the point of it.
+ */
+export const extractDocumentFields = async (
+  source: Blob,
+  settings: ProviderSettings,
+  scanned: boolean,
+  signal?: AbortSignal
+): Promise<{ extraction: DocumentExtraction; issues: ValidationIssue[] }> => {
+  const { payload } = await prepareUpload(
+    source,
+    PROVIDERS[settings.provider],
+    settings.upload ?? DEFAULT_UPLOAD_OPTIONS,
+    { tile: true, signal }
+  );
+  return extractDocument(payload, settings, scanned, signal);
+};
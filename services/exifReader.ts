@@ -0,0 +1,70 @@
+import exifr from 'exifr';
+import { ExifData } from '../types';
+import { isVideoFile } from './formatService';
+import { toIsoTimestamp } from './timestampService';
+import { extractVideoMetadata } from './videoService';
+
+/**
+ * Combines GPSDateStamp ("YYYY:MM:DD") and GPSTimeStamp ([h, m, s]) into an ISO UTC string.
+ */
+const toGpsTimestamp = (dateStamp: unknown, timeStamp: unknown): string | undefined => {
+  if (typeof dateStamp !== 'string' || !Array.isArray(timeStamp) || timeStamp.length !== 3) return undefined;
+  const [year, month, day] = dateStamp.split(/[:-]/).map(Number);
+  const [hours, minutes, seconds] = timeStamp.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, Math.floor(seconds), Math.round((seconds % 1) * 1000)));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Reads EXIF data using the exifr library, or the equivalent atoms of a video.
+ * Resolves to null when the file has no EXIF, rejects when parsing fails.
+ * Uses no DOM APIs, so it runs inside the image worker.
+ */
+export const readExifData = async (file: Blob): Promise<ExifData | null> => {
+  if (await isVideoFile(file)) return extractVideoMetadata(file);
+  try {
+    const output = await exifr.parse(file, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      // Keep dates as the raw strings the camera wrote; exifr would revive them in the viewer's timezone
+      reviveValues: false,
+    });
+
+    if (!output) return null;
+
+    return {
+      make: output.Make,
+      model: output.Model,
+      dateTimeOriginal: toIsoTimestamp(output.DateTimeOriginal, output.SubSecTimeOriginal, output.OffsetTimeOriginal),
+      createDate: toIsoTimestamp(output.CreateDate, output.SubSecTimeDigitized, output.OffsetTimeDigitized),
+      modifyDate: toIsoTimestamp(output.ModifyDate, output.SubSecTime, output.OffsetTime),
+      offsetTimeOriginal: typeof output.OffsetTimeOriginal === 'string' ? output.OffsetTimeOriginal.trim() : undefined,
+      exposureTime: output.ExposureTime,
+      fNumber: output.FNumber,
+      iso: output.ISO,
+      focalLength: output.FocalLength,
+      latitude: output.latitude,
+      longitude: output.longitude,
+      // GPSAltitudeRef 1 means below sea level
+      altitude: typeof output.GPSAltitude === 'number'
+        ? (Number(output.GPSAltitudeRef) === 1 ? -output.GPSAltitude : output.GPSAltitude)
+        : undefined,
+      gpsDirection: output.GPSImgDirection,
+      gpsDirectionRef: output.GPSImgDirectionRef,
+      gpsTimestamp: toGpsTimestamp(output.GPSDateStamp, output.GPSTimeStamp),
+      software: output.Software,
+      artist: output.Artist,
+      ownerName: output.CameraOwnerName ?? output.OwnerName,
+      serialNumber: output.BodySerialNumber ?? output.SerialNumber,
+      lensSerialNumber: output.LensSerialNumber,
+      width: output.ExifImageWidth,
+      height: output.ExifImageHeight,
+    };
+  } catch (error) {
+    // Formats exifr cannot read simply have no EXIF; anything else is a real failure
+    if (error instanceof Error && /Unknown file format/i.test(error.message)) return null;
+    console.error("Failed to extract EXIF", error);
+    throw error;
+  }
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import exifr from 'exifr';
+import { buildExifTiff, toRational } from './exifWriter';
+
+describe('toRational', () => {
+  it.each([
+    [1 / 8000, [1, 8000]],
+    [1 / 3, [1, 3]],
+    [0.004, [1, 250]],
+    [2.8, [14, 5]],
+    [0.3, [3, 10]],
+    [200, [200, 1]],
+    [0, [0, 1]],
+  ])('encodes %f exactly', (value, expected) => {
+    expect(toRational(value)).toEqual(expected);
+  });
+
+  it('stays within uint32 for values without a short fraction', () => {
+    const [numerator, denominator] = toRational(Math.PI);
+    expect(numerator).toBeLessThanOrEqual(0xffffffff);
+    expect(denominator).toBeLessThanOrEqual(0xffffffff);
+    expect(numerator / denominator).toBeCloseTo(Math.PI, 12);
+  });
+});
+
+describe('buildExifTiff', () => {
+  it('writes ISO above 65535 as ISOSpeed', async () => {
+    const tags = await exifr.parse(buildExifTiff({ iso: 102400 }), { translateValues: false });
+    expect(tags.ISO).toBe(65535);
+    expect(tags.SensitivityType).toBe(3);
+    expect(tags.ISOSpeed).toBe(102400);
+  });
+
+  it('carries rounded GPS seconds into the minutes', async () => {
+    // 10° 59' 59.999" rounds to 11° 0' 0"
+    const latitude = 10 + 59 / 60 + 59.999 / 3600;
+    const tags = await exifr.parse(buildExifTiff({ latitude, longitude: 0 }), { gps: true });
+    expect(tags.GPSLatitude).toEqual([11, 0, 0]);
+  });
+});
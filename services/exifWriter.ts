@@ -0,0 +1,317 @@
+import { ExifData, ImageFormat } from '../types';
+import {
+  ascii,
+  concatBytes,
+  EXIF_HEADER,
+  jpegSegment,
+  PNG_SIGNATURE,
+  pngChunk,
+  riffChunk,
+  startsWithAscii,
+} from './metadataStripper';
+import { splitTimestamp } from './timestampService';
+
+// TIFF field types
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array; // big-endian encoded value
+}
+
+const encodeAscii = (tag: number, value: string): IfdEntry => {
+  const data = new TextEncoder().encode(`${value}\0`);
+  return { tag, type: ASCII, count: data.length, data };
+};
+
+const MAX_SHORT = 0xffff;
+const MAX_LONG = 0xffffffff;
+
+// Out-of-range values are clamped rather than wrapped
+const encodeShort = (tag: number, value: number): IfdEntry => {
+  const data = new Uint8Array(2);
+  new DataView(data.buffer).setUint16(0, Math.min(MAX_SHORT, Math.max(0, Math.round(value))));
+  return { tag, type: SHORT, count: 1, data };
+};
+
+const encodeLong = (tag: number, value: number): IfdEntry => {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, Math.min(MAX_LONG, Math.max(0, Math.round(value))));
+  return { tag, type: LONG, count: 1, data };
+};
+
+/**
+ * Converts a non-negative number to the closest fraction that fits an unsigned RATIONAL, e.g.
+ * 1/8000 -> 1/8000, 1/3 -> 1/3, 2.8 -> 14/5. Exposure times like 1/8000 are written as 1/n;
+ * other values use the continued fraction expansion until it is exact or the terms overflow.
+ */
+export const toRational = (value: number): [number, number] => {
+  if (!(value > 0)) return [0, 1];
+  if (value >= MAX_LONG) return [MAX_LONG, 1];
+  if (value < 1) {
+    const reciprocal = Math.round(1 / value);
+    if (Math.abs(1 / reciprocal - value) <= value * 1e-9) return [1, reciprocal];
+  }
+  // Convergents h/k of the continued fraction, starting from h(-1)/k(-1) = 1/0
+  let [h0, h1, k0, k1] = [0, 1, 1, 0];
+  let rest = value;
+  for (;;) {
+    const term = Math.floor(rest);
+    const h = term * h1 + h0;
+    const k = term * k1 + k0;
+    if (h > MAX_LONG || k > MAX_LONG) break;
+    [h0, h1, k0, k1] = [h1, h, k1, k];
+    const fraction = rest - term;
+    if (fraction < 1e-12 || Math.abs(h / k - value) <= value * 1e-15) break;
+    rest = 1 / fraction;
+  }
+  return [h1, k1];
+};
+
+const encodeRationals = (tag: number, values: number[]): IfdEntry => {
+  const data = new Uint8Array(values.length * 8);
+  const view = new DataView(data.buffer);
+  values.forEach((value, i) => {
+    const [numerator, denominator] = toRational(value);
+    view.setUint32(i * 8, numerator);
+    view.setUint32(i * 8 + 4, denominator);
+  });
+  return { tag, type: RATIONAL, count: values.length, data };
+};
+
+// Rounds to hundredths of a second first, so 59.999 s carries into the minutes instead of becoming 60
+const toDms = (decimal: number): number[] => {
+  const hundredths = Math.round(Math.abs(decimal) * 360000);
+  const degrees = Math.floor(hundredths / 360000);
+  const minutes = Math.floor((hundredths % 360000) / 6000);
+  return [degrees, minutes, (hundredths % 6000) / 100];
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/**
+ * Formats a date in the EXIF "YYYY:MM:DD HH:MM:SS" wall-clock form.
+ */
+export const formatExifDateTime = (date: Date): string =>
+  `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+/**
+ * Parses the EXIF date form, an ISO timestamp or anything the Date constructor accepts.
+ * EXIF and ISO timestamps keep their wall-clock time; any UTC offset is ignored.
+ */
+export const parseExifDateTime = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  const date = match
+    ? new Date(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6])
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const ifdSize = (entries: IfdEntry[]): number =>
+  2 + entries.length * 12 + 4 +
+  entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length % 2) : 0), 0);
+
+const writeIfd = (view: DataView, bytes: Uint8Array, offset: number, entries: IfdEntry[]) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+  view.setUint16(offset, sorted.length);
+  sorted.forEach((entry, i) => {
+    const pos = offset + 2 + i * 12;
+    view.setUint16(pos, entry.tag);
+    view.setUint16(pos + 2, entry.type);
+    view.setUint32(pos + 4, entry.count);
+    if (entry.data.length <= 4) {
+      bytes.set(entry.data, pos + 8);
+    } else {
+      view.setUint32(pos + 8, dataOffset);
+      bytes.set(entry.data, dataOffset);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0); // no next IFD
+};
+
+/**
+ * Encodes a timestamp as its date tag plus the SubSecTime and OffsetTime tags that belong to it.
+ */
+const encodeTimestamp = (value: string, [dateTag, subSecTag, offsetTag]: [number, number, number]): IfdEntry[] => {
+  const parts = splitTimestamp(value);
+  if (!parts) {
+    // Values saved before timestamps were structured
+    const date = parseExifDateTime(value);
+    return date ? [encodeAscii(dateTag, formatExifDateTime(date))] : [];
+  }
+  const entries = [encodeAscii(dateTag, parts.dateTime)];
+  if (parts.subSec) entries.push(encodeAscii(subSecTag, parts.subSec));
+  if (parts.offset) entries.push(encodeAscii(offsetTag, parts.offset));
+  return entries;
+};
+
+/**
+ * Serializes the fields of an ExifData record into a big-endian TIFF block
+ * with IFD0, an Exif sub-IFD and a GPS sub-IFD. Fields that are undefined are omitted.
+ */
+export const buildExifTiff = (exif: ExifData, orientation?: number): Uint8Array => {
+  const ifd0: IfdEntry[] = [];
+  const exifIfd: IfdEntry[] = [];
+  const gpsIfd: IfdEntry[] = [];
+
+  if (exif.make) ifd0.push(encodeAscii(0x010f, exif.make));
+  if (exif.model) ifd0.push(encodeAscii(0x0110, exif.model));
+  if (orientation) ifd0.push(encodeShort(0x0112, orientation));
+  if (exif.software) ifd0.push(encodeAscii(0x0131, exif.software));
+  if (exif.artist) ifd0.push(encodeAscii(0x013b, exif.artist));
+  if (exif.modifyDate) {
+    // ModifyDate lives in IFD0, its sub-second and offset tags in the Exif IFD
+    const [date, ...rest] = encodeTimestamp(exif.modifyDate, [0x0132, 0x9290, 0x9010]);
+    if (date) ifd0.push(date);
+    exifIfd.push(...rest);
+  }
+
+  if (exif.exposureTime !== undefined) exifIfd.push(encodeRationals(0x829a, [exif.exposureTime]));
+  if (exif.fNumber !== undefined) exifIfd.push(encodeRationals(0x829d, [exif.fNumber]));
+  if (exif.iso !== undefined) {
+    // ISOSpeedRatings is a SHORT; beyond it the value goes into ISOSpeed, flagged by SensitivityType 3
+    exifIfd.push(encodeShort(0x8827, exif.iso));
+    if (exif.iso > MAX_SHORT) exifIfd.push(encodeShort(0x8830, 3), encodeLong(0x8833, exif.iso));
+  }
+  if (exif.dateTimeOriginal) exifIfd.push(...encodeTimestamp(exif.dateTimeOriginal, [0x9003, 0x9291, 0x9011]));
+  if (exif.createDate) exifIfd.push(...encodeTimestamp(exif.createDate, [0x9004, 0x9292, 0x9012]));
+  if (exif.focalLength !== undefined) exifIfd.push(encodeRationals(0x920a, [exif.focalLength]));
+  if (exif.width !== undefined) exifIfd.push(encodeLong(0xa002, exif.width));
+  if (exif.height !== undefined) exifIfd.push(encodeLong(0xa003, exif.height));
+  if (exif.ownerName) exifIfd.push(encodeAscii(0xa430, exif.ownerName));
+  if (exif.serialNumber) exifIfd.push(encodeAscii(0xa431, exif.serialNumber));
+  if (exif.lensSerialNumber) exifIfd.push(encodeAscii(0xa435, exif.lensSerialNumber));
+
+  // A GPS position is only meaningful with both coordinates
+  if (exif.latitude !== undefined && exif.longitude !== undefined) {
+    gpsIfd.push(encodeAscii(0x0001, exif.latitude >= 0 ? 'N' : 'S'));
+    gpsIfd.push(encodeRationals(0x0002, toDms(exif.latitude)));
+    gpsIfd.push(encodeAscii(0x0003, exif.longitude >= 0 ? 'E' : 'W'));
+    gpsIfd.push(encodeRationals(0x0004, toDms(exif.longitude)));
+  }
+  if (exif.altitude !== undefined) {
+    gpsIfd.push({ tag: 0x0005, type: BYTE, count: 1, data: new Uint8Array([exif.altitude < 0 ? 1 : 0]) });
+    gpsIfd.push(encodeRationals(0x0006, [Math.abs(exif.altitude)]));
+  }
+  const gpsTime = exif.gpsTimestamp ? new Date(exif.gpsTimestamp) : null;
+  if (gpsTime && !isNaN(gpsTime.getTime())) {
+    gpsIfd.push(encodeRationals(0x0007, [
+      gpsTime.getUTCHours(),
+      gpsTime.getUTCMinutes(),
+      gpsTime.getUTCSeconds() + gpsTime.getUTCMilliseconds() / 1000,
+    ]));
+    gpsIfd.push(encodeAscii(0x001d, gpsTime.toISOString().slice(0, 10).replace(/-/g, ':')));
+  }
+  if (exif.gpsDirection !== undefined) {
+    gpsIfd.push(encodeAscii(0x0010, exif.gpsDirectionRef === 'M' ? 'M' : 'T'));
+    gpsIfd.push(encodeRationals(0x0011, [((exif.gpsDirection % 360) + 360) % 360]));
+  }
+  if (gpsIfd.length > 0) {
+    gpsIfd.push({ tag: 0x0000, type: BYTE, count: 4, data: new Uint8Array([2, 3, 0, 0]) });
+  }
+
+  // Sub-IFD pointers have a fixed size, so the layout can be computed before their values are known
+  const exifPointer = exifIfd.length > 0 ? encodeLong(0x8769, 0) : null;
+  const gpsPointer = gpsIfd.length > 0 ? encodeLong(0x8825, 0) : null;
+  if (exifPointer) ifd0.push(exifPointer);
+  if (gpsPointer) ifd0.push(gpsPointer);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (exifPointer ? ifdSize(exifIfd) : 0);
+  const total = gpsOffset + (gpsPointer ? ifdSize(gpsIfd) : 0);
+
+  if (exifPointer) new DataView(exifPointer.data.buffer).setUint32(0, exifOffset);
+  if (gpsPointer) new DataView(gpsPointer.data.buffer).setUint32(0, gpsOffset);
+
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x4d, 0x4d, 0x00, 0x2a]); // 'MM', 42
+  view.setUint32(4, ifd0Offset);
+  writeIfd(view, bytes, ifd0Offset, ifd0);
+  if (exifPointer) writeIfd(view, bytes, exifOffset, exifIfd);
+  if (gpsPointer) writeIfd(view, bytes, gpsOffset, gpsIfd);
+  return bytes;
+};
+
+// --- Container embedding ---
+
+const embedJpeg = (bytes: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  const segment = jpegSegment(0xe1, concatBytes([new TextEncoder().encode(EXIF_HEADER), tiff]));
+  // Keep a leading JFIF APP0 first, as the JFIF spec requires
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+const embedPng = (bytes: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  // eXIf must precede IDAT; right after the 25-byte IHDR chunk is always valid
+  const insertAt = 8 + 25;
+  return concatBytes([bytes.subarray(0, insertAt), pngChunk('eXIf', tiff), bytes.subarray(insertAt)]);
+};
+
+// Reads the canvas size from a simple-format VP8 or VP8L bitstream
+const readWebpCanvas = (fourCC: string, data: Uint8Array): { width: number; height: number; alpha: boolean } => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (fourCC === 'VP8 ') {
+    return { width: view.getUint16(6, true) & 0x3fff, height: view.getUint16(8, true) & 0x3fff, alpha: false };
+  }
+  if (fourCC === 'VP8L') {
+    const bits = view.getUint32(1, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, alpha: ((bits >> 28) & 1) === 1 };
+  }
+  throw new Error(`Unsupported WebP chunk ${fourCC}`);
+};
+
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+
+const embedWebp = (bytes: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  let body: Uint8Array = bytes.slice(12);
+  const firstChunk = ascii(body, 0, 4);
+
+  // EXIF requires the extended format, so upgrade simple files with a VP8X header
+  if (firstChunk !== 'VP8X') {
+    const size = new DataView(body.buffer).getUint32(4, true);
+    const canvas = readWebpCanvas(firstChunk, body.subarray(8, 8 + size));
+    const vp8x = new Uint8Array(10);
+    const view = new DataView(vp8x.buffer);
+    vp8x[0] = canvas.alpha ? VP8X_ALPHA : 0;
+    view.setUint16(4, (canvas.width - 1) & 0xffff, true);
+    vp8x[6] = ((canvas.width - 1) >> 16) & 0xff;
+    view.setUint16(7, (canvas.height - 1) & 0xffff, true);
+    vp8x[9] = ((canvas.height - 1) >> 16) & 0xff;
+    body = concatBytes([riffChunk('VP8X', vp8x), body]);
+  }
+
+  body[8] |= VP8X_EXIF;
+  // The container spec places EXIF after the image data
+  const out = concatBytes([bytes.subarray(0, 12), body, riffChunk('EXIF', tiff)]);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+};
+
+// Formats embedExif can write to; other files can only be stripped completely
+export const EXIF_WRITABLE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+
+/**
+ * Inserts a TIFF block as the EXIF segment of a JPEG, PNG or WebP.
+ * The input must not already contain EXIF, so strip it first.
+ */
+export const embedExif = (bytes: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return embedJpeg(bytes, tiff);
+  if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return embedPng(bytes, tiff);
+  if (startsWithAscii(bytes, 0, 'RIFF') && startsWithAscii(bytes, 8, 'WEBP')) return embedWebp(bytes, tiff);
+  throw new Error("Writing EXIF is only supported for JPEG, PNG and WebP");
+};
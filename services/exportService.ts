@@ -0,0 +1,212 @@
+import { DocumentExtraction, ExifData, ExportRecord, ProcessedImage } from '../types';
+import { sha256Hex } from './hashService';
+import { createThumbnail } from './imageService';
+import { reverseGeocode } from './geocodingService';
+import { formatCustomValue } from './profileService';
+
+export const EXIF_COLUMNS: (keyof ExifData)[] = [
+  'make', 'model', 'dateTimeOriginal', 'createDate', 'modifyDate', 'offsetTimeOriginal', 'exposureTime', 'fNumber', 'iso',
+  'focalLength', 'latitude', 'longitude', 'altitude', 'gpsDirection', 'gpsDirectionRef', 'gpsTimestamp',
+  'software', 'artist', 'ownerName', 'serialNumber', 'lensSerialNumber', 'width', 'height', 'duration', 'videoCodec',
+];
+
+// Edge length of the preview embedded in the HTML report
+const REPORT_PREVIEW_EDGE = 1024;
+
+/**
+ * Collects what we export for each image. History entries carry the hash of the original file,
+ * because their `file` is only the stored thumbnail.
+ */
+export const buildExportRecords = (images: ProcessedImage[]): Promise<ExportRecord[]> =>
+  Promise.all(images.map(async image => ({
+    fileName: image.file.name,
+    fileType: image.file.type,
+    fileSize: image.fromHistory ? undefined : image.file.size,
+    sha256: image.fileHash ?? await sha256Hex(image.file),
+    exif: image.exif,
+    aiAnalysis: image.aiAnalysis,
+    ocr: image.ocr && {
+      text: image.ocr.text,
+      confidence: image.ocr.confidence,
+      language: image.ocr.language,
+      width: image.ocr.width,
+      height: image.ocr.height,
+    },
+    place: image.place !== undefined || image.exif?.latitude === undefined || image.exif.longitude === undefined
+      ? image.place
+      : await reverseGeocode(image.exif.latitude, image.exif.longitude),
+    forensics: image.forensics?.checks,
+    redactions: image.redactions,
+    document: image.document?.extraction ?? undefined,
+  })));
+
+export const toJsonExport = (records: ExportRecord[]): Blob =>
+  new Blob([JSON.stringify(records.length === 1 ? records[0] : records, null, 2)], { type: 'application/json' });
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  let text = Array.isArray(value) ? value.join('; ') : String(value);
+  // Spreadsheet apps execute cells that start with these characters as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per image, with EXIF and analysis fields flattened into columns. Profile fields get a
+ * `custom.<key>` column each, across all profiles in the export.
+ */
+export const toCsvExport = (records: ExportRecord[]): Blob => {
+  const customKeys = [...new Set(records.flatMap(record => record.aiAnalysis?.customFields?.map(field => field.key) ?? []))];
+  const header = [
+    'fileName', 'fileType', 'fileSize', 'sha256', ...EXIF_COLUMNS,
+    'sceneType', 'imageCategory', 'peopleCount', 'objects', 'dominantColors', 'faceEmotion', 'isSafe',
+    'authenticity.isLikelyEdited', 'authenticity.score', 'authenticity.reason', 'ocrText',
+    'ocr.text', 'ocr.confidence', 'ocr.language', 'place.city', 'place.country',
+    'profile', ...customKeys.map(key => `custom.${key}`), 'document.type',
+  ];
+  const rows = records.map(({ fileName, fileType, fileSize, sha256, exif, aiAnalysis: ai, ocr, place, document }) => [
+    fileName, fileType, fileSize, sha256, ...EXIF_COLUMNS.map(column => exif?.[column]),
+    ai?.sceneType, ai?.imageCategory, ai?.peopleCount, ai?.objects, ai?.dominantColors, ai?.faceEmotion, ai?.isSafe,
+    ai?.authenticity.isLikelyEdited, ai?.authenticity.score, ai?.authenticity.reason, ai?.ocrText,
+    ocr?.text, ocr?.confidence, ocr?.language, place?.city, place?.country,
+    ai?.profile?.name, ...customKeys.map(key => ai?.customFields?.find(field => field.key === key)?.value),
+    document?.documentType,
+  ]);
+  const csv = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+  return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+};
+
+export const toDocumentJsonExport = (extraction: DocumentExtraction): Blob =>
+  new Blob([JSON.stringify(extraction, null, 2)], { type: 'application/json' });
+
+/**
+ * A document's key-value pairs, tables and entities as sections of one CSV, separated by an
+ * empty row. Each table starts with its title, then its header row.
+ */
+export const toDocumentCsvExport = (extraction: DocumentExtraction): Blob => {
+  const sections: unknown[][][] = [
+    [['Field', 'Value'], ...extraction.keyValues.map(pair => [pair.key, pair.value])],
+    ...extraction.tables.map(table => [[table.title], table.headers, ...table.rows]),
+    [['Entity', 'Text', 'Normalized'], ...extraction.entities.map(entity => [entity.kind, entity.text, entity.normalized])],
+  ];
+  const csv = sections.map(rows => rows.map(row => row.map(csvCell).join(',')).join('\r\n')).join('\r\n\r\n');
+  return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+};
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '').replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const renderDocument = (document: DocumentExtraction): string => `
+  <h3>Document: ${escapeHtml(document.documentType)}</h3>
+  ${document.keyValues.length > 0 ? `<table>${document.keyValues.map(pair => `<tr><th>${escapeHtml(pair.key)}</th><td>${escapeHtml(pair.value)}</td></tr>`).join('')}</table>` : ''}
+  ${document.tables.map(table => `${table.title ? `<p>${escapeHtml(table.title)}</p>` : ''}
+  <table class="grid"><tr>${table.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr>${table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</table>`).join('')}
+  ${document.entities.length > 0 ? `<table>${document.entities.map(entity => `<tr><th>${escapeHtml(entity.kind)}</th><td>${escapeHtml(entity.text)}${entity.normalized && entity.normalized !== entity.text ? ` <span class="mono">(${escapeHtml(entity.normalized)})</span>` : ''}</td></tr>`).join('')}</table>` : ''}`;
+
+const renderRecord = (record: ExportRecord, previewDataUrl: string | null): string => {
+  const { exif, aiAnalysis: ai, ocr, place, forensics, document } = record;
+  const exifRows = exif
+    ? Object.entries(exif).map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`).join('')
+    : '<tr><td colspan="2"><em>No EXIF data found.</em></td></tr>';
+  const forensicRows = (forensics ?? [])
+    .map(check => `<tr><th>${escapeHtml(check.label)}</th><td><b>${escapeHtml(check.verdict)}</b> ${escapeHtml(check.detail)}</td></tr>`)
+    .join('');
+
+  return `
+<section>
+  <h2>${escapeHtml(record.fileName)}</h2>
+  <table>
+    <tr><th>SHA-256</th><td class="mono">${escapeHtml(record.sha256)}</td></tr>
+    <tr><th>Type</th><td>${escapeHtml(record.fileType)}</td></tr>
+    ${record.fileSize !== undefined ? `<tr><th>Size</th><td>${record.fileSize.toLocaleString()} bytes</td></tr>` : ''}
+  </table>
+  ${previewDataUrl ? `<img class="preview" src="${previewDataUrl}" alt="Preview">` : '<p><em>Preview unavailable.</em></p>'}
+  <h3>EXIF</h3>
+  <table>${exifRows}</table>
+  ${place ? `<p>Nearest city: ${escapeHtml(place.city)}, ${escapeHtml(place.country)} (${place.distanceKm} km, offline gazetteer)</p>` : ''}
+  <h3>Findings</h3>
+  ${ai ? `
+  <table>
+    <tr><th>Content safety</th><td>${ai.isSafe ? 'Safe' : 'NSFW / Unsafe'}</td></tr>
+    <tr><th>Model editing opinion</th><td>${ai.authenticity.isLikelyEdited ? 'Edited' : 'Original'} (score ${escapeHtml(ai.authenticity.score)}, unverified)</td></tr>
+    <tr><th>Model reasoning</th><td>${escapeHtml(ai.authenticity.reason)}</td></tr>
+    <tr><th>Scene</th><td>${escapeHtml(ai.sceneType)} / ${escapeHtml(ai.imageCategory)}</td></tr>
+    <tr><th>Objects</th><td>${escapeHtml(ai.objects.join(', '))}</td></tr>
+    <tr><th>People</th><td>${escapeHtml(ai.peopleCount)}</td></tr>
+  </table>` : '<p><em>No AI analysis available.</em></p>'}
+  ${ai?.customFields ? `<h3>${escapeHtml(ai.profile?.name)} fields</h3>
+  <table>${ai.customFields.map(field => `<tr><th>${escapeHtml(field.label)}</th><td>${field.value === null ? '<em>Not found</em>' : escapeHtml(formatCustomValue(field.value))}</td></tr>`).join('')}</table>` : ''}
+  ${forensicRows ? `<h3>Local forensic checks</h3><table>${forensicRows}</table>` : ''}
+  <h3>OCR text</h3>
+  ${ocr ? `<p>Local OCR${ocr.language ? ` (${escapeHtml(ocr.language)})` : ''}, ${Math.round(ocr.confidence)}% confidence</p>` : ''}
+  ${ocr?.text ? `<pre>${escapeHtml(ocr.text)}</pre>` : '<p><em>No text detected locally.</em></p>'}
+  ${ai?.ocrText ? `<p>Model's reading (second opinion)</p><pre>${escapeHtml(ai.ocrText)}</pre>` : ''}
+  ${document ? renderDocument(document) : ''}
+</section>`;
+};
+
+/**
+ * A self-contained HTML report: the preview is inlined, so the file can be attached as-is
+ * or printed to PDF.
+ */
+export const toHtmlReport = async (images: ProcessedImage[], records: ExportRecord[]): Promise<Blob> => {
+  const sections = await Promise.all(records.map(async (record, i) => {
+    const preview = await createThumbnail(images[i].file, REPORT_PREVIEW_EDGE)
+      .then(blobToDataUrl)
+      .catch(() => null);
+    return renderRecord(record, preview);
+  }));
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Metadata Report</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+  section { page-break-after: always; border-top: 2px solid #e2e8f0; padding-top: 1rem; }
+  section:last-child { page-break-after: auto; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; font-size: 0.875rem; }
+  th, td { text-align: left; vertical-align: top; padding: 0.25rem 0.5rem; border-bottom: 1px solid #e2e8f0; }
+  th { width: 30%; color: #475569; }
+  table.grid th { width: auto; }
+  .mono, pre { font-family: ui-monospace, monospace; word-break: break-all; }
+  pre { white-space: pre-wrap; background: #f8fafc; padding: 0.75rem; }
+  .preview { max-width: 100%; max-height: 480px; display: block; margin: 1rem 0; }
+</style>
+</head>
+<body>
+<h1>Metadata Report</h1>
+<p>Generated ${escapeHtml(new Date().toISOString())} · ${records.length} image(s)</p>
+${sections.join('\n')}
+</body>
+</html>`;
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
+
+/**
+ * Opens the browser's print dialog for a report, which also offers "Save as PDF".
+ */
+export const printReport = async (report: Blob): Promise<void> => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  iframe.srcdoc = await report.text();
+  iframe.onload = () => {
+    const frameWindow = iframe.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.onafterprint = () => iframe.remove();
+    frameWindow.print();
+  };
+  document.body.appendChild(iframe);
+};
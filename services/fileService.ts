@@ -0,0 +1,71 @@
+import { EXTRA_IMAGE_EXTENSIONS, VIDEO_EXTENSIONS, VIDEO_MIME_TYPES } from './formatService';
+
+const hasExtension = (file: File, extensions: string[]): boolean =>
+  extensions.some(ext => file.name.toLowerCase().endsWith(ext));
+
+/**
+ * Returns true for files the pipeline knows how to process: images, and MP4/QuickTime videos.
+ */
+export const isSupportedImage = (file: File): boolean =>
+  file.type.startsWith('image/') || VIDEO_MIME_TYPES.includes(file.type) ||
+  hasExtension(file, [...EXTRA_IMAGE_EXTENSIONS, ...VIDEO_EXTENSIONS]);
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryBatch = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+/**
+ * Recursively walks a dropped file or directory entry.
+ * readEntries() returns results in batches, so we keep reading until it returns an empty list.
+ */
+const walkEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await readEntryFile(entry as FileSystemFileEntry)];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    let batch = await readDirectoryBatch(reader);
+    while (batch.length > 0) {
+      for (const child of batch) {
+        files.push(...(await walkEntry(child)));
+      }
+      batch = await readDirectoryBatch(reader);
+    }
+    return files;
+  }
+  return [];
+};
+
+/**
+ * Collects every supported image from a drop, including files inside dropped folders.
+ * Entries must be grabbed synchronously, before the drop event handler yields.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // Browsers without the entries API only expose the flat file list
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(walkEntry))).flat()
+    : Array.from(dataTransfer.files);
+
+  return files.filter(isSupportedImage);
+};
+
+/**
+ * Triggers a browser download for a blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,293 @@
+import exifr from 'exifr';
+import { ExifData, ForensicCheck, ForensicsReport, QuantizationInfo } from '../types';
+import { checkTimestamps } from './timestampService';
+import { runInWorker } from './workerPool';
+
+// --- Quantization tables ---
+
+// Maps zigzag position to natural (row-major) position in the 8x8 block
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// JPEG Annex K tables, as scaled by libjpeg's quality setting
+const STANDARD_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const STANDARD_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array(32).fill(99),
+];
+
+const scaleTable = (table: number[], quality: number): number[] => {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  return table.map(v => Math.min(255, Math.max(1, Math.floor((v * scale + 50) / 100))));
+};
+
+const fnv1a = (values: number[]): string => {
+  let hash = 0x811c9dc5;
+  for (const v of values) {
+    hash ^= v & 0xff;
+    hash = Math.imul(hash, 0x01000193);
+    hash ^= v >> 8;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// The quantization tables precede the first scan; APP segments before them are at most 64 KB each
+const HEADER_BYTES = 1024 * 1024;
+
+/**
+ * Reads all DQT tables from a JPEG, in natural order, indexed by table id. The bytes may be only
+ * the start of the file: a segment cut off at the end is ignored.
+ */
+export const readQuantizationTables = (bytes: Uint8Array): number[][] => {
+  const tables: number[][] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (offset + 2 + length > bytes.length) break;
+    if (marker === 0xdb) {
+      let pos = offset + 4;
+      const end = offset + 2 + length;
+      while (pos < end) {
+        const precision = bytes[pos] >> 4;
+        const id = bytes[pos] & 0x0f;
+        pos++;
+        const table = new Array(64);
+        for (let i = 0; i < 64; i++) {
+          table[ZIGZAG[i]] = precision ? (bytes[pos + i * 2] << 8) | bytes[pos + i * 2 + 1] : bytes[pos + i];
+        }
+        pos += precision ? 128 : 64;
+        tables[id] = table;
+      }
+    }
+    offset += 2 + length;
+  }
+  return tables.filter(Boolean);
+};
+
+/**
+ * Estimates the IJG quality of a JPEG's tables and checks whether they are the
+ * stock libjpeg tables (typical of software encoders rather than cameras).
+ */
+export const analyzeQuantization = (tables: number[][]): QuantizationInfo | undefined => {
+  if (tables.length === 0) return undefined;
+  const luminance = tables[0];
+  const meanScale = luminance.reduce((sum, v, i) => sum + (v * 100) / STANDARD_LUMINANCE[i], 0) / 64;
+  const raw = meanScale <= 100 ? (200 - meanScale) / 2 : 5000 / meanScale;
+  const estimate = Math.min(100, Math.max(1, Math.round(raw)));
+
+  // The mean-scale estimate can be off by a step or two due to rounding, so search nearby qualities
+  const matchesQuality = (quality: number) => {
+    const expected = [scaleTable(STANDARD_LUMINANCE, quality), scaleTable(STANDARD_CHROMINANCE, quality)];
+    return tables.slice(0, 2).every((table, i) => table.every((v, j) => v === expected[i][j]));
+  };
+  const exact = [0, -1, 1, -2, 2, -3, 3]
+    .map(delta => estimate + delta)
+    .find(quality => quality >= 1 && quality <= 100 && matchesQuality(quality));
+
+  return {
+    tables,
+    estimatedQuality: exact ?? estimate,
+    isStandard: exact !== undefined,
+    fingerprint: fnv1a(tables.flat()),
+  };
+};
+
+// --- Pixel analysis ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+// Local minima that are clearly deeper than their neighbours
+const findGhostQualities = (curve: { quality: number; error: number }[]): number[] => {
+  const errors = curve.map(p => p.error);
+  const range = Math.max(...errors) - Math.min(...errors) || 1;
+  return curve
+    .filter((p, i) => i > 0 && i < curve.length - 1 &&
+      p.error < curve[i - 1].error && p.error < curve[i + 1].error &&
+      Math.min(curve[i - 1].error, curve[i + 1].error) - p.error > range * 0.05)
+    .map(p => p.quality);
+};
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Downsamples to a tiny grayscale grid for coarse visual comparison
+const grayscaleGrid = (bitmap: ImageBitmap, region: Region = { x: 0, y: 0, width: bitmap.width, height: bitmap.height }, size = 16): number[] => {
+  const { ctx } = createCanvas(size, size);
+  ctx.drawImage(bitmap, region.x, region.y, region.width, region.height, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const grid = [];
+  for (let i = 0; i < data.length; i += 4) {
+    grid.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+  return grid;
+};
+
+const LETTERBOX_LUMA = 24;
+
+/**
+ * Finds the picture inside a thumbnail by trimming the black bars that cameras add
+ * when the sensor's aspect ratio differs from the thumbnail's, e.g. a 3:2 frame in a 4:3 thumbnail.
+ */
+const trimLetterbox = (bitmap: ImageBitmap): Region => {
+  const { width, height } = bitmap;
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(bitmap, 0, 0);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const isDark = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] < LETTERBOX_LUMA;
+  };
+  const darkRow = (y: number) => { for (let x = 0; x < width; x++) if (!isDark(x, y)) return false; return true; };
+  const darkColumn = (x: number) => { for (let y = 0; y < height; y++) if (!isDark(x, y)) return false; return true; };
+
+  let top = 0, bottom = height, left = 0, right = width;
+  while (top < bottom - 1 && darkRow(top)) top++;
+  while (bottom - 1 > top && darkRow(bottom - 1)) bottom--;
+  while (left < right - 1 && darkColumn(left)) left++;
+  while (right - 1 > left && darkColumn(right - 1)) right--;
+  // An entirely dark thumbnail has no bars to trim
+  if (bottom - top <= 1 || right - left <= 1) return { x: 0, y: 0, width, height };
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// --- Checks ---
+
+const EDITING_SOFTWARE = /photoshop|gimp|lightroom|snapseed|picsart|affinity|pixelmator|paint\.net|canva|facetune|meitu|luminar|capture one/i;
+
+const asText = (value: unknown): string | undefined => (typeof value === 'string' && value.trim() ? value : undefined);
+
+const softwareChecks = (meta: Record<string, unknown> | undefined, quantization?: QuantizationInfo): ForensicCheck[] => {
+  const checks: ForensicCheck[] = [];
+  const software = asText(meta?.Software) ?? asText(meta?.CreatorTool);
+  const make = asText(meta?.Make);
+
+  if (software && EDITING_SOFTWARE.test(software)) {
+    checks.push({ id: 'software', label: 'Editing software', verdict: 'warn', detail: `Saved by "${software}".` });
+  } else {
+    checks.push({
+      id: 'software',
+      label: 'Editing software',
+      verdict: 'pass',
+      detail: software ? `"${software}" is not a known photo editor.` : 'No software tag present.',
+    });
+  }
+
+  if (quantization && make) {
+    checks.push(quantization.isStandard
+      ? {
+          id: 'encoder',
+          label: 'Encoder signature',
+          verdict: 'warn',
+          detail: `EXIF claims a ${make} camera, but the quantization tables are stock libjpeg tables at quality ~${quantization.estimatedQuality}. The file was likely re-encoded by software.`,
+        }
+      : {
+          id: 'encoder',
+          label: 'Encoder signature',
+          verdict: 'pass',
+          detail: `Custom quantization tables (fingerprint ${quantization.fingerprint}), consistent with an in-camera encoder.`,
+        });
+  }
+
+  return checks;
+};
+
+/**
+ * Runs all deterministic, offline forensic checks on an image; videos are not supported.
+ * Pixel-based checks (ELA, ghosts, thumbnail) only run for JPEG, and ELA downscales very large images.
+ */
+export const runForensics = async (file: File, exif: ExifData | null): Promise<ForensicsReport> => {
+  const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8;
+  const quantization = isJpeg ? analyzeQuantization(readQuantizationTables(bytes)) : undefined;
+  const meta: Record<string, unknown> | undefined = await exifr.parse(file, {
+    pick: ['Make', 'Software', 'CreatorTool'],
+    xmp: true,
+  }).catch(() => undefined);
+
+  const report: ForensicsReport = {
+    quantization,
+    checks: [...softwareChecks(meta, quantization), ...(exif ? checkTimestamps(exif, file.lastModified) : [])],
+  };
+
+  if (!isJpeg) {
+    report.checks.push({ id: 'pixels', label: 'Pixel analysis', verdict: 'info', detail: 'ELA and JPEG ghost analysis only apply to JPEG files.' });
+    return report;
+  }
+  if (!meta) {
+    report.checks.push({ id: 'exif', label: 'EXIF presence', verdict: 'info', detail: 'No EXIF data. Messaging apps and editors often strip it on export.' });
+  }
+
+  // Recompressing the full image takes seconds, so it runs in the worker pool
+  const [ela, ghostCurve] = await Promise.all([
+    runInWorker({ type: 'ela', source: file }),
+    runInWorker({ type: 'ghost', source: file }),
+  ]);
+  report.elaHeatmapUrl = URL.createObjectURL(ela.heatmap);
+  report.elaMeanError = ela.meanError;
+  if (ela.scale < 1) {
+    report.checks.push({ id: 'pixels', label: 'Pixel analysis', verdict: 'info', detail: `ELA ran at ${Math.round(ela.scale * 100)}% of the original size, so very small edits may not show.` });
+  }
+
+  report.ghostCurve = ghostCurve;
+  const ghosts = findGhostQualities(report.ghostCurve)
+    .filter(q => !quantization || q < quantization.estimatedQuality - 5);
+  report.checks.push(ghosts.length > 0
+    ? { id: 'double-compression', label: 'Double compression', verdict: 'warn', detail: `Recompression error dips at quality ${ghosts.join(', ')}, below the current quality. The image was likely saved as JPEG more than once.` }
+    : { id: 'double-compression', label: 'Double compression', verdict: 'pass', detail: 'No earlier compression quality detected.' });
+
+  const thumbnail = await exifr.thumbnail(file).catch(() => undefined);
+  if (thumbnail) {
+    const thumbBitmap = await createImageBitmap(new Blob([thumbnail as BlobPart], { type: 'image/jpeg' }), { imageOrientation: 'none' });
+    const mainBitmap = await createImageBitmap(file, { imageOrientation: 'none' });
+    const picture = trimLetterbox(thumbBitmap);
+    const aspectDelta = Math.abs(picture.width / picture.height - mainBitmap.width / mainBitmap.height);
+    const a = grayscaleGrid(thumbBitmap, picture);
+    const b = grayscaleGrid(mainBitmap);
+    thumbBitmap.close();
+    mainBitmap.close();
+    const difference = a.reduce((sum, v, i) => sum + Math.abs(v - b[i]), 0) / a.length;
+    report.thumbnailDifference = difference;
+    report.checks.push({
+      id: 'thumbnail',
+      label: 'Thumbnail match',
+      // Some cameras scale their thumbnails without keeping the aspect ratio, so a mismatch alone is not a fail
+      verdict: difference > 40 ? 'fail' : aspectDelta > 0.05 || difference > 20 ? 'warn' : 'pass',
+      detail: aspectDelta > 0.05
+        ? `Thumbnail has a different aspect ratio than the image (mean difference ${difference.toFixed(1)} / 255), which may mean it was cropped after capture.`
+        : `Mean difference ${difference.toFixed(1)} / 255 between thumbnail and image.`,
+    });
+  }
+
+  return report;
+};
@@ -0,0 +1,90 @@
+import { ImageFormat } from '../types';
+import { ascii, heifMimeType } from './metadataStripper';
+import { getString, readTiff } from './tiffReader';
+
+interface FormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  raw?: boolean; // camera RAW: only the embedded preview can be displayed
+  video?: boolean; // shown and analyzed through a single captured frame
+}
+
+export const FORMAT_INFO: Record<ImageFormat, FormatInfo> = {
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png' },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+  gif: { label: 'GIF', mimeType: 'image/gif', extension: 'gif' },
+  bmp: { label: 'BMP', mimeType: 'image/bmp', extension: 'bmp' },
+  heic: { label: 'HEIC', mimeType: 'image/heic', extension: 'heic' },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif' },
+  tiff: { label: 'TIFF', mimeType: 'image/tiff', extension: 'tif' },
+  cr2: { label: 'Canon RAW (CR2)', mimeType: 'image/x-canon-cr2', extension: 'cr2', raw: true },
+  nef: { label: 'Nikon RAW (NEF)', mimeType: 'image/x-nikon-nef', extension: 'nef', raw: true },
+  arw: { label: 'Sony RAW (ARW)', mimeType: 'image/x-sony-arw', extension: 'arw', raw: true },
+  dng: { label: 'Adobe DNG', mimeType: 'image/x-adobe-dng', extension: 'dng', raw: true },
+  mp4: { label: 'MP4 video', mimeType: 'video/mp4', extension: 'mp4', video: true },
+  mov: { label: 'QuickTime video', mimeType: 'video/quicktime', extension: 'mov', video: true },
+  unknown: { label: 'Unknown', mimeType: 'application/octet-stream', extension: 'bin' },
+};
+
+// Browsers often report an empty or generic type for these, so the file picker and drop
+// handler also accept them by extension
+export const EXTRA_IMAGE_EXTENSIONS = ['.heic', '.heif', '.avif', '.tif', '.tiff', '.cr2', '.nef', '.arw', '.dng'];
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/quicktime'];
+export const VIDEO_EXTENSIONS = ['.mp4', '.m4v', '.mov', '.qt'];
+
+// Top-level atoms a QuickTime file without an "ftyp" atom can start with
+const QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+
+const detectTiffFlavor = (bytes: Uint8Array): ImageFormat => {
+  // CR2 marks itself right after the TIFF header
+  if (bytes[8] === 0x43 && bytes[9] === 0x52) return 'cr2';
+  const tiff = readTiff(bytes);
+  const ifd0 = tiff?.ifds[0];
+  if (!tiff || !ifd0) return 'tiff';
+  if (ifd0.entries.has(0xc612)) return 'dng'; // DNGVersion
+  const make = getString(tiff, ifd0, 0x010f)?.toUpperCase() ?? '';
+  if (make.startsWith('NIKON')) return 'nef';
+  if (make.startsWith('SONY')) return 'arw';
+  return 'tiff';
+};
+
+/**
+ * Identifies an image by its magic bytes rather than its extension or the browser-reported type.
+ */
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+
+  const heif = heifMimeType(bytes);
+  if (heif) return heif === 'image/avif' ? 'avif' : 'heic';
+  if (ascii(bytes, 4, 4) === 'ftyp') return ascii(bytes, 8, 4) === 'qt  ' ? 'mov' : 'mp4';
+  if (QUICKTIME_ATOMS.includes(ascii(bytes, 4, 4))) return 'mov';
+
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return detectTiffFlavor(bytes);
+  return 'unknown';
+};
+
+// Enough for every signature above, including a RAW file's IFD0, without reading a whole video
+const SNIFF_BYTES = 64 * 1024;
+
+export const detectFileFormat = async (file: Blob): Promise<ImageFormat> =>
+  detectImageFormat(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+
+export const isVideoFile = async (file: Blob): Promise<boolean> => !!FORMAT_INFO[await detectFileFormat(file)].video;
+
+const EXTENSION_ALIASES: Record<string, string[]> = { jpg: ['jpeg', 'jpe'], heic: ['heif'], tif: ['tiff'], mp4: ['m4v'], mov: ['qt'] };
+
+/**
+ * Swaps a file name's extension when a conversion changed its format, e.g. a RAW file cleaned to JPEG.
+ */
+export const renameForType = (fileName: string, mimeType: string): string => {
+  const info = Object.values(FORMAT_INFO).find(format => format.mimeType === mimeType);
+  const extension = fileName.match(/\.([^.]+)$/)?.[1].toLowerCase() ?? '';
+  if (!info || extension === info.extension || EXTENSION_ALIASES[info.extension]?.includes(extension)) return fileName;
+  return `${fileName.replace(/\.[^.]+$/, '')}.${info.extension}`;
+};
@@ -1,115 +1,96 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AIAnalysisResult } from '../types';
+import { FinishReason, GoogleGenAI, Schema } from "@google/genai";
+import { AnalysisProfile, ImagePayload } from '../types';
+import { AnalysisError } from './analysisErrors';
+import { AnalysisProvider, ProviderCallOptions } from './analysisProvider';
+import { buildAnalysisPrompt, buildDocumentPrompt, buildResponseSchema, DOCUMENT_RESPONSE_SCHEMA } from './analysisPrompt';
 
-export const analyzeImageWithGemini = async (base64Image: string): Promise<AIAnalysisResult> => {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    // Using gemini-3-flash-preview for fast, multimodal analysis with structured output
-    const model = 'gemini-3-flash-preview';
+/**
+ * Sends the image parts with a prompt and returns the parsed JSON response. The response is
+ * streamed, and the text received so far is passed to onText after each chunk.
+ */
+const generateJson = async (
+  image: ImagePayload,
+  prompt: string,
+  schema: Schema,
+  model: string,
+  apiKey: string | undefined,
+  { signal, onText }: ProviderCallOptions = {}
+): Promise<unknown> => {
+  const ai = new GoogleGenAI({ apiKey });
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: base64Image
-            }
-          },
-          {
-            text: `Analyze this image in detail. Extract visual data, text, and authenticity clues.
-            
-            Strictly follow the JSON schema.
-            - For 'sceneType', use generic terms like Indoor, Outdoor, Nature, Urban, Office, Home.
-            - For 'imageCategory', choose one of: Selfie, Document, Screenshot, Photo, Other.
-            - For 'faceEmotion', if no face is present, use 'None'.
-            - For 'authenticity', look for artifacts, unnatural lighting, or inconsistencies that suggest editing.
-            - For 'ocrText', extract all visible text. If no text, return empty string.`
+  const stream = await ai.models.generateContentStream({
+    model: model,
+    contents: {
+      parts: [
+        ...[image, ...(image.tiles ?? [])].map(part => ({
+          inlineData: {
+            mimeType: part.mimeType,
+            data: part.base64
           }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            objects: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: "List of detected objects in the image"
-            },
-            peopleCount: {
-              type: Type.INTEGER,
-              description: "Count of people detected"
-            },
-            sceneType: {
-              type: Type.STRING,
-              description: "The environment or setting of the image"
-            },
-            imageCategory: {
-              type: Type.STRING,
-              enum: ['Selfie', 'Document', 'Screenshot', 'Photo', 'Other'],
-              description: "Category of the image"
-            },
-            dominantColors: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: "Top 5 dominant colors as hex codes or names"
-            },
-            faceEmotion: {
-              type: Type.STRING,
-              enum: ['Happy', 'Neutral', 'Sad', 'Angry', 'Surprised', 'None'],
-              description: "Dominant facial emotion if applicable"
-            },
-            isSafe: {
-              type: Type.BOOLEAN,
-              description: "Whether the image is considered safe (SFW)"
-            },
-            authenticity: {
-              type: Type.OBJECT,
-              properties: {
-                isLikelyEdited: { type: Type.BOOLEAN },
-                reason: { type: Type.STRING },
-                score: { type: Type.NUMBER, description: "0 to 100 likelihood score" }
-              },
-              required: ['isLikelyEdited', 'reason', 'score']
-            },
-            ocrText: {
-              type: Type.STRING,
-              description: "All text extracted from the image"
-            }
-          },
-          required: ['objects', 'peopleCount', 'sceneType', 'imageCategory', 'dominantColors', 'faceEmotion', 'isSafe', 'authenticity', 'ocrText']
+        })),
+        {
+          text: prompt
         }
-      }
-    });
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schema,
+      abortSignal: signal
+    }
+  });
 
-    if (response.text) {
-      const result = JSON.parse(response.text) as AIAnalysisResult;
-      return result;
-    } else {
-      throw new Error("No response text from Gemini");
+  let text = '';
+  for await (const chunk of stream) {
+    signal?.throwIfAborted();
+    const blockReason = chunk.promptFeedback?.blockReason;
+    const finishReason = chunk.candidates?.[0]?.finishReason;
+    if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+      throw new AnalysisError('blocked', `Gemini blocked the request (${blockReason ?? finishReason})`);
+    }
+    if (chunk.text) {
+      text += chunk.text;
+      onText?.(text);
     }
+  }
 
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    // Return a fallback object to prevent app crash
-    return {
-      objects: [],
-      peopleCount: 0,
-      sceneType: "Unknown",
-      imageCategory: "Other",
-      dominantColors: [],
-      faceEmotion: "None",
-      isSafe: true,
-      authenticity: {
-        isLikelyEdited: false,
-        reason: "Analysis failed",
-        score: 0
-      },
-      ocrText: ""
-    };
+  if (text) {
+    return JSON.parse(text);
+  } else {
+    throw new AnalysisError('schema', "No response text from Gemini");
   }
-};
\ No newline at end of file
+};
+
+export const analyzeImageWithGemini = (
+  image: ImagePayload,
+  model: string = 'gemini-3-flash-preview',
+  apiKey: string | undefined = process.env.API_KEY,
+  profile?: AnalysisProfile,
+  options?: ProviderCallOptions
+): Promise<unknown> => generateJson(image, buildAnalysisPrompt(image, profile), buildResponseSchema(profile), model, apiKey, options);
+
+export const extractDocumentWithGemini = (
+  image: ImagePayload,
+  scanned: boolean,
+  model: string = 'gemini-3-flash-preview',
+  apiKey: string | undefined = process.env.API_KEY,
+  options?: ProviderCallOptions
+): Promise<unknown> => generateJson(image, buildDocumentPrompt(image, scanned), DOCUMENT_RESPONSE_SCHEMA, model, apiKey, options);
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  // Using gemini-3-flash-preview for fast, multimodal analysis with structured output
+  defaultModel: 'gemini-3-flash-preview',
+  supportedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'],
+  estimateImageTokens: (width, height) => {
+    // Small images cost a flat 258 tokens; larger ones are cut into square tiles of 258 tokens each
+    if (width <= 384 && height <= 384) return 258;
+    const tile = Math.min(768, Math.max(256, Math.floor(Math.min(width, height) / 1.5)));
+    return Math.ceil(width / tile) * Math.ceil(height / tile) * 258;
+  },
+  analyze: (image, settings, profile, options) =>
+    analyzeImageWithGemini(image, settings.model, settings.apiKey || process.env.API_KEY, profile, options),
+  extractDocument: (image, settings, scanned, options) =>
+    extractDocumentWithGemini(image, scanned, settings.model, settings.apiKey || process.env.API_KEY, options),
+};
@@ -0,0 +1,58 @@
+import { PlaceName } from '../types';
+
+// [name, ISO country code, latitude, longitude] for GeoNames places with 15,000+ inhabitants
+type GazetteerRow = [string, string, number, number];
+
+// Beyond this distance the nearest city says little about where the photo was taken
+const MAX_DISTANCE_KM = 50;
+const EARTH_RADIUS_KM = 6371;
+
+let gazetteerPromise: Promise<GazetteerRow[]> | null = null;
+
+// The gazetteer is large, so it is split into its own chunk and loaded on first use
+const loadGazetteer = (): Promise<GazetteerRow[]> => {
+  gazetteerPromise ??= import('../fixtures/gazetteer.json').then(module => module.default as GazetteerRow[]);
+  return gazetteerPromise;
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometers.
+ */
+export const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+/**
+ * Finds the nearest city in the bundled gazetteer. Resolves to null when no city is within
+ * MAX_DISTANCE_KM, e.g. at sea or in remote areas.
+ */
+export const reverseGeocode = async (latitude: number, longitude: number): Promise<PlaceName | null> => {
+  const gazetteer = await loadGazetteer();
+  let nearest: GazetteerRow | null = null;
+  let nearestKm = Infinity;
+  for (const row of gazetteer) {
+    // Cheap latitude filter before the trigonometry
+    if (Math.abs(row[2] - latitude) > 1) continue;
+    const km = haversineKm(latitude, longitude, row[2], row[3]);
+    if (km < nearestKm) {
+      nearest = row;
+      nearestKm = km;
+    }
+  }
+  if (!nearest || nearestKm > MAX_DISTANCE_KM) return null;
+
+  const [city, countryCode] = nearest;
+  return {
+    city,
+    countryCode,
+    country: countryNames.of(countryCode) ?? countryCode,
+    distanceKm: Math.round(nearestKm * 10) / 10,
+  };
+};
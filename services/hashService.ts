@@ -0,0 +1,41 @@
+import { PerceptualHashes } from '../types';
+import { getDecodableImage } from './decoderService';
+import { runInWorker } from './workerPool';
+
+/**
+ * SHA-256 of a file as a lowercase hex string, computed off the main thread.
+ */
+export const sha256Hex = (data: Blob, signal?: AbortSignal): Promise<string> =>
+  runInWorker({ type: 'hash', data }, { signal });
+
+const perceptualCache = new WeakMap<Blob, Promise<PerceptualHashes>>();
+
+/**
+ * Average, difference and DCT hashes of the image (or a video's captured frame), computed once
+ * per file. Unlike SHA-256 they survive re-encoding, resizing and metadata changes.
+ */
+export const perceptualHashes = (file: Blob, signal?: AbortSignal): Promise<PerceptualHashes> => {
+  let hashes = perceptualCache.get(file);
+  if (!hashes) {
+    hashes = getDecodableImage(file).then(source => runInWorker({ type: 'phash', source }, { signal }));
+    perceptualCache.set(file, hashes);
+    // Let a later call retry, e.g. after this one was aborted
+    hashes.catch(() => perceptualCache.delete(file));
+  }
+  return hashes;
+};
+
+/**
+ * Number of differing bits between two hex hashes of the same length.
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
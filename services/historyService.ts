@@ -0,0 +1,89 @@
+import { HistoryEntry, HistoryQuery, ProcessedImage } from '../types';
+import { createThumbnail } from './imageService';
+import { perceptualHashes, sha256Hex } from './hashService';
+import { parseExifDateTime } from './exifWriter';
+import { migrateAnalysisResult } from './analysisValidator';
+import { HISTORY_STORE, withStore } from './database';
+
+/**
+ * Stores an analyzed image. An entry for the same file contents is updated in place, so
+ * analyzing a file again, or opening it again in a new session, does not add a duplicate.
+ */
+export const saveToHistory = async (image: ProcessedImage): Promise<HistoryEntry> => {
+  if (!image.aiAnalysis) {
+    throw new Error("Only analyzed images can be saved to history");
+  }
+  const [fileHash, thumbnail, hashes] = await Promise.all([
+    image.fileHash ?? sha256Hex(image.file),
+    createThumbnail(image.file),
+    image.hashes ?? perceptualHashes(image.file).catch(() => undefined),
+  ]);
+  const existing = await withStore<HistoryEntry | undefined>(HISTORY_STORE, 'readonly', store => store.index('fileHash').get(fileHash));
+  const entry: HistoryEntry = {
+    id: existing?.id ?? image.id,
+    fileName: image.file.name,
+    fileType: image.file.type,
+    fileSize: image.file.size,
+    fileHash,
+    analyzedAt: new Date().toISOString(),
+    exif: image.exif,
+    aiAnalysis: image.aiAnalysis,
+    ocr: image.ocr,
+    hashes,
+    redactions: image.redactions,
+    document: image.document?.extraction ?? undefined,
+    thumbnail,
+  };
+  await withStore(HISTORY_STORE, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+/**
+ * Loads all entries, newest first. Stored analyses are migrated to the current schema version;
+ * entries that can no longer be read are skipped.
+ */
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return entries
+    .flatMap(entry => {
+      try {
+        return [{ ...entry, aiAnalysis: migrateAnalysisResult(entry.aiAnalysis).result }];
+      } catch (error) {
+        console.error(`Skipping unreadable history entry ${entry.id}`, error);
+        return [];
+      }
+    })
+    .sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt));
+};
+
+export const deleteFromHistory = (id: string): Promise<undefined> =>
+  withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+
+export const clearHistory = (): Promise<undefined> =>
+  withStore(HISTORY_STORE, 'readwrite', store => store.clear());
+
+const includes = (haystack: string | undefined, needle: string) =>
+  !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+/**
+ * Filters entries in memory. Every field set on the query must match.
+ */
+export const filterHistory = (entries: HistoryEntry[], query: HistoryQuery): HistoryEntry[] =>
+  entries.filter(({ fileName, exif, aiAnalysis, ocr }) => {
+    if (query.text) {
+      const fields = [fileName, exif?.make, exif?.model, aiAnalysis.sceneType, aiAnalysis.ocrText, ocr?.text, ...aiAnalysis.objects];
+      if (!fields.some(field => includes(field, query.text!))) return false;
+    }
+    if (query.cameraModel && !includes(exif?.model, query.cameraModel) && !includes(exif?.make, query.cameraModel)) return false;
+    if (query.sceneType && !includes(aiAnalysis.sceneType, query.sceneType)) return false;
+    if (query.imageCategory && aiAnalysis.imageCategory !== query.imageCategory) return false;
+    if (query.object && !aiAnalysis.objects.some(obj => includes(obj, query.object!))) return false;
+
+    if (query.dateFrom || query.dateTo) {
+      const captured = exif?.dateTimeOriginal ? parseExifDateTime(exif.dateTimeOriginal) : null;
+      if (!captured) return false;
+      if (query.dateFrom && captured < new Date(`${query.dateFrom}T00:00:00`)) return false;
+      if (query.dateTo && captured > new Date(`${query.dateTo}T23:59:59.999`)) return false;
+    }
+    return true;
+  });
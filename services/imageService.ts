@@ -1,81 +1,202 @@
 import exifr from 'exifr';
-import { ExifData } from '../types';
+import { ExifData, ImagePayload, RawMetadata, RawMetadataGroup, RedactionRegion, StripOptions, StrippedSegment, UploadOptions, UploadStats } from '../types';
+import type { AnalysisProvider } from './analysisProvider';
+import { getDecodableImage } from './decoderService';
+import { detectFileFormat, FORMAT_INFO, isVideoFile } from './formatService';
+import { DEFAULT_STRIP_OPTIONS } from './metadataStripper';
+import { extractVideoRawMetadata, stripVideoMetadata } from './videoService';
+import { runInWorker } from './workerPool';
 
 /**
- * Extracts EXIF data using the exifr library.
+ * Extracts EXIF data (or a video's equivalent atoms) in the image worker.
+ * Resolves to null when the file has no EXIF, rejects when parsing fails.
  */
-export const extractExifData = async (file: File): Promise<ExifData | null> => {
-  try {
-    const output = await exifr.parse(file, {
-      tiff: true,
-      exif: true,
-      gps: true,
-    });
+export const extractExifData = (file: File, signal?: AbortSignal): Promise<ExifData | null> =>
+  runInWorker({ type: 'exif', file }, { signal });
 
-    if (!output) return null;
+// Every segment exifr knows how to read, including the IFD1 thumbnail directory and MakerNotes
+const RAW_PARSE_OPTIONS = {
+  tiff: true,
+  ifd1: true,
+  exif: true,
+  gps: true,
+  interop: true,
+  xmp: true,
+  icc: true,
+  iptc: true,
+  jfif: true,
+  ihdr: true,
+  makerNote: true,
+  userComment: true,
+  mergeOutput: false,
+  translateKeys: false,
+};
+
+const MAX_BINARY_PREVIEW = 32;
+
+const formatRawValue = (value: unknown): string => {
+  if (value instanceof Uint8Array) {
+    const hex = Array.from(value.subarray(0, MAX_BINARY_PREVIEW), b => b.toString(16).padStart(2, '0')).join(' ');
+    return value.length > MAX_BINARY_PREVIEW ? `${hex} … (${value.length} bytes)` : hex;
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(formatRawValue).join(', ');
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
 
+/**
+ * Extracts every tag exifr can read, grouped by segment, with both raw and translated values.
+ * Also pulls out the embedded EXIF thumbnail, if any.
+ */
+export const extractRawMetadata = async (file: File): Promise<RawMetadata> => {
+  if (await isVideoFile(file)) return extractVideoRawMetadata(file);
+  const [raw, translated, thumbnail] = await Promise.all([
+    exifr.parse(file, { ...RAW_PARSE_OPTIONS, translateValues: false, reviveValues: false }),
+    exifr.parse(file, { ...RAW_PARSE_OPTIONS, translateValues: true, reviveValues: true }),
+    exifr.thumbnail(file).catch(() => undefined),
+  ]);
+
+  const groups: RawMetadataGroup[] = Object.entries<Record<string, unknown>>(raw ?? {}).map(([segment, tags]) => {
+    // IFD1 shares its tag dictionary with IFD0
+    const dictionary = exifr.tagKeys.get(segment) ?? (segment === 'ifd1' ? exifr.tagKeys.get('ifd0') : undefined);
     return {
-      make: output.Make,
-      model: output.Model,
-      dateTimeOriginal: output.DateTimeOriginal ? new Date(output.DateTimeOriginal).toLocaleString() : undefined,
-      exposureTime: output.ExposureTime,
-      fNumber: output.FNumber,
-      iso: output.ISO,
-      focalLength: output.FocalLength,
-      latitude: output.latitude,
-      longitude: output.longitude,
-      software: output.Software,
-      width: output.ExifImageWidth,
-      height: output.ExifImageHeight,
+      segment,
+      tags: Object.entries(tags ?? {}).map(([key, rawValue]) => {
+        const id = /^\d+$/.test(key) ? Number(key) : undefined;
+        return {
+          id,
+          name: (id !== undefined && dictionary?.get(id)) || key,
+          rawValue: formatRawValue(rawValue),
+          value: formatRawValue(translated?.[segment]?.[key] ?? rawValue),
+        };
+      }),
     };
-  } catch (error) {
-    console.error("Failed to extract EXIF", error);
-    return null;
+  }).filter(group => group.tags.length > 0);
+
+  return {
+    groups,
+    thumbnailUrl: thumbnail ? URL.createObjectURL(new Blob([thumbnail as BlobPart], { type: 'image/jpeg' })) : undefined,
+  };
+};
+
+/**
+ * Creates a "clean" version of the image.
+ * JPEG, PNG, WebP, HEIC, AVIF and videos are stripped at the byte level so pixels and format are preserved;
+ * anything else falls back to a canvas re-encode, which turns RAW files into a JPEG of their preview.
+ * Images with redactions are always re-encoded with the regions covered. Videos are not redacted.
+ * All of it runs in the image worker.
+ */
+export const cleanImageMetadata = async (
+  file: File,
+  options: StripOptions = DEFAULT_STRIP_OPTIONS,
+  redactions: RedactionRegion[] = []
+): Promise<{ blob: Blob | null; removed: StrippedSegment[] }> => {
+  if (await isVideoFile(file)) return stripVideoMetadata(file);
+  const result = await runInWorker({ type: 'strip', data: file, options });
+  if (redactions.length > 0) {
+    // The re-encode writes no metadata at all; the strip above only tells us what was there
+    return { blob: await redactImage(file, redactions), removed: result?.removed ?? [] };
+  }
+  if (result) {
+    return { blob: new Blob([result.bytes as BlobPart], { type: result.mimeType }), removed: result.removed };
   }
+
+  // Redrawing on a canvas creates a new file structure without the original metadata
+  const source = await getDecodableImage(file);
+  const mimeType = (source === file && file.type) || 'image/jpeg';
+  const blob = await runInWorker({ type: 'render', source, maxEdge: Infinity, mimeType, quality: 0.95 });
+  return { blob, removed: [] };
 };
 
 /**
- * Creates a "clean" version of the image by redrawing it on a canvas.
- * This effectively strips all metadata.
+ * Renders the upright image with the regions covered, in its own format when a canvas can write
+ * it and as JPEG otherwise. The output carries no metadata.
  */
-export const cleanImageMetadata = (imageUrl: string, format: string = 'image/jpeg'): Promise<Blob | null> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'Anonymous';
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
-      }
-      ctx.drawImage(img, 0, 0);
-      
-      // Converting to blob creates a new file structure without original metadata
-      canvas.toBlob((blob) => {
-        resolve(blob);
-      }, format, 0.95);
-    };
-    img.onerror = (err) => reject(err);
-    img.src = imageUrl;
-  });
+export const redactImage = async (file: Blob, regions: RedactionRegion[]): Promise<Blob> => {
+  const source = await getDecodableImage(file);
+  const mimeType = source === file && ENCODABLE_MIME_TYPES.includes(file.type) ? file.type : 'image/jpeg';
+  return runInWorker({ type: 'redact', source, regions, mimeType, quality: 0.95 });
 };
 
-export const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      if (typeof reader.result === 'string') {
-        // Remove the data URL prefix (e.g. "data:image/jpeg;base64,")
-        const base64 = reader.result.split(',')[1];
-        resolve(base64);
-      } else {
-        reject(new Error("Failed to convert file to base64"));
-      }
-    };
-    reader.onerror = error => reject(error);
-  });
-};
\ No newline at end of file
+/**
+ * Base64-encodes the file in the image worker, without the data URL prefix.
+ */
+export const fileToBase64 = (file: Blob, signal?: AbortSignal): Promise<string> =>
+  runInWorker({ type: 'base64', data: file }, { signal });
+
+/**
+ * Renders the image as a JPEG that fits within maxEdge pixels, in the image worker.
+ */
+export const renderJpeg = async (
+  file: Blob,
+  maxEdge: number = Infinity,
+  quality: number = 0.92,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const source = await getDecodableImage(file);
+  return runInWorker({ type: 'render', source, maxEdge, mimeType: 'image/jpeg', quality }, { signal });
+};
+
+/**
+ * Renders a small JPEG thumbnail that fits within maxEdge pixels.
+ */
+export const createThumbnail = (file: Blob, maxEdge: number = 256): Promise<Blob> => renderJpeg(file, maxEdge, 0.8);
+
+export const DEFAULT_UPLOAD_OPTIONS: UploadOptions = {
+  maxEdge: 1536,
+  maxBytes: 4 * 1024 * 1024,
+  tileText: false,
+};
+
+// Formats a canvas can write; anything else is re-encoded as JPEG
+const ENCODABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Prepares the image for an analysis provider: oriented, scaled to the configured long edge and
+ * re-encoded in its real format when the provider accepts it, otherwise as JPEG, within the byte
+ * budget. Files that already fit are sent as they are. Videos are sent as a single frame.
+ * With tile set, large images also get full-resolution crops so small text stays readable.
+ */
+export const prepareUpload = async (
+  file: Blob,
+  provider: AnalysisProvider,
+  options: UploadOptions = DEFAULT_UPLOAD_OPTIONS,
+  { tile = false, signal }: { tile?: boolean; signal?: AbortSignal } = {}
+): Promise<{ payload: ImagePayload; stats: UploadStats }> => {
+  const accepts = (mimeType: string) => !provider.supportedMimeTypes || provider.supportedMimeTypes.includes(mimeType);
+  const format = await detectFileFormat(file);
+  const mimeType = format === 'unknown' ? file.type || FORMAT_INFO.unknown.mimeType : FORMAT_INFO[format].mimeType;
+  // HEIC the browser cannot decode, RAW files and videos arrive here as a JPEG rendition
+  const source = await getDecodableImage(file);
+  const original = source === file && accepts(mimeType);
+
+  const { parts, width, height } = await runInWorker({
+    type: 'fit',
+    source,
+    mimeType: original && ENCODABLE_MIME_TYPES.includes(mimeType) ? mimeType : 'image/jpeg',
+    maxEdge: options.maxEdge,
+    maxBytes: options.maxBytes,
+    tile,
+    originalMimeType: original ? mimeType : undefined,
+  }, { signal });
+
+  const [whole, ...tiles] = await Promise.all(parts.map(async part => ({
+    base64: await fileToBase64(part.blob, signal),
+    mimeType: part.mimeType,
+  })));
+  const { estimateImageTokens } = provider;
+  return {
+    payload: tiles.length > 0 ? { ...whole, tiles } : whole,
+    stats: {
+      bytes: parts.reduce((sum, part) => sum + part.blob.size, 0),
+      mimeType: whole.mimeType,
+      width: parts[0].width,
+      height: parts[0].height,
+      originalWidth: width,
+      originalHeight: height,
+      tiles: tiles.length,
+      estimatedTokens: estimateImageTokens && parts.reduce((sum, part) => sum + estimateImageTokens(part.width, part.height), 0),
+    },
+  };
+};
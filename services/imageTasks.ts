@@ -0,0 +1,680 @@
+import exifr from 'exifr';
+import { ExifData, PagePoint, PerceptualHashes, RedactionRegion, StripOptions, StripResult } from '../types';
+import { readExifData } from './exifReader';
+import { stripMetadata } from './metadataStripper';
+
+/**
+ * CPU-heavy work that runs in the image worker. Every task must also run on the main thread,
+ * which is the fallback for browsers without module workers or OffscreenCanvas.
+ */
+export type ImageTask =
+  | { type: 'hash'; data: Blob }
+  | { type: 'base64'; data: Blob }
+  | { type: 'exif'; file: Blob }
+  | { type: 'strip'; data: Blob; options: StripOptions }
+  | { type: 'render'; source: Blob | ImageBitmap; maxEdge: number; mimeType: string; quality: number }
+  | { type: 'fit'; source: Blob; mimeType: string; maxEdge: number; maxBytes: number; tile: boolean; originalMimeType?: string }
+  | { type: 'phash'; source: Blob }
+  | { type: 'redact'; source: Blob; regions: RedactionRegion[]; mimeType: string; quality: number }
+  | { type: 'page'; source: Blob }
+  | { type: 'warp'; source: Blob; corners: PagePoint[]; maxEdge: number; mimeType: string; quality: number }
+  | { type: 'ela'; source: Blob }
+  | { type: 'ghost'; source: Blob };
+
+export interface FittedImage {
+  blob: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export interface FitResult {
+  parts: FittedImage[]; // the whole image first, then any tiles
+  width: number; // of the source, after applying the EXIF orientation
+  height: number;
+}
+
+export interface ElaResult {
+  heatmap: Blob; // PNG at the analyzed size
+  meanError: number;
+  scale: number; // analyzed size relative to the image, 1 unless it was downscaled
+}
+
+export type GhostCurve = { quality: number; error: number }[];
+
+export interface ImageTaskResults {
+  hash: string;
+  base64: string;
+  exif: ExifData | null;
+  strip: StripResult | null;
+  render: Blob;
+  fit: FitResult;
+  phash: PerceptualHashes;
+  redact: Blob;
+  page: PagePoint[] | null;
+  warp: Blob;
+  ela: ElaResult;
+  ghost: GhostCurve;
+}
+
+export interface ImageTaskOutput {
+  value: unknown;
+  transfer: Transferable[]; // buffers handed back to the caller without a copy
+}
+
+const digestHex = async (data: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// String.fromCharCode takes its arguments on the stack, so large files are encoded in slices
+const BASE64_SLICE = 0x8000;
+
+const encodeBase64 = async (data: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_SLICE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_SLICE));
+  }
+  return btoa(binary);
+};
+
+interface Crop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const encodeCanvas = (canvas: OffscreenCanvas | HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> => {
+  // HTMLCanvasElement is not defined inside workers, so check for the method instead
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type: mimeType, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), mimeType, quality);
+  });
+};
+
+/**
+ * Creates a 2D canvas. OffscreenCanvas is used where it exists, which is always the case inside
+ * the worker.
+ */
+const createCanvas = (width: number, height: number) => {
+  let canvas: OffscreenCanvas | HTMLCanvasElement;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(width, height);
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+/**
+ * Draws part of a bitmap at the given size.
+ */
+const drawCrop = (bitmap: ImageBitmap, crop: Crop, width: number, height: number) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  return { canvas, ctx };
+};
+
+const drawToBlob = (
+  bitmap: ImageBitmap,
+  crop: Crop,
+  width: number,
+  height: number,
+  mimeType: string,
+  quality: number
+): Promise<Blob> => encodeCanvas(drawCrop(bitmap, crop, width, height).canvas, mimeType, quality);
+
+const fitSize = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * Draws the image scaled to fit maxEdge and encodes it.
+ */
+const render = async (source: Blob | ImageBitmap, maxEdge: number, mimeType: string, quality: number): Promise<Blob> => {
+  const bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+  try {
+    const { width, height } = fitSize(bitmap.width, bitmap.height, maxEdge);
+    return await drawToBlob(bitmap, { x: 0, y: 0, width: bitmap.width, height: bitmap.height }, width, height, mimeType, quality);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const MAX_TILES = 6;
+const TILE_OVERLAP = 0.05; // of the tile edge, so lines cut at a border appear whole in one tile
+const LOSSY_QUALITIES = [0.9, 0.8, 0.7, 0.6];
+const BUDGET_SCALE_STEP = 0.75;
+const MIN_FIT_EDGE = 256;
+
+/**
+ * Splits the image into a grid of overlapping crops no larger than tileEdge, growing the
+ * tiles until there are at most MAX_TILES of them.
+ */
+const tileGrid = (width: number, height: number, tileEdge: number): Crop[] => {
+  let edge = tileEdge;
+  while (Math.ceil(width / edge) * Math.ceil(height / edge) > MAX_TILES) edge *= 1.25;
+  const cols = Math.ceil(width / edge);
+  const rows = Math.ceil(height / edge);
+  const cellWidth = width / cols;
+  const cellHeight = height / rows;
+  const overlap = Math.round(Math.max(cellWidth, cellHeight) * TILE_OVERLAP);
+
+  const crops: Crop[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = Math.max(0, Math.round(col * cellWidth) - overlap);
+      const y = Math.max(0, Math.round(row * cellHeight) - overlap);
+      crops.push({
+        x,
+        y,
+        width: Math.min(width, Math.round((col + 1) * cellWidth) + overlap) - x,
+        height: Math.min(height, Math.round((row + 1) * cellHeight) + overlap) - y,
+      });
+    }
+  }
+  return crops;
+};
+
+/**
+ * Prepares an image for an analysis request: applies the EXIF orientation, scales the long edge
+ * down to maxEdge and re-encodes as mimeType, lowering the quality and then the size until all
+ * parts fit maxBytes. When originalMimeType is given, a source that already fits and needs no
+ * rotation is passed through untouched under that type.
+ * With tile set, images larger than maxEdge also get crops at up to their full resolution.
+ */
+const fitImage = async (task: Extract<ImageTask, { type: 'fit' }>): Promise<FitResult> => {
+  const bitmap = await createImageBitmap(task.source, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = bitmap;
+    const whole: Crop = { x: 0, y: 0, width, height };
+    const crops = task.tile && Math.max(width, height) > task.maxEdge ? tileGrid(width, height, task.maxEdge) : [];
+    const orientation = task.originalMimeType ? (await exifr.orientation(task.source).catch(() => undefined)) ?? 1 : undefined;
+    const passThrough = orientation === 1 && Math.max(width, height) <= task.maxEdge;
+
+    const lossy = task.mimeType !== 'image/png';
+    const qualities = lossy ? LOSSY_QUALITIES : [1];
+    for (let edge = task.maxEdge; ; edge = Math.floor(edge * BUDGET_SCALE_STEP)) {
+      for (const quality of qualities) {
+        const parts: FittedImage[] = [];
+        if (passThrough && edge === task.maxEdge && quality === qualities[0]) {
+          parts.push({ blob: task.source, mimeType: task.originalMimeType!, width, height });
+        }
+        for (const crop of parts.length > 0 ? crops : [whole, ...crops]) {
+          const size = fitSize(crop.width, crop.height, edge);
+          const blob = await drawToBlob(bitmap, crop, size.width, size.height, task.mimeType, quality);
+          // Browsers that cannot write the requested type fall back to PNG
+          parts.push({ ...size, blob, mimeType: blob.type || task.mimeType });
+        }
+        const bytes = parts.reduce((sum, part) => sum + part.blob.size, 0);
+        if (bytes <= task.maxBytes) return { parts, width, height };
+      }
+      if (edge * BUDGET_SCALE_STEP < MIN_FIT_EDGE) {
+        throw new Error(`Could not fit the image within the ${task.maxBytes.toLocaleString()} byte upload budget`);
+      }
+    }
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Downscales the bitmap to width x height and returns its luma, row by row.
+ */
+const grayscale = async (bitmap: ImageBitmap, width: number, height: number): Promise<Float64Array> => {
+  const small = await createImageBitmap(bitmap, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+  try {
+    const { ctx } = drawCrop(small, { x: 0, y: 0, width, height }, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const luma = new Float64Array(width * height);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return luma;
+  } finally {
+    small.close();
+  }
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Average hash: each pixel of an 8x8 thumbnail against the mean
+const averageHash = async (bitmap: ImageBitmap): Promise<string> => {
+  const luma = Array.from(await grayscale(bitmap, 8, 8));
+  const mean = luma.reduce((sum, value) => sum + value, 0) / luma.length;
+  return bitsToHex(luma.map(value => value > mean));
+};
+
+// Difference hash: each pixel of a 9x8 thumbnail against its right neighbour
+const differenceHash = async (bitmap: ImageBitmap): Promise<string> => {
+  const luma = await grayscale(bitmap, 9, 8);
+  const bits: boolean[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) bits.push(luma[row * 9 + col] > luma[row * 9 + col + 1]);
+  }
+  return bitsToHex(bits);
+};
+
+const DCT_SIZE = 32;
+
+// Perceptual hash: the lowest 8x8 DCT frequencies of a 32x32 thumbnail against their median
+const dctHash = async (bitmap: ImageBitmap): Promise<string> => {
+  const luma = await grayscale(bitmap, DCT_SIZE, DCT_SIZE);
+  const cosines = Array.from({ length: 8 }, (_, u) =>
+    Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+  );
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        for (let x = 0; x < DCT_SIZE; x++) sum += luma[y * DCT_SIZE + x] * cosines[u][x] * cosines[v][y];
+      }
+      coefficients.push(sum);
+    }
+  }
+  const threshold = median(coefficients);
+  return bitsToHex(coefficients.map(value => value > threshold));
+};
+
+/**
+ * 64-bit average, difference and DCT hashes as 16 hex digits each. Unlike SHA-256 they survive
+ * re-encoding, resizing and metadata changes, and each tolerates different edits.
+ */
+const perceptualHashes = async (source: Blob): Promise<PerceptualHashes> => {
+  const bitmap = await createImageBitmap(source);
+  try {
+    return {
+      aHash: await averageHash(bitmap),
+      dHash: await differenceHash(bitmap),
+      pHash: await dctHash(bitmap),
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Blurred regions are averaged down to this many pixels along their long edge
+const BLUR_RESOLUTION = 6;
+
+/**
+ * Draws the upright image and covers each region with a black box or a blur. The blur scales
+ * the region down to a few pixels and back up, so no detail survives to be sharpened back.
+ */
+const redact = async (task: Extract<ImageTask, { type: 'redact' }>): Promise<Blob> => {
+  const bitmap = await createImageBitmap(task.source, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = bitmap;
+    const { canvas, ctx } = drawCrop(bitmap, { x: 0, y: 0, width, height }, width, height);
+    task.regions.forEach(region => {
+      const x = Math.max(0, Math.floor(region.x * width));
+      const y = Math.max(0, Math.floor(region.y * height));
+      const w = Math.min(width, Math.ceil((region.x + region.width) * width)) - x;
+      const h = Math.min(height, Math.ceil((region.y + region.height) * height)) - y;
+      if (w <= 0 || h <= 0) return;
+      if (region.style === 'box') {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(x, y, w, h);
+        return;
+      }
+      const scale = BLUR_RESOLUTION / Math.max(w, h);
+      const small = createCanvas(Math.max(1, Math.round(w * scale)), Math.max(1, Math.round(h * scale)));
+      small.ctx.imageSmoothingQuality = 'high';
+      small.ctx.drawImage(canvas, x, y, w, h, 0, 0, small.canvas.width, small.canvas.height);
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(small.canvas, x, y, w, h);
+    });
+    return await encodeCanvas(canvas, task.mimeType, task.quality);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Page edges are searched on a thumbnail of this size; the blur wipes out text but keeps the edges
+const PAGE_EDGE = 320;
+const PAGE_BLUR_RADIUS = 2;
+// A page smaller than this share of the image is more likely a bright object than the document
+const MIN_PAGE_AREA = 0.2;
+// Beyond this share the page already fills the frame and there is nothing to straighten
+const MAX_PAGE_AREA = 0.9;
+// Each corner is the page pixel furthest along its diagonal: top-left, top-right, bottom-right, bottom-left
+const PAGE_DIAGONALS = [[-1, -1], [1, -1], [1, 1], [-1, 1]];
+
+const boxBlur = (luma: Float64Array, width: number, height: number, radius: number): Float64Array => {
+  const out = new Float64Array(luma.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = Math.max(0, y - radius); dy <= Math.min(height - 1, y + radius); dy++) {
+        for (let dx = Math.max(0, x - radius); dx <= Math.min(width - 1, x + radius); dx++) {
+          sum += luma[dy * width + dx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+// Otsu's method: the threshold that maximizes the variance between the dark and the bright class
+const otsuThreshold = (luma: Float64Array): number => {
+  const histogram = new Array(256).fill(0);
+  luma.forEach(value => histogram[Math.min(255, Math.round(value))]++);
+  const total = luma.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let below = 0;
+  let sumBelow = 0;
+  let best = { threshold: 128, variance: -1 };
+  for (let t = 0; t < 256; t++) {
+    below += histogram[t];
+    sumBelow += t * histogram[t];
+    const above = total - below;
+    if (below === 0 || above === 0) continue;
+    const meanBelow = sumBelow / below;
+    const meanAbove = (sumAll - sumBelow) / above;
+    const variance = below * above * (meanBelow - meanAbove) ** 2;
+    if (variance > best.variance) best = { threshold: t, variance };
+  }
+  return best.threshold;
+};
+
+/**
+ * Labels the largest 4-connected region of set pixels and returns its pixel indices.
+ */
+const largestRegion = (mask: Uint8Array, width: number, height: number): number[] => {
+  const seen = new Uint8Array(mask.length);
+  let largest: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const region: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      region.push(i);
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n >= 0 && n < mask.length && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+};
+
+const quadArea = (corners: PagePoint[]): number =>
+  Math.abs(corners.reduce((sum, p, i) => {
+    const q = corners[(i + 1) % corners.length];
+    return sum + p.x * q.y - q.x * p.y;
+  }, 0)) / 2;
+
+/**
+ * Finds the page in a photo of a document: the largest bright region after a blur and an Otsu
+ * threshold, with its corners taken as the extremes of x + y and x - y. This expects a light
+ * page on a darker background, turned less than about 30 degrees; otherwise it returns null.
+ */
+const detectPage = async (source: Blob): Promise<PagePoint[] | null> => {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = fitSize(bitmap.width, bitmap.height, PAGE_EDGE);
+    const luma = boxBlur(await grayscale(bitmap, width, height), width, height, PAGE_BLUR_RADIUS);
+    const threshold = otsuThreshold(luma);
+    const mask = new Uint8Array(luma.length);
+    luma.forEach((value, i) => { mask[i] = value > threshold ? 1 : 0; });
+    const region = largestRegion(mask, width, height);
+    if (region.length < MIN_PAGE_AREA * width * height) return null;
+
+    const corners = PAGE_DIAGONALS.map(([dx, dy]) => {
+      let best = region[0];
+      let bestScore = -Infinity;
+      for (const i of region) {
+        const score = dx * (i % width) + dy * Math.floor(i / width);
+        if (score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      }
+      return { x: ((best % width) + 0.5) / width, y: (Math.floor(best / width) + 0.5) / height };
+    });
+    const area = quadArea(corners);
+    return area >= MIN_PAGE_AREA && area <= MAX_PAGE_AREA ? corners : null;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// The source is sampled at no more than this size
+const MAX_WARP_SOURCE_EDGE = 4000;
+// Share of the darkest and brightest pixels clipped when the contrast is stretched
+const LEVELS_CLIP = 0.01;
+
+/**
+ * The projective map from the unit square onto a quad given as top-left, top-right,
+ * bottom-right and bottom-left (Heckbert's square-to-quad mapping).
+ */
+const squareToQuad = ([p0, p1, p2, p3]: PagePoint[]) => {
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = det === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / det;
+  const h = det === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / det;
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x, c = p0.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y, f = p0.y;
+  return (u: number, v: number): PagePoint => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+/**
+ * Maps the quad onto a rectangle with bilinear sampling and stretches the contrast, so a photo
+ * of a page looks like a scan of it. The output keeps the page's proportions, measured along its
+ * longer opposite edges.
+ */
+const warpPage = async (task: Extract<ImageTask, { type: 'warp' }>): Promise<Blob> => {
+  const bitmap = await createImageBitmap(task.source, { imageOrientation: 'from-image' });
+  let pixels: ImageData;
+  let sourceWidth: number;
+  let sourceHeight: number;
+  try {
+    ({ width: sourceWidth, height: sourceHeight } = fitSize(bitmap.width, bitmap.height, MAX_WARP_SOURCE_EDGE));
+    const { ctx } = drawCrop(bitmap, { x: 0, y: 0, width: bitmap.width, height: bitmap.height }, sourceWidth, sourceHeight);
+    pixels = ctx.getImageData(0, 0, sourceWidth, sourceHeight);
+  } finally {
+    bitmap.close();
+  }
+
+  const quad = task.corners.map(p => ({ x: p.x * sourceWidth, y: p.y * sourceHeight }));
+  const distance = (p: PagePoint, q: PagePoint) => Math.hypot(p.x - q.x, p.y - q.y);
+  const { width, height } = fitSize(
+    Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2])),
+    Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2])),
+    task.maxEdge
+  );
+  const map = squareToQuad(quad);
+  const { canvas, ctx } = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  const src = pixels.data;
+  const histogram = new Array(256).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = map((x + 0.5) / width, (y + 0.5) / height);
+      const sx = Math.min(sourceWidth - 1.001, Math.max(0, p.x - 0.5));
+      const sy = Math.min(sourceHeight - 1.001, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * sourceWidth + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + sourceWidth * 4;
+      const i11 = i01 + 4;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[i00 + c] * (1 - fx) + src[i10 + c] * fx;
+        const bottom = src[i01 + c] * (1 - fx) + src[i11 + c] * fx;
+        out.data[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      out.data[o + 3] = 255;
+      histogram[Math.round(0.299 * out.data[o] + 0.587 * out.data[o + 1] + 0.114 * out.data[o + 2])]++;
+    }
+  }
+
+  // Levels: the darkest and brightest percent become black and white
+  const clip = width * height * LEVELS_CLIP;
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high];
+  if (high > low) {
+    const scale = 255 / (high - low);
+    for (let i = 0; i < out.data.length; i += 4) {
+      for (let c = 0; c < 3; c++) out.data[i + c] = (out.data[i + c] - low) * scale;
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return encodeCanvas(canvas, task.mimeType, task.quality);
+};
+
+// Larger images are downscaled for ELA, which holds three full-size pixel buffers at once
+const MAX_ELA_PIXELS = 12_000_000;
+const ELA_QUALITY = 0.9;
+const ELA_AMPLIFY = 15;
+const GHOST_QUALITIES = [50, 55, 60, 65, 70, 75, 80, 85, 90, 95];
+const GHOST_CROP = 1024; // multiple of 8 so the JPEG block grid stays aligned
+
+// Encodes the canvas as JPEG at the given quality and decodes it back
+const recompress = async (canvas: OffscreenCanvas | HTMLCanvasElement, quality: number): Promise<ImageData> => {
+  const bitmap = await createImageBitmap(await encodeCanvas(canvas, 'image/jpeg', quality));
+  try {
+    const { ctx } = drawCrop(bitmap, { x: 0, y: 0, width: bitmap.width, height: bitmap.height }, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const meanSquaredError = (a: ImageData, b: ImageData): number => {
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = a.data[i + c] - b.data[i + c];
+      sum += d * d;
+    }
+  }
+  return sum / ((a.data.length / 4) * 3);
+};
+
+/**
+ * Error Level Analysis: recompresses at a fixed quality and renders the amplified
+ * per-pixel difference as a heatmap. Regions pasted in from another source tend to stand out.
+ */
+const errorLevelAnalysis = async (source: Blob): Promise<ElaResult> => {
+  const bitmap = await createImageBitmap(source);
+  const scale = Math.min(1, Math.sqrt(MAX_ELA_PIXELS / (bitmap.width * bitmap.height)));
+  const { width, height } = fitSize(bitmap.width, bitmap.height, Math.max(bitmap.width, bitmap.height) * scale);
+  const { canvas, ctx } = drawCrop(bitmap, { x: 0, y: 0, width: bitmap.width, height: bitmap.height }, width, height);
+  bitmap.close();
+  const original = ctx.getImageData(0, 0, width, height);
+
+  const recompressed = await recompress(canvas, ELA_QUALITY);
+  const heatCanvas = createCanvas(canvas.width, canvas.height);
+  const heat = heatCanvas.ctx.createImageData(canvas.width, canvas.height);
+  let total = 0;
+  for (let i = 0; i < original.data.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(original.data[i] - recompressed.data[i]),
+      Math.abs(original.data[i + 1] - recompressed.data[i + 1]),
+      Math.abs(original.data[i + 2] - recompressed.data[i + 2])
+    );
+    total += diff;
+    const v = Math.min(255, diff * ELA_AMPLIFY);
+    // black -> red -> yellow -> white
+    heat.data[i] = Math.min(255, v * 3);
+    heat.data[i + 1] = Math.min(255, Math.max(0, v * 3 - 255));
+    heat.data[i + 2] = Math.min(255, Math.max(0, v * 3 - 510));
+    heat.data[i + 3] = 255;
+  }
+  heatCanvas.ctx.putImageData(heat, 0, 0);
+  return {
+    heatmap: await encodeCanvas(heatCanvas.canvas, 'image/png', 1),
+    meanError: total / (original.data.length / 4),
+    scale,
+  };
+};
+
+/**
+ * JPEG ghosts: the recompression error over a range of qualities, on a full-resolution crop
+ * from the middle. A previously compressed region shows a local minimum at its earlier quality.
+ */
+const jpegGhostCurve = async (source: Blob): Promise<GhostCurve> => {
+  const bitmap = await createImageBitmap(source);
+  const width = Math.min(GHOST_CROP, bitmap.width - (bitmap.width % 8));
+  const height = Math.min(GHOST_CROP, bitmap.height - (bitmap.height % 8));
+  const x = Math.floor((bitmap.width - width) / 16) * 8;
+  const y = Math.floor((bitmap.height - height) / 16) * 8;
+  const { canvas, ctx } = drawCrop(bitmap, { x, y, width, height }, width, height);
+  bitmap.close();
+  const original = ctx.getImageData(0, 0, width, height);
+
+  const curve: GhostCurve = [];
+  for (const quality of GHOST_QUALITIES) {
+    curve.push({ quality, error: meanSquaredError(original, await recompress(canvas, quality / 100)) });
+  }
+  return curve;
+};
+
+export const runImageTask = async (task: ImageTask): Promise<ImageTaskOutput> => {
+  switch (task.type) {
+    case 'hash':
+      return { value: await digestHex(task.data), transfer: [] };
+    case 'base64':
+      return { value: await encodeBase64(task.data), transfer: [] };
+    case 'exif':
+      return { value: await readExifData(task.file), transfer: [] };
+    case 'strip': {
+      const result = stripMetadata(new Uint8Array(await task.data.arrayBuffer()), task.options);
+      return { value: result, transfer: result ? [result.bytes.buffer] : [] };
+    }
+    case 'render':
+      return { value: await render(task.source, task.maxEdge, task.mimeType, task.quality), transfer: [] };
+    case 'fit':
+      return { value: await fitImage(task), transfer: [] };
+    case 'phash':
+      return { value: await perceptualHashes(task.source), transfer: [] };
+    case 'redact':
+      return { value: await redact(task), transfer: [] };
+    case 'page':
+      return { value: await detectPage(task.source), transfer: [] };
+    case 'warp':
+      return { value: await warpPage(task), transfer: [] };
+    case 'ela':
+      return { value: await errorLevelAnalysis(task.source), transfer: [] };
+    case 'ghost':
+      return { value: await jpegGhostCurve(task.source), transfer: [] };
+  }
+};
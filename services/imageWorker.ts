@@ -0,0 +1,12 @@
+import { ImageTask, runImageTask } from './imageTasks';
+
+// Entry point of the image worker; workerPool posts one task at a time and waits for its reply
+self.onmessage = async (event: MessageEvent<{ id: number; task: ImageTask }>) => {
+  const { id, task } = event.data;
+  try {
+    const { value, transfer } = await runImageTask(task);
+    self.postMessage({ id, value }, { transfer });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
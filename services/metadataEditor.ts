@@ -0,0 +1,160 @@
+import exifr from 'exifr';
+import { ExifData, ExifEdits, ExifFieldDiff, StripOptions } from '../types';
+import { buildExifTiff, embedExif, formatExifDateTime, parseExifDateTime } from './exifWriter';
+import { stripMetadata } from './metadataStripper';
+import { splitTimestamp, toIsoTimestamp } from './timestampService';
+
+type FieldKind = 'text' | 'number' | 'date' | 'timestamp';
+
+/**
+ * Fields the editor can write back into an EXIF block. Anything else is dropped on write.
+ */
+export const EDITABLE_FIELDS: Partial<Record<keyof ExifData, { kind: FieldKind; fuzzable: boolean }>> = {
+  make: { kind: 'text', fuzzable: false },
+  model: { kind: 'text', fuzzable: false },
+  software: { kind: 'text', fuzzable: false },
+  artist: { kind: 'text', fuzzable: false },
+  ownerName: { kind: 'text', fuzzable: false },
+  serialNumber: { kind: 'text', fuzzable: false },
+  lensSerialNumber: { kind: 'text', fuzzable: false },
+  dateTimeOriginal: { kind: 'date', fuzzable: true },
+  createDate: { kind: 'date', fuzzable: true },
+  modifyDate: { kind: 'date', fuzzable: true },
+  exposureTime: { kind: 'number', fuzzable: false },
+  fNumber: { kind: 'number', fuzzable: false },
+  iso: { kind: 'number', fuzzable: false },
+  focalLength: { kind: 'number', fuzzable: false },
+  latitude: { kind: 'number', fuzzable: true },
+  longitude: { kind: 'number', fuzzable: true },
+  altitude: { kind: 'number', fuzzable: false },
+  gpsDirection: { kind: 'number', fuzzable: false },
+  gpsDirectionRef: { kind: 'text', fuzzable: false },
+  gpsTimestamp: { kind: 'timestamp', fuzzable: true },
+  width: { kind: 'number', fuzzable: false },
+  height: { kind: 'number', fuzzable: false },
+};
+
+// Two decimal places of a degree is roughly 1.1 km of latitude
+const COORDINATE_FUZZ_DECIMALS = 2;
+
+const fuzzValue = (field: keyof ExifData, value: ExifData[keyof ExifData]): ExifData[keyof ExifData] => {
+  if (field === 'latitude' || field === 'longitude') {
+    const factor = 10 ** COORDINATE_FUZZ_DECIMALS;
+    return Math.round((value as number) * factor) / factor;
+  }
+  if (field === 'dateTimeOriginal' || field === 'createDate' || field === 'modifyDate') {
+    // Keep the day and the offset, drop the time of day
+    const parts = splitTimestamp(parseEditedValue('date', value as string) as string)!;
+    return toIsoTimestamp(`${parts.dateTime.slice(0, 10)} 00:00:00`, undefined, parts.offset);
+  }
+  if (field === 'gpsTimestamp') {
+    return `${(value as string).slice(0, 10)}T00:00:00.000Z`;
+  }
+  return value;
+};
+
+const parseEditedValue = (kind: FieldKind, raw: string): ExifData[keyof ExifData] => {
+  const value = raw.trim();
+  if (kind === 'number') {
+    const n = Number(value);
+    if (value === '' || isNaN(n)) throw new Error("Not a number");
+    return n;
+  }
+  if (kind === 'date') {
+    const parts = splitTimestamp(value);
+    if (parts) return toIsoTimestamp(parts.dateTime, parts.subSec, parts.offset);
+    const date = parseExifDateTime(value);
+    if (!date) throw new Error("Unrecognized date");
+    return toIsoTimestamp(formatExifDateTime(date));
+  }
+  if (kind === 'timestamp') {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw new Error("Unrecognized timestamp");
+    return date.toISOString();
+  }
+  return value;
+};
+
+/**
+ * Applies per-field keep/remove/edit/fuzz actions to an EXIF record.
+ * Fields without an explicit edit are kept. Errors are reported per field instead of thrown.
+ */
+export const applyFieldEdits = (
+  exif: ExifData,
+  edits: ExifEdits
+): { result: ExifData; errors: Partial<Record<keyof ExifData, string>> } => {
+  const result: ExifData = {};
+  const errors: Partial<Record<keyof ExifData, string>> = {};
+
+  (Object.keys(EDITABLE_FIELDS) as (keyof ExifData)[]).forEach(field => {
+    const spec = EDITABLE_FIELDS[field]!;
+    const edit = edits[field] ?? { action: 'keep' };
+    const current = exif[field];
+    try {
+      let next: ExifData[keyof ExifData];
+      switch (edit.action) {
+        case 'remove':
+          next = undefined;
+          break;
+        case 'edit':
+          next = parseEditedValue(spec.kind, edit.value ?? '');
+          break;
+        case 'fuzz':
+          next = current === undefined ? undefined : fuzzValue(field, current);
+          break;
+        default:
+          next = current === undefined || spec.kind !== 'date' ? current : parseEditedValue('date', String(current));
+      }
+      if (next !== undefined) {
+        (result as Record<string, unknown>)[field] = next;
+      }
+    } catch (e) {
+      errors[field] = e instanceof Error ? e.message : String(e);
+    }
+  });
+
+  // The offset is part of the capture timestamp and follows its edits
+  const offset = result.dateTimeOriginal ? splitTimestamp(result.dateTimeOriginal)?.offset : undefined;
+  if (offset) result.offsetTimeOriginal = offset;
+
+  // A lone coordinate is useless and would be dropped by the writer anyway
+  if ((result.latitude === undefined) !== (result.longitude === undefined)) {
+    delete result.latitude;
+    delete result.longitude;
+    errors.latitude = errors.latitude ?? "Latitude and longitude must be kept or removed together";
+  }
+
+  return { result, errors };
+};
+
+/**
+ * Compares two EXIF records field by field.
+ */
+export const diffExif = (before: ExifData, after: ExifData): ExifFieldDiff[] => {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])) as (keyof ExifData)[];
+  return fields.map(field => {
+    const a = before[field];
+    const b = after[field];
+    let change: ExifFieldDiff['change'] = 'unchanged';
+    if (a !== undefined && b === undefined) change = 'removed';
+    else if (a === undefined && b !== undefined) change = 'added';
+    else if (String(a) !== String(b)) change = 'changed';
+    return { field, before: a, after: b, change };
+  });
+};
+
+/**
+ * Replaces all metadata in the file with a fresh EXIF block built from the edited fields.
+ * The original orientation is carried over so the image does not rotate.
+ */
+export const writeEditedImage = async (file: File, exif: ExifData, options: StripOptions): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const stripped = stripMetadata(bytes, { ...options, keepOrientation: false });
+  if (!stripped) {
+    throw new Error("Writing EXIF is only supported for JPEG, PNG and WebP");
+  }
+
+  const orientation = options.keepOrientation ? await exifr.orientation(file) : undefined;
+  const output = embedExif(stripped.bytes, buildExifTiff(exif, orientation));
+  return new Blob([output as BlobPart], { type: stripped.mimeType });
+};
@@ -0,0 +1,62 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import exifr from 'exifr';
+import { stripMetadata } from './metadataStripper';
+
+// Each fixture carries EXIF with GPS and Orientation 6, XMP with a GPS position, and an ICC
+// profile; the JPEG also has IPTC, a comment and an MPF secondary image with its own EXIF.
+// The HEIC fixture is only the container: its image item holds placeholder bytes.
+const fixture = (name: string) => new Uint8Array(readFileSync(new URL(`../fixtures/images/${name}`, import.meta.url)));
+
+const contains = (bytes: Uint8Array, text: string) => Buffer.from(bytes).includes(text, 0, 'latin1');
+
+// exifr does not read WebP, so its EXIF chunk is handed over as a bare TIFF block
+const exifOf = (name: string, bytes: Uint8Array): Uint8Array => {
+  if (!name.endsWith('.webp')) return bytes;
+  const buffer = Buffer.from(bytes);
+  const chunk = buffer.indexOf('EXIF', 12, 'latin1');
+  if (chunk < 0) return new Uint8Array(0);
+  const payload = bytes.subarray(chunk + 8, chunk + 8 + buffer.readUInt32LE(chunk + 4));
+  return contains(payload.subarray(0, 6), 'Exif') ? payload.subarray(6) : payload;
+};
+
+const SECRETS = ['TestCam', 'MpfCam', 'XmpSecretTool', 'GPSLatitude', 'IPTC-SECRET', 'CommentSecret', 'MPF-INDEX'];
+
+describe.each(['metadata.jpg', 'metadata.png', 'metadata.webp', 'metadata.heic'])('stripMetadata(%s)', name => {
+  const original = fixture(name);
+
+  it('starts from a file with GPS, EXIF and XMP', async () => {
+    const gps = await exifr.gps(exifOf(name, original));
+    expect(gps?.latitude).toBeCloseTo(52.52, 2);
+    expect(contains(original, 'TestCam')).toBe(true);
+    expect(contains(original, 'XmpSecretTool')).toBe(true);
+  });
+
+  it('removes EXIF, XMP and GPS', async () => {
+    const result = stripMetadata(original, { keepColorProfile: false, keepOrientation: false })!;
+    for (const secret of SECRETS) expect(contains(result.bytes, secret)).toBe(false);
+    expect(await exifr.gps(exifOf(name, result.bytes)).catch(() => undefined)).toBeFalsy();
+    expect(contains(result.bytes, 'FAKE-ICC')).toBe(false);
+    expect(result.removed.map(segment => segment.kind)).toEqual(expect.arrayContaining(['exif', 'xmp', 'icc']));
+  });
+
+  it('keeps only the orientation and the color profile when asked', async () => {
+    const result = stripMetadata(original, { keepColorProfile: true, keepOrientation: true })!;
+    for (const secret of SECRETS) expect(contains(result.bytes, secret)).toBe(false);
+    expect(await exifr.gps(exifOf(name, result.bytes)).catch(() => undefined)).toBeFalsy();
+    expect(result.removed.some(segment => segment.kind === 'icc')).toBe(false);
+    expect(await exifr.orientation(exifOf(name, result.bytes))).toBe(6);
+  });
+});
+
+describe('stripJpeg', () => {
+  it('ends the file at the primary image and reports the appended data', () => {
+    const original = fixture('metadata.jpg');
+    const result = stripMetadata(original)!;
+    const bytes = result.bytes;
+    expect([bytes[bytes.length - 2], bytes[bytes.length - 1]]).toEqual([0xff, 0xd9]);
+    // A single SOI: the secondary image is gone
+    expect(Buffer.from(bytes).indexOf(Buffer.from([0xff, 0xd8, 0xff]), 1)).toBe(-1);
+    expect(result.removed.some(segment => segment.label === 'Data after EOI')).toBe(true);
+  });
+});
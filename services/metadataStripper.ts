@@ -0,0 +1,557 @@
+import { MetadataSegmentKind, StripOptions, StrippedSegment, StripResult } from '../types';
+
+export const DEFAULT_STRIP_OPTIONS: StripOptions = {
+  keepColorProfile: true,
+  keepOrientation: true,
+};
+
+// --- Byte helpers ---
+
+export const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+export const startsWithAscii = (bytes: Uint8Array, offset: number, text: string): boolean =>
+  bytes.length >= offset + text.length && ascii(bytes, offset, text.length) === text;
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// --- Orientation ---
+
+export const EXIF_HEADER = 'Exif\0\0';
+
+/**
+ * Reads the Orientation tag (0x0112) from IFD0 of a raw TIFF block.
+ */
+export const readTiffOrientation = (tiff: Uint8Array): number | undefined => {
+  try {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const little = tiff[0] === 0x49; // 'II'
+    const ifdOffset = view.getUint32(4, little);
+    const count = view.getUint16(ifdOffset, little);
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      if (view.getUint16(entry, little) === 0x0112) {
+        return view.getUint16(entry + 8, little);
+      }
+    }
+  } catch {
+    // Truncated or malformed TIFF
+  }
+  return undefined;
+};
+
+/**
+ * Builds a minimal big-endian TIFF block whose IFD0 holds only the Orientation tag.
+ */
+export const buildOrientationTiff = (orientation: number): Uint8Array => {
+  const tiff = new Uint8Array(26);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x4d, 0x4d, 0x00, 0x2a]); // 'MM', 42
+  view.setUint32(4, 8); // IFD0 offset
+  view.setUint16(8, 1); // entry count
+  view.setUint16(10, 0x0112); // Orientation
+  view.setUint16(12, 3); // SHORT
+  view.setUint32(14, 1); // count
+  view.setUint16(18, orientation);
+  view.setUint32(22, 0); // no next IFD
+  return tiff;
+};
+
+const stripExifHeader = (payload: Uint8Array): Uint8Array =>
+  startsWithAscii(payload, 0, EXIF_HEADER) ? payload.subarray(6) : payload;
+
+// Orientation 1 is the default, so there is nothing worth keeping
+const orientationToKeep = (tiff: Uint8Array, options: StripOptions): number | undefined => {
+  if (!options.keepOrientation) return undefined;
+  const orientation = readTiffOrientation(tiff);
+  return orientation && orientation !== 1 ? orientation : undefined;
+};
+
+// --- JPEG ---
+
+const classifyJpegSegment = (marker: number, payload: Uint8Array): MetadataSegmentKind | null => {
+  if (marker === 0xfe) return 'comment';
+  if (marker === 0xe1) {
+    if (startsWithAscii(payload, 0, EXIF_HEADER)) return 'exif';
+    if (startsWithAscii(payload, 0, 'http://ns.adobe.com/')) return 'xmp';
+    return 'other';
+  }
+  if (marker === 0xe2) {
+    return startsWithAscii(payload, 0, 'ICC_PROFILE\0') ? 'icc' : 'other';
+  }
+  if (marker === 0xed) return 'iptc';
+  // APP0 (JFIF) and APP14 (Adobe color transform) are needed to decode the pixels correctly
+  if (marker === 0xe0 || marker === 0xee) return null;
+  if (marker >= 0xe3 && marker <= 0xef) return 'other';
+  return null;
+};
+
+export const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const header = new Uint8Array([0xff, marker, 0, 0]);
+  new DataView(header.buffer).setUint16(2, payload.length + 2);
+  return concatBytes([header, payload]);
+};
+
+/**
+ * Finds the end of the entropy-coded data that follows a SOS header: the next marker that is
+ * neither a stuffed 0xFF00 nor a restart marker.
+ */
+const findScanEnd = (bytes: Uint8Array, offset: number): number => {
+  for (let i = offset; i < bytes.length - 1; i++) {
+    if (bytes[i] !== 0xff) continue;
+    const next = bytes[i + 1];
+    if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) return i;
+  }
+  return bytes.length;
+};
+
+/**
+ * Removes metadata segments from a JPEG without touching the entropy-coded image data.
+ * The file ends at the primary image's EOI: whatever follows, such as the MPF secondary images
+ * phones append with their own EXIF, is dropped.
+ */
+export const stripJpeg = (bytes: Uint8Array, options: StripOptions = DEFAULT_STRIP_OPTIONS): StripResult => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error("Not a JPEG file");
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed: StrippedSegment[] = [];
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error(`Corrupt JPEG: expected marker at offset ${offset}`);
+    }
+    const marker = bytes[offset + 1];
+
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9) {
+      parts.push(bytes.subarray(offset, offset + 2));
+      offset += 2;
+      if (offset < bytes.length) removed.push({ kind: 'other', label: 'Data after EOI', size: bytes.length - offset });
+      break;
+    }
+    // Standalone markers without a length field
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      parts.push(bytes.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    // Start of scan: the header and its entropy-coded data are copied as they are; progressive
+    // files have several scans with tables in between
+    if (marker === 0xda) {
+      const scanEnd = findScanEnd(bytes, end);
+      parts.push(bytes.subarray(offset, scanEnd));
+      offset = scanEnd;
+      continue;
+    }
+
+    const payload = bytes.subarray(offset + 4, end);
+    const kind = classifyJpegSegment(marker, payload);
+
+    if (kind === null || (kind === 'icc' && options.keepColorProfile)) {
+      parts.push(bytes.subarray(offset, end));
+    } else {
+      removed.push({ kind, label: marker === 0xfe ? 'COM' : `APP${marker - 0xe0}`, size: end - offset });
+      if (kind === 'exif') {
+        const orientation = orientationToKeep(stripExifHeader(payload), options);
+        if (orientation) {
+          const exifHeader = new TextEncoder().encode(EXIF_HEADER);
+          parts.push(jpegSegment(0xe1, concatBytes([exifHeader, buildOrientationTiff(orientation)])));
+        }
+      }
+    }
+    offset = end;
+  }
+
+  return { bytes: concatBytes(parts), mimeType: 'image/jpeg', removed };
+};
+
+// --- PNG ---
+
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const classifyPngChunk = (type: string, data: Uint8Array): MetadataSegmentKind | null => {
+  switch (type) {
+    case 'eXIf':
+      return 'exif';
+    case 'iCCP':
+      return 'icc';
+    case 'iTXt':
+      return startsWithAscii(data, 0, 'XML:com.adobe.xmp\0') ? 'xmp' : 'comment';
+    case 'tEXt':
+    case 'zTXt':
+      return 'comment';
+    case 'tIME':
+      return 'other';
+    default:
+      return null;
+  }
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/**
+ * Removes text, XMP, EXIF and timestamp chunks from a PNG. Pixel data chunks are copied as-is.
+ */
+export const stripPng = (bytes: Uint8Array, options: StripOptions = DEFAULT_STRIP_OPTIONS): StripResult => {
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+    throw new Error("Not a PNG file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  const removed: StrippedSegment[] = [];
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    const kind = classifyPngChunk(type, data);
+
+    if (kind === null || (kind === 'icc' && options.keepColorProfile)) {
+      parts.push(bytes.subarray(offset, end));
+    } else {
+      removed.push({ kind, label: type, size: end - offset });
+      if (kind === 'exif') {
+        const orientation = orientationToKeep(data, options);
+        if (orientation) parts.push(pngChunk('eXIf', buildOrientationTiff(orientation)));
+      }
+    }
+
+    offset = end;
+    if (type === 'IEND') break;
+  }
+
+  return { bytes: concatBytes(parts), mimeType: 'image/png', removed };
+};
+
+// --- WebP ---
+
+// VP8X feature flags (first byte of the VP8X payload)
+const VP8X_ICC = 0x20;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+const classifyWebpChunk = (fourCC: string): MetadataSegmentKind | null => {
+  if (fourCC === 'EXIF') return 'exif';
+  if (fourCC === 'XMP ') return 'xmp';
+  if (fourCC === 'ICCP') return 'icc';
+  return null;
+};
+
+export const riffChunk = (fourCC: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length + (data.length % 2);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(new TextEncoder().encode(fourCC), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+/**
+ * Removes EXIF, XMP and (optionally) ICC chunks from a WebP and fixes up the VP8X flags and RIFF size.
+ */
+export const stripWebp = (bytes: Uint8Array, options: StripOptions = DEFAULT_STRIP_OPTIONS): StripResult => {
+  if (!startsWithAscii(bytes, 0, 'RIFF') || !startsWithAscii(bytes, 8, 'WEBP')) {
+    throw new Error("Not a WebP file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  const removed: StrippedSegment[] = [];
+  let vp8x: Uint8Array | null = null;
+  let hasIcc = false;
+  let hasExif = false;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const fourCC = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+    const kind = classifyWebpChunk(fourCC);
+
+    if (kind === null || (kind === 'icc' && options.keepColorProfile)) {
+      // Copy so the VP8X flags can be patched without mutating the input
+      const chunk = bytes.slice(offset, end);
+      if (fourCC === 'VP8X') vp8x = chunk;
+      if (kind === 'icc') hasIcc = true;
+      chunks.push(chunk);
+    } else {
+      removed.push({ kind, label: fourCC.trim(), size: end - offset });
+      if (kind === 'exif') {
+        const orientation = orientationToKeep(stripExifHeader(data), options);
+        if (orientation) {
+          chunks.push(riffChunk('EXIF', buildOrientationTiff(orientation)));
+          hasExif = true;
+        }
+      }
+    }
+    offset = end;
+  }
+
+  if (vp8x) {
+    let flags = vp8x[8] & ~(VP8X_ICC | VP8X_EXIF | VP8X_XMP);
+    if (hasIcc) flags |= VP8X_ICC;
+    if (hasExif) flags |= VP8X_EXIF;
+    vp8x[8] = flags;
+  }
+
+  const header = bytes.slice(0, 12);
+  const body = concatBytes(chunks);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+
+  return { bytes: concatBytes([header, body]), mimeType: 'image/webp', removed };
+};
+
+// --- HEIF / AVIF ---
+
+export interface IsoBox {
+  type: string;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+export const readUint = (view: DataView, offset: number, size: number): number => {
+  if (size === 0) return 0;
+  if (size === 4) return view.getUint32(offset);
+  if (size === 8) return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+  return view.getUint16(offset);
+};
+
+export const readIsoBoxes = (bytes: Uint8Array, view: DataView, start: number, end: number): IsoBox[] => {
+  const boxes: IsoBox[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      size = readUint(view, offset + 8, 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset, contentStart: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'avif', 'avis'];
+
+/**
+ * Returns the MIME type of a HEIF container (HEIC or AVIF), or null for other ISO-BMFF files such as MP4.
+ */
+export const heifMimeType = (bytes: Uint8Array): string | null => {
+  if (!startsWithAscii(bytes, 4, 'ftyp')) return null;
+  const size = Math.min(new DataView(bytes.buffer, bytes.byteOffset).getUint32(0), bytes.length);
+  const brands = ascii(bytes, 8, Math.max(0, size - 8)).match(/.{4}/g) ?? [];
+  if (brands.some(brand => brand === 'avif' || brand === 'avis')) return 'image/avif';
+  return brands.some(brand => HEIF_BRANDS.includes(brand)) ? 'image/heic' : null;
+};
+
+interface HeifItem {
+  kind: MetadataSegmentKind;
+  extents: [number, number][]; // absolute [offset, length] ranges
+}
+
+/**
+ * Finds the Exif and XMP items of the primary "meta" box and where their payloads live.
+ */
+const findHeifMetadataItems = (bytes: Uint8Array, view: DataView, meta: IsoBox): HeifItem[] => {
+  const children = readIsoBoxes(bytes, view, meta.contentStart + 4, meta.end);
+  const iinf = children.find(box => box.type === 'iinf');
+  const iloc = children.find(box => box.type === 'iloc');
+  const idat = children.find(box => box.type === 'idat');
+  if (!iinf || !iloc) return [];
+
+  const kinds = new Map<number, MetadataSegmentKind>();
+  const entriesStart = iinf.contentStart + 4 + (bytes[iinf.contentStart] === 0 ? 2 : 4);
+  for (const infe of readIsoBoxes(bytes, view, entriesStart, iinf.end)) {
+    const version = bytes[infe.contentStart];
+    if (infe.type !== 'infe' || version < 2) continue;
+    let offset = infe.contentStart + 4;
+    const itemId = version === 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += (version === 2 ? 2 : 4) + 2;
+    const itemType = ascii(bytes, offset, 4);
+    if (itemType === 'Exif') {
+      kinds.set(itemId, 'exif');
+    } else if (itemType === 'mime') {
+      // item_name and content_type follow as null-terminated strings
+      const strings = ascii(bytes, offset + 4, infe.end - offset - 4).split('\0');
+      if (strings[1] === 'application/rdf+xml') kinds.set(itemId, 'xmp');
+    }
+  }
+
+  const version = bytes[iloc.contentStart];
+  let offset = iloc.contentStart + 4;
+  const offsetSize = bytes[offset] >> 4;
+  const lengthSize = bytes[offset] & 0x0f;
+  const baseOffsetSize = bytes[offset + 1] >> 4;
+  const indexSize = version === 1 || version === 2 ? bytes[offset + 1] & 0x0f : 0;
+  offset += 2;
+  const itemCount = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+  offset += version < 2 ? 2 : 4;
+
+  const items: HeifItem[] = [];
+  for (let i = 0; i < itemCount && offset < iloc.end; i++) {
+    const itemId = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 2 ? 2 : 4;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0x0f;
+      offset += 2;
+    }
+    offset += 2; // data_reference_index
+    const baseOffset = readUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+
+    const extents: [number, number][] = [];
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      const extentOffset = readUint(view, offset, offsetSize);
+      offset += offsetSize;
+      const extentLength = readUint(view, offset, lengthSize);
+      offset += lengthSize;
+      // Method 0 points into the file, method 1 into the idat box
+      const origin = constructionMethod === 0 ? 0 : constructionMethod === 1 && idat ? idat.contentStart : -1;
+      if (origin >= 0) extents.push([origin + baseOffset + extentOffset, extentLength]);
+    }
+
+    const kind = kinds.get(itemId);
+    if (kind && extents.every(([start, length]) => start + length <= bytes.length)) items.push({ kind, extents });
+  }
+  return items;
+};
+
+/**
+ * Writes data across an item's extents and pads the rest with the fill byte.
+ */
+const overwriteExtents = (bytes: Uint8Array, extents: [number, number][], data: Uint8Array, fill: number) => {
+  let written = 0;
+  for (const [start, length] of extents) {
+    const chunk = data.subarray(written, written + length);
+    bytes.set(chunk, start);
+    bytes.fill(fill, start + chunk.length, start + length);
+    written += chunk.length;
+  }
+};
+
+// An empty big-endian TIFF: header plus an IFD0 with no entries
+const EMPTY_TIFF = new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8, 0, 0, 0, 0, 0, 0]);
+
+/**
+ * Blanks the Exif and XMP items of a HEIC or AVIF file in place. Items are referenced by byte
+ * offsets, so payloads are overwritten rather than removed and the file size stays the same.
+ * Orientation and color live in the irot/imir and colr properties; an ICC "colr" is renamed
+ * to "free" when the profile should go.
+ */
+export const stripHeif = (bytes: Uint8Array, options: StripOptions = DEFAULT_STRIP_OPTIONS): StripResult => {
+  const mimeType = heifMimeType(bytes);
+  if (!mimeType) {
+    throw new Error("Not a HEIF file");
+  }
+
+  const out = bytes.slice();
+  const view = new DataView(out.buffer);
+  const removed: StrippedSegment[] = [];
+  const meta = readIsoBoxes(out, view, 0, out.length).find(box => box.type === 'meta');
+  if (!meta) return { bytes: out, mimeType, removed };
+
+  for (const item of findHeifMetadataItems(out, view, meta)) {
+    const size = item.extents.reduce((sum, [, length]) => sum + length, 0);
+    if (item.kind === 'exif') {
+      const [start] = item.extents[0];
+      // The payload starts with a 4-byte offset to the TIFF header, sometimes followed by "Exif\0\0"
+      const headerOffset = view.getUint32(start);
+      const tiff = out.subarray(start + 4 + headerOffset, start + size);
+      const orientation = orientationToKeep(stripExifHeader(tiff), options);
+      overwriteExtents(out, item.extents, concatBytes([new Uint8Array(4), orientation ? buildOrientationTiff(orientation) : EMPTY_TIFF]), 0);
+      removed.push({ kind: 'exif', label: 'Exif item', size });
+    } else {
+      overwriteExtents(out, item.extents, new Uint8Array(0), 0x20); // whitespace is an empty XMP packet
+      removed.push({ kind: 'xmp', label: 'XMP item', size });
+    }
+  }
+
+  if (!options.keepColorProfile) {
+    const iprp = readIsoBoxes(out, view, meta.contentStart + 4, meta.end).find(box => box.type === 'iprp');
+    const ipco = iprp && readIsoBoxes(out, view, iprp.contentStart, iprp.end).find(box => box.type === 'ipco');
+    for (const colr of ipco ? readIsoBoxes(out, view, ipco.contentStart, ipco.end) : []) {
+      const colourType = ascii(out, colr.contentStart, 4);
+      if (colr.type !== 'colr' || (colourType !== 'prof' && colourType !== 'rICC')) continue;
+      // Renaming keeps property indices intact; readers skip unknown properties
+      out.set(new TextEncoder().encode('free'), colr.start + 4);
+      out.fill(0, colr.contentStart, colr.end);
+      removed.push({ kind: 'icc', label: 'colr', size: colr.end - colr.start });
+    }
+  }
+
+  return { bytes: out, mimeType, removed };
+};
+
+// --- Dispatch ---
+
+/**
+ * Detects the container from its magic bytes and strips metadata losslessly.
+ * Returns null for formats that have no byte-level stripper.
+ */
+export const stripMetadata = (bytes: Uint8Array, options: StripOptions = DEFAULT_STRIP_OPTIONS): StripResult | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return stripJpeg(bytes, options);
+  if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return stripPng(bytes, options);
+  if (startsWithAscii(bytes, 0, 'RIFF') && startsWithAscii(bytes, 8, 'WEBP')) return stripWebp(bytes, options);
+  if (heifMimeType(bytes)) return stripHeif(bytes, options);
+  return null;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisProfile } from '../types';
+import { validateAnalysisResult } from './analysisValidator';
+import { analyzeImageWithMock } from './mockProvider';
+
+describe('analyzeImageWithMock', () => {
+  const image = { base64: 'aGVsbG8=', mimeType: 'image/jpeg' };
+
+  it('fills every profile field with a value the validator accepts', async () => {
+    const profile: AnalysisProfile = {
+      id: 'all-types',
+      name: 'All types',
+      instructions: '',
+      fields: [
+        { key: 'vendor', label: 'Vendor', type: 'string', required: true },
+        { key: 'total', label: 'Total', type: 'number', required: true },
+        { key: 'items', label: 'Items', type: 'integer', required: true },
+        { key: 'paid', label: 'Paid', type: 'boolean', required: false },
+        { key: 'date', label: 'Date', type: 'date', required: true },
+        { key: 'method', label: 'Method', type: 'enum', options: ['Card', 'Cash'], required: true },
+        { key: 'tags', label: 'Tags', type: 'list', required: false },
+      ],
+    };
+    const { result, issues } = validateAnalysisResult(await analyzeImageWithMock(image, profile), profile);
+    expect(issues).toEqual([]);
+    expect(Object.fromEntries(result.customFields!.map(field => [field.key, field.value]))).toEqual({
+      vendor: 'Sample vendor',
+      total: 12.5,
+      items: 3,
+      paid: true,
+      date: '2024-01-15',
+      method: 'Card',
+      tags: ['Tags 1', 'Tags 2'],
+    });
+  });
+
+  it('returns the plain fixture without profile fields', async () => {
+    expect(await analyzeImageWithMock(image)).not.toHaveProperty('customFields');
+  });
+});
@@ -0,0 +1,76 @@
+import { AnalysisProfile, CustomFieldValue, ImagePayload, ProfileField } from '../types';
+import { AnalysisProvider, ProviderCallOptions } from './analysisProvider';
+import fixtures from '../fixtures/analysisResults.json';
+import documentFixtures from '../fixtures/documentResults.json';
+
+// djb2 over a sample of the payload: cheap, stable and good enough to spread images over fixtures
+const hashString = (value: string): number => {
+  let hash = 5381;
+  const step = Math.max(1, Math.floor(value.length / 4096));
+  for (let i = 0; i < value.length; i += step) {
+    hash = (hash * 33) ^ value.charCodeAt(i);
+  }
+  return hash >>> 0;
+};
+
+// Characters per replayed chunk
+const STREAM_CHUNK = 48;
+
+// Hands the fixture out in pieces, one per task, the way a streaming backend would
+const replay = async (fixture: unknown, { signal, onText }: ProviderCallOptions): Promise<unknown> => {
+  const text = JSON.stringify(fixture);
+  for (let end = STREAM_CHUNK; onText && end < text.length; end += STREAM_CHUNK) {
+    signal?.throwIfAborted();
+    onText(text.slice(0, end));
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  signal?.throwIfAborted();
+  onText?.(text);
+  return JSON.parse(text);
+};
+
+// A value of the field's type that passes validation unchanged
+const placeholderValue = (field: ProfileField): CustomFieldValue => {
+  switch (field.type) {
+    case 'string':
+      return `Sample ${field.label.toLowerCase()}`;
+    case 'number':
+      return 12.5;
+    case 'integer':
+      return 3;
+    case 'boolean':
+      return true;
+    case 'date':
+      return '2024-01-15';
+    case 'enum':
+      return field.options?.[0] ?? null;
+    case 'list':
+      return [`${field.label} 1`, `${field.label} 2`];
+  }
+};
+
+/**
+ * Deterministic offline provider for tests and air-gapped use.
+ * The same image always maps to the same fixture result, with placeholders for the profile's fields.
+ */
+export const analyzeImageWithMock = (
+  image: ImagePayload,
+  profile?: AnalysisProfile,
+  options: ProviderCallOptions = {}
+): Promise<unknown> => {
+  const fixture = fixtures[hashString(image.base64) % fixtures.length];
+  if (!profile?.fields.length) return replay(fixture, options);
+  const customFields = Object.fromEntries(profile.fields.map(field => [field.key, placeholderValue(field)]));
+  return replay({ ...fixture, customFields }, options);
+};
+
+export const extractDocumentWithMock = (image: ImagePayload, options: ProviderCallOptions = {}): Promise<unknown> =>
+  replay(documentFixtures[hashString(image.base64) % documentFixtures.length], options);
+
+export const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Mock (offline fixtures)',
+  defaultModel: 'fixtures',
+  analyze: (image, _settings, profile, options) => analyzeImageWithMock(image, profile, options),
+  extractDocument: (image, _settings, _scanned, options) => extractDocumentWithMock(image, options),
+};
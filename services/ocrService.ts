@@ -0,0 +1,130 @@
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import { OcrBox, OcrResult } from '../types';
+import { getDecodableImage } from './decoderService';
+
+// Tesseract traineddata codes joined with "+", e.g. "eng+deu"
+export const DEFAULT_OCR_LANGUAGES = 'eng';
+// Codes whose traineddata is bundled with the app, one per installed @tesseract.js-data package
+export const BUNDLED_OCR_LANGUAGES = (process.env.OCR_LANGUAGES ?? '').split('+').filter(Boolean);
+const STORAGE_KEY = 'ocrLanguages';
+
+// Larger images are downscaled before recognition; text at this size is still legible
+const MAX_OCR_EDGE = 2500;
+
+export const loadOcrLanguages = (): string =>
+  localStorage.getItem(STORAGE_KEY) || DEFAULT_OCR_LANGUAGES;
+
+export const saveOcrLanguages = (languages: string) => {
+  localStorage.setItem(STORAGE_KEY, languages);
+};
+
+// tesseract.js runs recognition in its own web worker; we keep one around and
+// only reinitialize it when the language set changes
+let workerPromise: Promise<Worker> | null = null;
+let workerLanguages = '';
+
+// The worker script, WASM core and traineddata are served by the app (see vite.config.ts), so OCR
+// never reaches a CDN. The core and language data are loaded from inside the worker, hence absolute URLs.
+const workerOptions = () => {
+  const base = new URL('tesseract/', document.baseURI).href;
+  return {
+    workerPath: `${base}worker.min.js`,
+    corePath: `${base}core`,
+    langPath: `${base}lang`,
+    workerBlobURL: false,
+  };
+};
+
+const checkLanguages = (languages: string) => {
+  const missing = languages.split('+').filter(code => !BUNDLED_OCR_LANGUAGES.includes(code));
+  if (missing.length > 0) {
+    throw new Error(`No OCR data for ${missing.map(code => `"${code}"`).join(', ')}. Available: ${BUNDLED_OCR_LANGUAGES.join(', ') || 'none'}; more can be bundled by installing @tesseract.js-data/<code>.`);
+  }
+};
+
+const getWorker = async (languages: string): Promise<Worker> => {
+  checkLanguages(languages);
+  if (!workerPromise) {
+    workerLanguages = languages;
+    workerPromise = createWorker(languages, OEM.LSTM_ONLY, workerOptions()).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+    return workerPromise;
+  }
+  const worker = await workerPromise;
+  if (workerLanguages !== languages) {
+    await worker.reinitialize(languages);
+    workerLanguages = languages;
+  }
+  return worker;
+};
+
+/**
+ * Draws the image with its EXIF orientation applied, so boxes line up with the <img> preview.
+ */
+const toCanvas = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(await getDecodableImage(file));
+  const scale = Math.min(1, MAX_OCR_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas;
+};
+
+// tesseract.js cannot cancel a single job, so an abort ends the whole worker and the next call starts a new one
+const abortable = <T>(worker: Worker, job: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return job;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      workerPromise = null;
+      worker.terminate().catch(() => undefined);
+      reject(signal.reason);
+    };
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    job
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+const toBox = ({ x0, y0, x1, y1 }: OcrBox): OcrBox => ({ x0, y0, x1, y1 });
+
+/**
+ * Runs local OCR and returns lines and words with bounding boxes in the coordinate space
+ * of `width` x `height`. Aborting the signal stops the recognition.
+ */
+export const recognizeText = async (file: Blob, languages: string = DEFAULT_OCR_LANGUAGES, signal?: AbortSignal): Promise<OcrResult> => {
+  const [worker, canvas] = await Promise.all([getWorker(languages), toCanvas(file)]);
+  const { data } = await abortable(worker, worker.recognize(canvas), signal);
+
+  const lines = data.lines
+    .map(line => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      bbox: toBox(line.bbox),
+      words: line.words
+        .filter(word => word.text.trim())
+        .map(word => ({ text: word.text, confidence: word.confidence, bbox: toBox(word.bbox) })),
+    }))
+    .filter(line => line.words.length > 0);
+
+  // The language most characters were recognized with
+  const charsByLanguage = new Map<string, number>();
+  data.words.forEach(word => {
+    if (word.language) charsByLanguage.set(word.language, (charsByLanguage.get(word.language) ?? 0) + word.text.length);
+  });
+  const language = [...charsByLanguage.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return {
+    text: data.text.trim(),
+    confidence: lines.length > 0 ? data.confidence : 0,
+    language,
+    width: canvas.width,
+    height: canvas.height,
+    lines,
+  };
+};
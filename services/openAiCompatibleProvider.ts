@@ -0,0 +1,147 @@
+import { Schema } from "@google/genai";
+import { AnalysisProfile, ImagePayload } from '../types';
+import { AnalysisError } from './analysisErrors';
+import { AnalysisProvider, ProviderCallOptions } from './analysisProvider';
+import { buildAnalysisPrompt, buildDocumentPrompt, buildResponseSchema, DOCUMENT_RESPONSE_SCHEMA, toJsonSchema } from './analysisPrompt';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server defaults to http://localhost:8080/v1
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// Local models often wrap JSON in a markdown code fence despite the response format
+const extractJson = (content: string): string => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return fenced ? fenced[1] : content;
+};
+
+// What a streamed reply looks like once its opening fence is dropped, so partial parsing can see it
+const stripOpeningFence = (content: string): string => content.replace(/^\s*```(?:json)?\s*/, '');
+
+const blockedError = () => new AnalysisError('blocked', "The server's content filter blocked the request");
+
+/**
+ * Reads a server-sent event stream of completion chunks and returns the whole message content.
+ */
+const readEventStream = async (response: Response, onText?: (text: string) => void): Promise<string> => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let content = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return content;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      const data = line.match(/^data:(.*)$/)?.[1].trim();
+      if (!data || data === '[DONE]') continue;
+      const choice = JSON.parse(data)?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw blockedError();
+      const delta: string | undefined = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        onText?.(stripOpeningFence(content));
+      }
+    }
+  }
+};
+
+/**
+ * Calls a /chat/completions endpoint with the image as a data URL and a JSON schema response format.
+ * The reply is streamed when the server supports it; servers that ignore `stream` answer in one piece.
+ */
+const completeJson = async (
+  image: ImagePayload,
+  prompt: string,
+  schemaName: string,
+  schema: Schema,
+  model: string,
+  baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+  apiKey?: string,
+  { signal, onText }: ProviderCallOptions = {}
+): Promise<unknown> => {
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            ...[image, ...(image.tiles ?? [])].map(part => (
+              { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.base64}` } }
+            )),
+          ],
+        },
+      ],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: schemaName, strict: true, schema: toJsonSchema(schema) },
+      },
+      temperature: 0,
+      stream: true,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+  }
+
+  let content: string | undefined;
+  if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    content = await readEventStream(response, onText);
+  } else {
+    const choice = (await response.json())?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') throw blockedError();
+    content = choice?.message?.content;
+  }
+  if (!content) {
+    throw new AnalysisError('schema', "No message content in completion response");
+  }
+  return JSON.parse(extractJson(content));
+};
+
+export const analyzeImageWithOpenAiCompatible = (
+  image: ImagePayload,
+  model: string,
+  baseUrl?: string,
+  apiKey?: string,
+  profile?: AnalysisProfile,
+  options?: ProviderCallOptions
+): Promise<unknown> =>
+  completeJson(image, buildAnalysisPrompt(image, profile), 'image_analysis', buildResponseSchema(profile), model, baseUrl, apiKey, options);
+
+export const extractDocumentWithOpenAiCompatible = (
+  image: ImagePayload,
+  scanned: boolean,
+  model: string,
+  baseUrl?: string,
+  apiKey?: string,
+  options?: ProviderCallOptions
+): Promise<unknown> =>
+  completeJson(image, buildDocumentPrompt(image, scanned), 'document_extraction', DOCUMENT_RESPONSE_SCHEMA, model, baseUrl, apiKey, options);
+
+export const openAiCompatibleProvider: AnalysisProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible (local)',
+  defaultModel: 'llava',
+  // The formats OpenAI's API documents; local servers decode even fewer
+  supportedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  estimateImageTokens: (width, height) => {
+    // OpenAI's high-detail rule: fit 2048px, shorten the short side to 768px, then 170 tokens per 512px tile
+    const fit = Math.min(1, 2048 / Math.max(width, height));
+    const shrink = Math.min(1, 768 / (Math.min(width, height) * fit));
+    const w = width * fit * shrink;
+    const h = height * fit * shrink;
+    return 85 + 170 * Math.ceil(w / 512) * Math.ceil(h / 512);
+  },
+  analyze: (image, settings, profile, options) =>
+    analyzeImageWithOpenAiCompatible(image, settings.model, settings.baseUrl, settings.apiKey, profile, options),
+  extractDocument: (image, settings, scanned, options) =>
+    extractDocumentWithOpenAiCompatible(image, scanned, settings.model, settings.baseUrl, settings.apiKey, options),
+};
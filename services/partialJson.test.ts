@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { readPartialAnalysis } from './analysisValidator';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it.each([
+    ['{"ocrText": "Hello wor', { ocrText: 'Hello wor' }],
+    ['["a", "bc', ['a', 'bc']],
+    ['{"ocrText": "line\\', { ocrText: 'line' }],
+    ['{"ocrText": "tab\\t and \\', { ocrText: 'tab\t and ' }],
+    ['{"ocrText": "caf\\u00e9 \\u12', { ocrText: 'café ' }],
+    ['{"ocrText": "\\u', { ocrText: '' }],
+  ])('cuts a string value at the end of %s', (text, expected) => {
+    expect(parsePartialJson(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['{"peopleCount": 1', {}],
+    ['{"a": 1, "peopleCount": -12.5e', { a: 1 }],
+    ['{"isSafe": tr', {}],
+    ['{"isSafe": true', {}],
+    ['{"a": "x", "faceEmotion": nul', { a: 'x' }],
+    ['[1, 2, 3', [1, 2]],
+  ])('leaves out the unfinished scalar in %s', (text, expected) => {
+    expect(parsePartialJson(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['{"objects": ["cat", "dog"', { objects: ['cat', 'dog'] }],
+    ['{"authenticity": {"isLikelyEdited": false, "reason": "No', { authenticity: { isLikelyEdited: false, reason: 'No' } }],
+    ['{"a": [1, [2, {"b": "c"', { a: [1, [2, { b: 'c' }]] }],
+    ['[[[', [[[]]]],
+    ['{"a": {"b": {', { a: { b: {} } }],
+  ])('closes the containers left open in %s', (text, expected) => {
+    expect(parsePartialJson(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['{"isSafe": true,', { isSafe: true }],
+    ['{"isSafe": true, ', { isSafe: true }],
+    ['["a",', ['a']],
+    ['{"isSafe": true, "sceneType":', { isSafe: true }],
+    ['{"isSafe": true, "sceneType": ', { isSafe: true }],
+    ['{"isSafe": true, "scene', { isSafe: true }],
+    ['{"isSafe": true, "sceneType"', { isSafe: true }],
+  ])('drops the trailing separator or key in %s', (text, expected) => {
+    expect(parsePartialJson(text)).toEqual(expected);
+  });
+
+  it.each([
+    '{}',
+    '[]',
+    '"text"',
+    '{"objects": ["cat", "dog"], "peopleCount": 2, "isSafe": true, "faceEmotion": null}',
+    '{"ocrText": "Line 1\\nLine 2 \\"quoted\\" \\\\ caf\\u00e9 \\ud83d\\ude00", "score": -1.5e-3}',
+    '{"a": [1, [2, {"b": [false, {}]}], []], "c": {"d": {"e": 0}}}',
+    ' \n{ "a" : [ 1 , 2 ] }\n ',
+    '[{"a": 1}, {"b": "}"}, "]"]',
+  ])('parses complete input like JSON.parse: %s', text => {
+    expect(parsePartialJson(text)).toStrictEqual(JSON.parse(text));
+  });
+
+  it.each([
+    ['', undefined],
+    ['   ', undefined],
+    ['{"objec', {}],
+    ['{"objects"', {}],
+  ])('has nothing usable yet in %j', (text, expected) => {
+    expect(parsePartialJson(text)).toEqual(expected);
+  });
+});
+
+describe('readPartialAnalysis', () => {
+  it('keeps only fields that are already complete and well-typed', () => {
+    expect(readPartialAnalysis(parsePartialJson(
+      '{"objects": ["cat", 3, "dog"], "peopleCount": 2, "sceneType": "Beach", "imageCategory": "Photo", "isSafe": true, "ocrText": "Sum'
+    ))).toEqual({
+      objects: ['cat', 'dog'],
+      peopleCount: 2,
+      sceneType: 'Beach',
+      imageCategory: 'Photo',
+      isSafe: true,
+      ocrText: 'Sum',
+    });
+  });
+
+  it('ignores values outside the schema', () => {
+    expect(readPartialAnalysis({
+      objects: 'cat',
+      peopleCount: '2',
+      imageCategory: 'Landscape',
+      faceEmotion: 'Bored',
+      isSafe: 'yes',
+    })).toEqual({});
+  });
+
+  it('waits for authenticity to be complete', () => {
+    const partial = '{"authenticity": {"isLikelyEdited": true, "reason": "Cloned sky';
+    expect(readPartialAnalysis(parsePartialJson(partial))).toEqual({});
+    expect(readPartialAnalysis(parsePartialJson(`${partial}", "score": 20}`))).toEqual({
+      authenticity: { isLikelyEdited: true, reason: 'Cloned sky', score: 20 },
+    });
+  });
+
+  it.each([undefined, null, 'text', 42, ['a']])('returns nothing for %j', input => {
+    expect(readPartialAnalysis(input)).toEqual({});
+  });
+});
@@ -0,0 +1,99 @@
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+const close = (stack: string) => [...stack].reverse().map(open => CLOSERS[open]).join('');
+
+/**
+ * Parses the beginning of a JSON document, as it arrives from a streaming response, by closing
+ * whatever is still open. Values are only included once they are complete, except that an
+ * unfinished string value is cut where the text ends. Returns undefined when nothing usable has
+ * arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  // Open objects and arrays, innermost last
+  let stack = '';
+  // Per open container: whether the next string in it is an object key
+  const expectsKey: boolean[] = [];
+  let inString = false;
+  let inKey = false;
+  let escaped = false;
+  // A \uXXXX escape still waiting for hex digits, and where it began
+  let unicodeLeft = 0;
+  let unicodeFrom = 0;
+  let inScalar = false;
+  // The last point where the text could end in valid JSON once the open containers are closed
+  let cut = -1;
+  let cutStack = '';
+  const markCut = (end: number) => {
+    cut = end;
+    cutStack = stack;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (unicodeLeft > 0) {
+        unicodeLeft--;
+      } else if (escaped) {
+        escaped = false;
+        if (char === 'u') {
+          unicodeFrom = i - 1;
+          unicodeLeft = 4;
+        }
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (!inKey) markCut(i + 1);
+      }
+      continue;
+    }
+    if (inScalar) {
+      // Numbers, true, false and null end at the next delimiter
+      if (!/[\s,\]}]/.test(char)) continue;
+      inScalar = false;
+      markCut(i);
+    }
+    switch (char) {
+      case '"':
+        inString = true;
+        inKey = stack.endsWith('{') && expectsKey[expectsKey.length - 1];
+        break;
+      case '{':
+      case '[':
+        stack += char;
+        expectsKey.push(char === '{');
+        markCut(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack = stack.slice(0, -1);
+        expectsKey.pop();
+        markCut(i + 1);
+        break;
+      case ':':
+        expectsKey[expectsKey.length - 1] = false;
+        break;
+      case ',':
+        if (stack.endsWith('{')) expectsKey[expectsKey.length - 1] = true;
+        break;
+      default:
+        if (!/\s/.test(char)) inScalar = true;
+    }
+  }
+
+  if (inString && !inKey) {
+    // Drop a dangling escape so the cut string still parses
+    const body = escaped ? text.slice(0, -1) : unicodeLeft > 0 ? text.slice(0, unicodeFrom) : text;
+    try {
+      return JSON.parse(`${body}"${close(stack)}`);
+    } catch {
+      // Fall back to the last complete value
+    }
+  }
+  if (cut < 0) return undefined;
+  try {
+    return JSON.parse(text.slice(0, cut) + close(cutStack));
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,235 @@
+import { AIAnalysisResult, ExifData, ExifEdits, OcrResult, PrivacyAudit, PrivacyFinding, PrivacyFindingId } from '../types';
+import { splitTimestamp } from './timestampService';
+
+// Contribution of each finding to the 0-100 risk score
+const WEIGHTS: Record<PrivacyFindingId, number> = {
+  gps: 40,
+  'pii-card': 35,
+  'pii-address': 20,
+  faces: 20,
+  'device-serial': 15,
+  'owner-name': 15,
+  'pii-email': 15,
+  'pii-phone': 15,
+  'precise-time': 10,
+  'device-model': 5,
+};
+
+const severityOf = (weight: number): PrivacyFinding['severity'] =>
+  weight >= 30 ? 'high' : weight >= 15 ? 'medium' : 'low';
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+// An optional country code, then 7-15 digits with common separators
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}/g;
+const DATE_LIKE = /^(?:\d{4}[-./]\d{2}[-./]\d{2}|\d{2}[-./]\d{2}[-./]\d{4})$/;
+const CARD_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+const STREET_PATTERN = /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Terrace|Square|Sq)\b\.?/g;
+// German, Dutch, French, etc. style "Musterstraße 12"
+const STREET_SUFFIX_PATTERN = /\b[A-ZÄÖÜ][a-zäöüß]+(?:straße|strasse|weg|gasse|platz|laan|straat|allee)\s+\d{1,4}[a-z]?\b/g;
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// Card numbers carry a Luhn check digit, which rules out most other long digit runs
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Common licence plate layouts: German "B MW 1234", French "AB-123-CD", British "AB12 CDE",
+// Californian "7ABC123" and the widespread "ABC-1234"
+const PLATE_PATTERN = /\b(?:[A-Z]{1,3}[ -][A-Z]{1,2}[ -]?\d{1,4}[EH]?|[A-Z]{2}-\d{3}-[A-Z]{2}|[A-Z]{2}\d{2} ?[A-Z]{3}|\d[A-Z]{3}\d{3}|[A-Z]{3}[ -]?\d{3,4})\b/g;
+// "MAY 2024" has the shape of a plate
+const MONTH_PREFIX = /^(?:JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)\b/;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+// The value after an ID label, e.g. "Passport No. X1234567"
+const LABELED_ID_PATTERN = /\b(?:ID|Passport|Licen[cs]e|Document|Card|Member|Account|Policy|Patient)\s*(?:No\.?|Nr\.?|Number|#)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,})/gi;
+// The value after a name label, e.g. "Name: Jane Doe" or "Nachname MUSTERMANN"
+const LABELED_NAME_PATTERN = /\b(?:Name|Surname|Given names?|First name|Last name|Full name|Vorname|Nachname|Nom|Prénom)[ \t]*[:/]?[ \t]+(\p{Lu}[\p{L}'-]+(?:[ \t]+\p{Lu}[\p{L}'-]+){0,3})/gu;
+
+export type SensitiveTextKind = 'email' | 'phone' | 'card' | 'address' | 'plate' | 'id' | 'name';
+
+export interface SensitiveSpan {
+  kind: SensitiveTextKind;
+  text: string;
+  start: number; // offsets into the scanned text
+  end: number;
+}
+
+// Spans of the whole match, or of its first group when the pattern has one
+const spansOf = (text: string, pattern: RegExp, kind: SensitiveTextKind): SensitiveSpan[] =>
+  [...text.matchAll(pattern)].map(match => {
+    const value = match[1] ?? match[0];
+    const start = match.index! + match[0].lastIndexOf(value);
+    return { kind, text: value, start, end: start + value.length };
+  });
+
+const overlaps = (a: SensitiveSpan, b: SensitiveSpan) => a.start < b.end && b.start < a.end;
+
+/**
+ * Finds e-mail addresses, phone numbers, payment card numbers, street addresses, licence plates,
+ * ID numbers and labeled names in text. Where matches overlap, the kind listed first wins.
+ */
+export const findSensitiveSpans = (text: string): SensitiveSpan[] => {
+  const candidates = [
+    ...spansOf(text, EMAIL_PATTERN, 'email'),
+    ...spansOf(text, CARD_PATTERN, 'card').filter(span => passesLuhn(digitsOf(span.text))),
+    ...spansOf(text, SSN_PATTERN, 'id'),
+    ...spansOf(text, IBAN_PATTERN, 'id'),
+    ...spansOf(text, LABELED_ID_PATTERN, 'id'),
+    ...spansOf(text, STREET_PATTERN, 'address'),
+    ...spansOf(text, STREET_SUFFIX_PATTERN, 'address'),
+    ...spansOf(text, LABELED_NAME_PATTERN, 'name'),
+    ...spansOf(text, PHONE_PATTERN, 'phone').filter(span => {
+      const digits = digitsOf(span.text);
+      return digits.length >= 7 && digits.length <= 15 && !DATE_LIKE.test(span.text.trim());
+    }),
+    ...spansOf(text, PLATE_PATTERN, 'plate').filter(span => !MONTH_PREFIX.test(span.text)),
+  ];
+  const spans: SensitiveSpan[] = [];
+  candidates.forEach(span => {
+    if (!spans.some(kept => overlaps(kept, span))) spans.push(span);
+  });
+  return spans.sort((a, b) => a.start - b.start);
+};
+
+const unique = (values: string[]) => [...new Set(values.map(value => value.trim()))];
+
+const maskEmail = (email: string) => {
+  const [user, domain] = email.split('@');
+  return `${user[0]}***@${domain}`;
+};
+
+const maskDigits = (value: string) => {
+  const digits = digitsOf(value);
+  return `•••• ${digits.slice(-4)}`;
+};
+
+const listed = (values: string[]) => values.slice(0, 3).join(', ') + (values.length > 3 ? ` and ${values.length - 3} more` : '');
+
+/**
+ * Reports e-mail addresses, phone numbers, payment card numbers and street addresses found in
+ * recognized text. Matches are returned masked, so the report itself does not repeat them.
+ */
+const findTextPii = (text: string): PrivacyFinding[] => {
+  const findings: PrivacyFinding[] = [];
+  const spans = findSensitiveSpans(text);
+  const add = (id: PrivacyFindingId, kind: SensitiveTextKind, title: string, mask: (value: string) => string, fix: string) => {
+    const matches = unique(spans.filter(span => span.kind === kind).map(span => mask(span.text)));
+    if (matches.length === 0) return;
+    findings.push({ id, severity: severityOf(WEIGHTS[id]), title, detail: `Found ${listed(matches)}`, fix, fields: [] });
+  };
+
+  add('pii-card', 'card', 'Payment card number in the image', maskDigits, 'Redact the card number before sharing.');
+  add('pii-address', 'address', 'Street address in the image', value => value, 'Redact the address before sharing.');
+  add('pii-email', 'email', 'E-mail address in the image', maskEmail, 'Redact the e-mail address before sharing.');
+  add('pii-phone', 'phone', 'Phone number in the image', maskDigits, 'Redact the phone number before sharing.');
+  return findings;
+};
+
+const TIME_FIELDS: (keyof ExifData)[] = ['dateTimeOriginal', 'createDate', 'modifyDate', 'gpsTimestamp', 'offsetTimeOriginal'];
+const GPS_FIELDS: (keyof ExifData)[] = ['latitude', 'longitude', 'altitude', 'gpsDirection', 'gpsDirectionRef', 'gpsTimestamp'];
+
+/**
+ * Combines metadata, the AI analysis and recognized text into a scored list of privacy risks,
+ * each with the fix for it.
+ */
+export const auditPrivacy = (
+  exif: ExifData | null,
+  aiAnalysis: AIAnalysisResult | null,
+  ocr?: OcrResult
+): PrivacyAudit => {
+  const findings: PrivacyFinding[] = [];
+  const add = (finding: Omit<PrivacyFinding, 'severity'>) => {
+    findings.push({ ...finding, severity: severityOf(WEIGHTS[finding.id]) });
+  };
+
+  if (exif?.latitude !== undefined && exif.longitude !== undefined) {
+    add({
+      id: 'gps',
+      title: 'GPS location',
+      detail: `Coordinates ${exif.latitude.toFixed(5)}, ${exif.longitude.toFixed(5)} pinpoint where this was taken`
+        + (exif.gpsDirection !== undefined ? ', including the direction the camera faced' : ''),
+      fix: 'Remove the GPS coordinates, altitude, heading and GPS time.',
+      fields: GPS_FIELDS,
+    });
+  }
+  if (exif?.serialNumber || exif?.lensSerialNumber) {
+    add({
+      id: 'device-serial',
+      title: 'Device serial number',
+      detail: 'A serial number links every photo from this camera or lens, across sites and accounts',
+      fix: 'Remove the body and lens serial numbers.',
+      fields: ['serialNumber', 'lensSerialNumber'],
+    });
+  }
+  if (exif?.ownerName || exif?.artist) {
+    add({
+      id: 'owner-name',
+      title: 'Owner name',
+      detail: `The file names ${listed(unique([exif.ownerName, exif.artist].filter((name): name is string => !!name)))}`,
+      fix: 'Remove the camera owner and artist fields.',
+      fields: ['ownerName', 'artist'],
+    });
+  }
+  if (exif?.make || exif?.model || exif?.software) {
+    add({
+      id: 'device-model',
+      title: 'Device and software',
+      detail: [exif.make, exif.model, exif.software].filter(Boolean).join(' · '),
+      fix: 'Remove the camera make, model and software.',
+      fields: ['make', 'model', 'software'],
+    });
+  }
+  // A date alone is rarely sensitive; the time of day, down to the second, reveals routines
+  const timestamps = [exif?.dateTimeOriginal, exif?.createDate, exif?.gpsTimestamp].filter((value): value is string => !!value);
+  const precise = timestamps.find(value => {
+    const parts = splitTimestamp(value);
+    return !!parts && parts.dateTime.slice(11) !== '00:00:00';
+  });
+  if (precise) {
+    add({
+      id: 'precise-time',
+      title: 'Precise capture time',
+      detail: `Taken at ${precise}`,
+      fix: 'Remove the capture, digitized, modified and GPS timestamps.',
+      fields: TIME_FIELDS,
+    });
+  }
+
+  if (aiAnalysis && (aiAnalysis.peopleCount > 0 || aiAnalysis.imageCategory === 'Selfie')) {
+    add({
+      id: 'faces',
+      title: aiAnalysis.imageCategory === 'Selfie' ? 'Selfie' : 'People in the image',
+      detail: `The model counted ${aiAnalysis.peopleCount} person(s)`,
+      fix: 'Blur or crop out faces that should not be recognizable.',
+      fields: [],
+    });
+  }
+
+  const text = [aiAnalysis?.ocrText, ocr?.text].filter(Boolean).join('\n');
+  findings.push(...findTextPii(text));
+
+  findings.sort((a, b) => WEIGHTS[b.id] - WEIGHTS[a.id]);
+  const score = Math.min(100, findings.reduce((sum, finding) => sum + WEIGHTS[finding.id], 0));
+  return { score, level: score >= 50 ? 'high' : score >= 20 ? 'medium' : 'low', findings };
+};
+
+/**
+ * Field edits that remove what the selected findings point at and keep everything else.
+ */
+export const editsForFindings = (findings: PrivacyFinding[]): ExifEdits => {
+  const edits: ExifEdits = {};
+  findings.forEach(finding => finding.fields.forEach(field => {
+    edits[field] = { action: 'remove' };
+  }));
+  return edits;
+};
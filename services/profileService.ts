@@ -0,0 +1,133 @@
+import { AnalysisProfile, CustomFieldValue, ProfileField } from '../types';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const BUILT_IN_PROFILES: AnalysisProfile[] = [
+  { id: DEFAULT_PROFILE_ID, name: 'General', instructions: '', fields: [], builtIn: true },
+  {
+    id: 'receipt',
+    name: 'Receipt',
+    instructions: 'The image is likely a receipt or invoice. Read the amounts from the printed totals, not from line items.',
+    fields: [
+      { key: 'vendor', label: 'Vendor', type: 'string', description: 'Name of the shop or company that issued it', required: true },
+      { key: 'total', label: 'Total', type: 'number', description: 'Grand total including tax, as a plain number', required: true },
+      { key: 'currency', label: 'Currency', type: 'string', description: 'ISO 4217 code, e.g. EUR', required: false },
+      { key: 'date', label: 'Date', type: 'date', description: 'Date of purchase', required: false },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'id-document',
+    name: 'ID Document',
+    instructions: 'The image is likely an identity document. Do not transcribe the holder\'s name or document number into any field other than ocrText.',
+    fields: [
+      {
+        key: 'documentType',
+        label: 'Document Type',
+        type: 'enum',
+        options: ['Passport', 'ID Card', 'Driving Licence', 'Residence Permit', 'Other'],
+        required: true,
+      },
+      { key: 'issuingCountry', label: 'Issuing Country', type: 'string', description: 'ISO 3166-1 alpha-3 code, e.g. DEU', required: false },
+      { key: 'expiryDate', label: 'Expiry Date', type: 'date', required: false },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'product',
+    name: 'Product Shot',
+    instructions: 'The image is likely a product photo. Read brand and codes from the packaging or labels.',
+    fields: [
+      { key: 'brand', label: 'Brand', type: 'string', required: true },
+      { key: 'productName', label: 'Product', type: 'string', required: false },
+      { key: 'sku', label: 'SKU', type: 'string', description: 'Article number, SKU or barcode digits', required: false },
+    ],
+    builtIn: true,
+  },
+];
+
+const STORAGE_KEY = 'analysisProfiles';
+const SELECTED_STORAGE_KEY = 'analysisProfileId';
+
+// Property names the base schema already uses, or that would not survive as JSON keys
+const RESERVED_KEYS = ['customFields', 'profile', 'schemaVersion', '__proto__', 'constructor', 'prototype'];
+
+/**
+ * Checks a profile before it is saved. Returns a message for the first problem found.
+ */
+export const validateProfile = (profile: AnalysisProfile): string | null => {
+  if (!profile.name.trim()) return "The profile needs a name";
+  const keys = new Set<string>();
+  for (const field of profile.fields) {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(field.key)) {
+      return `Field key "${field.key}" must start with a letter and contain only letters, digits and underscores`;
+    }
+    if (RESERVED_KEYS.includes(field.key)) return `Field key "${field.key}" is reserved`;
+    if (keys.has(field.key)) return `Field key "${field.key}" is used twice`;
+    keys.add(field.key);
+    if (!field.label.trim()) return `Field "${field.key}" needs a label`;
+    if (field.type === 'enum' && !field.options?.length) return `Field "${field.key}" needs at least one option`;
+  }
+  return null;
+};
+
+/**
+ * The built-in profiles followed by the user's own.
+ */
+export const loadProfiles = (): AnalysisProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const custom = stored ? (JSON.parse(stored) as AnalysisProfile[]) : [];
+    return [...BUILT_IN_PROFILES, ...custom.filter(profile => !validateProfile(profile))];
+  } catch (error) {
+    console.error("Failed to load analysis profiles", error);
+    return BUILT_IN_PROFILES;
+  }
+};
+
+export const saveProfiles = (profiles: AnalysisProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.filter(profile => !profile.builtIn)));
+};
+
+export const loadSelectedProfileId = (): string =>
+  localStorage.getItem(SELECTED_STORAGE_KEY) || DEFAULT_PROFILE_ID;
+
+export const saveSelectedProfileId = (id: string) => {
+  localStorage.setItem(SELECTED_STORAGE_KEY, id);
+};
+
+/**
+ * Finds a profile by id, falling back to the default one for ids that were deleted.
+ */
+export const findProfile = (profiles: AnalysisProfile[], id: string): AnalysisProfile =>
+  profiles.find(profile => profile.id === id) ?? BUILT_IN_PROFILES[0];
+
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 33) ^ value.charCodeAt(i);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+/**
+ * Identifies what a profile asks the model, for the result cache: editing the instructions or
+ * fields of a profile changes it, renaming the profile does not.
+ */
+export const profileFingerprint = (profile: AnalysisProfile): string =>
+  profile.fields.length === 0 && !profile.instructions.trim()
+    ? DEFAULT_PROFILE_ID
+    : `${profile.id}:${hashString(JSON.stringify([profile.instructions, profile.fields]))}`;
+
+export const emptyField = (index: number): ProfileField => ({
+  key: `field${index + 1}`,
+  label: `Field ${index + 1}`,
+  type: 'string',
+  required: false,
+});
+
+export const formatCustomValue = (value: CustomFieldValue): string => {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { createLimiter } from './queueService';
+
+// A task that only settles when the test says so
+const deferred = <T = void>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+// Lets settled promises run their callbacks
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createLimiter', () => {
+  it('runs at most `concurrency` tasks at once', async () => {
+    const limit = createLimiter(2);
+    const tasks = Array.from({ length: 5 }, () => deferred());
+    let running = 0;
+    let maxRunning = 0;
+    const results = tasks.map(task => limit(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await task.promise;
+      running--;
+    }));
+
+    await flush();
+    expect(running).toBe(2);
+    for (const task of tasks) {
+      task.resolve();
+      await flush();
+    }
+    await Promise.all(results);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('starts waiting tasks in the order they were queued', async () => {
+    const limit = createLimiter(1);
+    const started: number[] = [];
+    const tasks = Array.from({ length: 4 }, () => deferred());
+    const results = tasks.map((task, i) => limit(() => {
+      started.push(i);
+      return task.promise;
+    }));
+
+    // Finishing the later tasks first does not let them jump the queue
+    tasks[3].resolve();
+    tasks[2].resolve();
+    tasks[1].resolve();
+    await flush();
+    expect(started).toEqual([0]);
+    tasks[0].resolve();
+    await Promise.all(results);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('passes the result through', async () => {
+    const limit = createLimiter(1);
+    await expect(limit(async () => 42)).resolves.toBe(42);
+  });
+
+  it('frees the slot of a rejected task', async () => {
+    const limit = createLimiter(1);
+    const failing = limit(() => Promise.reject(new Error('boom')));
+    const next = limit(async () => 'next');
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('next');
+  });
+
+  it('frees the slot of a task that throws synchronously', async () => {
+    const limit = createLimiter(1);
+    const failing = limit(() => {
+      throw new Error('sync');
+    });
+    await expect(failing).rejects.toThrow('sync');
+    await expect(limit(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('removes an aborted task from the queue without running it', async () => {
+    const limit = createLimiter(1);
+    const blocker = deferred();
+    const controller = new AbortController();
+    const started: string[] = [];
+    const first = limit(() => blocker.promise);
+    const aborted = limit(async () => {
+      started.push('aborted');
+    }, controller.signal);
+    const last = limit(async () => {
+      started.push('last');
+    });
+
+    const reason = new DOMException('Cancelled', 'AbortError');
+    controller.abort(reason);
+    await expect(aborted).rejects.toBe(reason);
+
+    blocker.resolve();
+    await Promise.all([first, last]);
+    expect(started).toEqual(['last']);
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const limit = createLimiter(1);
+    const controller = new AbortController();
+    controller.abort('gone');
+    let ran = false;
+    await expect(limit(async () => {
+      ran = true;
+    }, controller.signal)).rejects.toBe('gone');
+    expect(ran).toBe(false);
+  });
+
+  it('ignores an abort once the task has started', async () => {
+    const limit = createLimiter(1);
+    const controller = new AbortController();
+    const task = deferred<string>();
+    const result = limit(() => task.promise, controller.signal);
+    await flush();
+    controller.abort();
+    task.resolve('done');
+    await expect(result).resolves.toBe('done');
+  });
+});
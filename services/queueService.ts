@@ -0,0 +1,93 @@
+// Concurrency limits for the batch pipeline. EXIF parsing is local and cheap,
+// the AI call is rate-limited and expensive.
+export const EXIF_CONCURRENCY = 4;
+export const AI_CONCURRENCY = 2;
+// Local OCR is CPU-bound and shares a single tesseract worker
+export const OCR_CONCURRENCY = 1;
+
+export type Limiter = <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+/**
+ * Creates a promise limiter that runs at most `concurrency` tasks at once.
+ * Extra tasks wait in FIFO order until a slot frees up. A task whose signal aborts while it waits
+ * leaves the queue and rejects with the abort reason.
+ */
+export const createLimiter = (concurrency: number): Limiter => {
+  let active = 0;
+  const pending: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= concurrency) return;
+    const start = pending.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  return <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        const index = pending.indexOf(start);
+        if (index < 0) return;
+        pending.splice(index, 1);
+        reject(signal!.reason);
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        // Through a promise, so a task that throws synchronously still frees its slot
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pending.push(start);
+      next();
+    });
+};
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  // Ends the wait between attempts; an aborted run is never retried
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs a task, retrying with exponential backoff and jitter while shouldRetry allows it.
+ */
+export const retryWithBackoff = async <T>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (options.signal?.aborted || attempt > options.retries || !options.shouldRetry(error)) throw error;
+      const delayMs = options.baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      options.onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
@@ -0,0 +1,182 @@
+import type { FaceDetector } from '@mediapipe/tasks-vision';
+import { OcrBox, OcrResult, RedactionRegion } from '../types';
+import { getDecodableImage } from './decoderService';
+import { findSensitiveSpans } from './privacyAudit';
+
+// Both are served by the app (see vite.config.ts); the WASM runtime comes from the installed package
+const MEDIAPIPE_WASM_PATH = 'mediapipe/wasm';
+const FACE_MODEL_PATH = 'models/blaze_face_short_range.tflite';
+
+const MIN_FACE_CONFIDENCE = 0.5;
+// BlazeFace is trained on faces close to the camera, so large photos are also searched in tiles
+const TILED_DETECTION_EDGE = 1200;
+const TILE_OVERLAP = 0.2;
+// Detected boxes are tight around the features; hair and ears identify people too
+const FACE_PADDING = 0.25;
+const TEXT_PADDING = 0.15;
+const DUPLICATE_IOU = 0.3;
+
+const loadFaceModel = async (): Promise<Uint8Array> => {
+  const url = new URL(FACE_MODEL_PATH, document.baseURI).href;
+  const response = await fetch(url);
+  // The dev server answers unknown paths with the app's HTML
+  if (!response.ok || response.headers.get('Content-Type')?.includes('text/html')) {
+    throw new Error(`The face detection model is missing from ${url}. Run "npm run fetch-assets" to download it.`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+// The detector and its WASM runtime are loaded on first use and then kept
+let detectorPromise: Promise<FaceDetector> | null = null;
+
+const getFaceDetector = (): Promise<FaceDetector> => {
+  if (!detectorPromise) {
+    detectorPromise = Promise.all([import('@mediapipe/tasks-vision'), loadFaceModel()])
+      .then(async ([{ FaceDetector, FilesetResolver }, model]) => {
+        const fileset = await FilesetResolver.forVisionTasks(new URL(MEDIAPIPE_WASM_PATH, document.baseURI).href)
+          .catch(error => {
+            throw new Error(`The face detection runtime could not be loaded: ${error instanceof Error ? error.message : error}`);
+          });
+        return FaceDetector.createFromOptions(fileset, {
+          baseOptions: { modelAssetBuffer: model, delegate: 'CPU' },
+          runningMode: 'IMAGE',
+          minDetectionConfidence: MIN_FACE_CONFIDENCE,
+        });
+      })
+      .catch(error => {
+        detectorPromise = null;
+        throw error;
+      });
+  }
+  return detectorPromise;
+};
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const intersectionOverUnion = (a: Box, b: Box): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+// Grows a box by a fraction of its size on every side, within the unit square
+const pad = (box: Box, amount: number): Box => {
+  const x = Math.max(0, box.x - box.width * amount);
+  const y = Math.max(0, box.y - box.height * amount);
+  return {
+    x,
+    y,
+    width: Math.min(1, box.x + box.width * (1 + amount)) - x,
+    height: Math.min(1, box.y + box.height * (1 + amount)) - y,
+  };
+};
+
+const tiles = (width: number, height: number): Box[] => {
+  if (Math.max(width, height) < TILED_DETECTION_EDGE) return [];
+  const tileWidth = width / (2 - TILE_OVERLAP);
+  const tileHeight = height / (2 - TILE_OVERLAP);
+  return [0, 1].flatMap(row => [0, 1].map(col => ({
+    x: col * (width - tileWidth),
+    y: row * (height - tileHeight),
+    width: tileWidth,
+    height: tileHeight,
+  })));
+};
+
+/**
+ * Finds faces with MediaPipe's BlazeFace model, on the device. Boxes are returned padded, in
+ * fractions of the upright image.
+ */
+export const detectFaces = async (file: Blob): Promise<RedactionRegion[]> => {
+  const [detector, source] = await Promise.all([getFaceDetector(), getDecodableImage(file)]);
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = bitmap;
+    const found: (Box & { confidence: number })[] = [];
+    for (const area of [{ x: 0, y: 0, width, height }, ...tiles(width, height)]) {
+      const crop = area.width === width
+        ? bitmap
+        : await createImageBitmap(bitmap, Math.round(area.x), Math.round(area.y), Math.round(area.width), Math.round(area.height));
+      try {
+        detector.detect(crop).detections.forEach(({ boundingBox, categories }) => {
+          if (!boundingBox) return;
+          found.push({
+            x: (area.x + boundingBox.originX) / width,
+            y: (area.y + boundingBox.originY) / height,
+            width: boundingBox.width / width,
+            height: boundingBox.height / height,
+            confidence: categories[0]?.score ?? 0,
+          });
+        });
+      } finally {
+        if (crop !== bitmap) crop.close();
+      }
+    }
+
+    // A face inside a tile overlap, or found both whole and in a tile, is kept once
+    const faces: typeof found = [];
+    found
+      .sort((a, b) => b.confidence - a.confidence)
+      .forEach(face => {
+        if (!faces.some(kept => intersectionOverUnion(kept, face) > DUPLICATE_IOU)) faces.push(face);
+      });
+    return faces.map((face, i) => ({
+      id: `face_${i}`,
+      ...pad(face, FACE_PADDING),
+      style: 'blur',
+      source: 'face',
+      confidence: face.confidence,
+    }));
+  } finally {
+    bitmap.close();
+  }
+};
+
+const union = (boxes: OcrBox[]): OcrBox => ({
+  x0: Math.min(...boxes.map(box => box.x0)),
+  y0: Math.min(...boxes.map(box => box.y0)),
+  x1: Math.max(...boxes.map(box => box.x1)),
+  y1: Math.max(...boxes.map(box => box.y1)),
+});
+
+/**
+ * Covers the words of each line that hold an e-mail address, phone or card number, street
+ * address, licence plate, ID number or labeled name. Lines are scanned one at a time, so an
+ * address split across lines is only covered where a line matches on its own.
+ */
+export const findTextRegions = (ocr: OcrResult): RedactionRegion[] =>
+  ocr.lines.flatMap((line, l) => {
+    // Character offsets of each word within the line as scanned
+    let offset = 0;
+    const words = line.words.map(word => {
+      const start = offset;
+      offset += word.text.length + 1;
+      return { ...word, start, end: start + word.text.length };
+    });
+    const text = line.words.map(word => word.text).join(' ');
+
+    return findSensitiveSpans(text).flatMap((span, s) => {
+      const covered = words.filter(word => word.start < span.end && span.start < word.end);
+      if (covered.length === 0) return [];
+      const box = union(covered.map(word => word.bbox));
+      const region: RedactionRegion = {
+        id: `text_${l}_${s}`,
+        ...pad({
+          x: box.x0 / ocr.width,
+          y: box.y0 / ocr.height,
+          width: (box.x1 - box.x0) / ocr.width,
+          height: (box.y1 - box.y0) / ocr.height,
+        }, TEXT_PADDING),
+        style: 'box',
+        source: span.kind,
+      };
+      return [region];
+    });
+  });
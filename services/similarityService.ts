@@ -0,0 +1,75 @@
+import { ExifData, PerceptualHashes } from '../types';
+import { hammingDistance } from './hashService';
+
+// Copies at or above this similarity are linked; unrelated images score around 0.5
+export const SIMILARITY_THRESHOLD = 0.85;
+
+const HASH_KINDS: (keyof PerceptualHashes)[] = ['aHash', 'dHash', 'pHash'];
+const HASH_BITS = 64;
+
+/**
+ * Similarity of two images from 0 to 1: the share of matching bits, averaged over the three hashes.
+ * Averaging keeps one hash that happens to agree, e.g. aHash on two mostly white documents,
+ * from linking unrelated images.
+ */
+export const hashSimilarity = (a: PerceptualHashes, b: PerceptualHashes): number =>
+  HASH_KINDS.reduce((sum, kind) => sum + 1 - hammingDistance(a[kind], b[kind]) / HASH_BITS, 0) / HASH_KINDS.length;
+
+export interface SimilarityCluster<T> {
+  members: T[]; // in input order; the first is the reference
+  scores: number[]; // similarity of each member to the reference, 1 for the reference itself
+}
+
+/**
+ * Groups items whose hashes are at least `threshold` similar, transitively: a crop and a
+ * screenshot of the same photo end up together even if they only match the original.
+ * Singletons are dropped; clusters are sorted largest first.
+ */
+export const clusterBySimilarity = <T extends { hashes: PerceptualHashes }>(
+  items: T[],
+  threshold: number = SIMILARITY_THRESHOLD
+): SimilarityCluster<T>[] => {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (hashSimilarity(items[i].hashes, items[j].hashes) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+
+  return [...groups.values()]
+    .filter(members => members.length > 1)
+    .map(members => ({ members, scores: members.map(member => hashSimilarity(members[0].hashes, member.hashes)) }))
+    .sort((a, b) => b.members.length - a.members.length);
+};
+
+export interface ExifDifference {
+  field: keyof ExifData;
+  values: ExifData[keyof ExifData][]; // one per compared image, undefined where the field is missing
+}
+
+/**
+ * Fields whose value is not the same across all images, e.g. GPS present on only one copy
+ * or a different `software`. Images without EXIF count as having every field missing.
+ */
+export const diffExif = (exifs: (ExifData | null)[]): ExifDifference[] => {
+  const fields = [...new Set(exifs.flatMap(exif => Object.keys(exif ?? {}) as (keyof ExifData)[]))];
+  return fields
+    .map(field => ({ field, values: exifs.map(exif => exif?.[field]) }))
+    .filter(({ values }) => values.some(value => value !== values[0]));
+};
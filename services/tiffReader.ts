@@ -0,0 +1,107 @@
+// Minimal TIFF directory reader for the TIFF-based camera RAW formats (CR2, NEF, ARW, DNG).
+// It only resolves what format detection and preview extraction need.
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+export interface TiffEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // absolute offset of the value, inline or not
+}
+
+export interface TiffIfd {
+  entries: Map<number, TiffEntry>;
+}
+
+export interface TiffFile {
+  littleEndian: boolean;
+  view: DataView;
+  bytes: Uint8Array;
+  ifds: TiffIfd[]; // IFD0, the IFD chain and all SubIFDs
+}
+
+const SUB_IFDS = 0x014a;
+const EXIF_IFD = 0x8769;
+// Guards against malformed files with looping or absurd directory chains
+const MAX_IFDS = 32;
+const MAX_ENTRIES = 1000;
+
+export const isTiff = (bytes: Uint8Array): boolean =>
+  (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2a && bytes[3] === 0x00) ||
+  (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0x00 && bytes[3] === 0x2a);
+
+const readIfd = (file: Omit<TiffFile, 'ifds'>, offset: number): { ifd: TiffIfd; next: number } | null => {
+  const { view, littleEndian } = file;
+  if (offset < 8 || offset + 2 > view.byteLength) return null;
+  const count = view.getUint16(offset, littleEndian);
+  if (count > MAX_ENTRIES || offset + 2 + count * 12 + 4 > view.byteLength) return null;
+
+  const entries = new Map<number, TiffEntry>();
+  for (let i = 0; i < count; i++) {
+    const pos = offset + 2 + i * 12;
+    const type = view.getUint16(pos + 2, littleEndian);
+    const entryCount = view.getUint32(pos + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 1) * entryCount;
+    const valueOffset = size <= 4 ? pos + 8 : view.getUint32(pos + 8, littleEndian);
+    entries.set(view.getUint16(pos, littleEndian), { type, count: entryCount, valueOffset });
+  }
+  return { ifd: { entries }, next: view.getUint32(offset + 2 + count * 12, littleEndian) };
+};
+
+/**
+ * Reads a single numeric value (BYTE, SHORT or LONG) of an entry.
+ */
+export const getNumber = (file: TiffFile, ifd: TiffIfd, tag: number, index = 0): number | undefined => {
+  const entry = ifd.entries.get(tag);
+  if (!entry || index >= entry.count) return undefined;
+  const { view, littleEndian } = file;
+  const size = TYPE_SIZES[entry.type] ?? 1;
+  const pos = entry.valueOffset + index * size;
+  if (pos + size > view.byteLength) return undefined;
+  if (entry.type === 3) return view.getUint16(pos, littleEndian);
+  if (entry.type === 4 || entry.type === 13) return view.getUint32(pos, littleEndian);
+  if (entry.type === 1 || entry.type === 7) return view.getUint8(pos);
+  return undefined;
+};
+
+export const getString = (file: TiffFile, ifd: TiffIfd, tag: number): string | undefined => {
+  const entry = ifd.entries.get(tag);
+  if (!entry || entry.type !== 2) return undefined;
+  const end = Math.min(entry.valueOffset + entry.count, file.bytes.length);
+  return new TextDecoder().decode(file.bytes.subarray(entry.valueOffset, end)).replace(/\0+$/, '').trim();
+};
+
+/**
+ * Parses the IFD chain plus every SubIFD and Exif IFD reachable from it.
+ * Returns null when the bytes are not a TIFF.
+ */
+export const readTiff = (bytes: Uint8Array): TiffFile | null => {
+  if (!isTiff(bytes)) return null;
+  const base = {
+    littleEndian: bytes[0] === 0x49,
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    bytes,
+  };
+  const file: TiffFile = { ...base, ifds: [] };
+  const visited = new Set<number>();
+  const queue = [base.view.getUint32(4, base.littleEndian)];
+
+  while (queue.length > 0 && file.ifds.length < MAX_IFDS) {
+    const offset = queue.shift()!;
+    if (visited.has(offset)) continue;
+    visited.add(offset);
+    const result = readIfd(base, offset);
+    if (!result) continue;
+    file.ifds.push(result.ifd);
+    if (result.next) queue.push(result.next);
+
+    const subIfds = result.ifd.entries.get(SUB_IFDS);
+    for (let i = 0; subIfds && i < subIfds.count; i++) {
+      const sub = getNumber(file, result.ifd, SUB_IFDS, i);
+      if (sub) queue.push(sub);
+    }
+    const exifIfd = getNumber(file, result.ifd, EXIF_IFD);
+    if (exifIfd) queue.push(exifIfd);
+  }
+  return file;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { ExifData, ForensicCheck } from '../types';
+import { checkTimestamps, toInstant } from './timestampService';
+
+const HOUR = 3600000;
+
+describe('toInstant', () => {
+  it.each([
+    ['2024-03-10T12:00:00', Date.UTC(2024, 2, 10, 12), false],
+    ['2024:03:10 12:00:00', Date.UTC(2024, 2, 10, 12), false],
+    ['2024-03-10T12:00:00.5', Date.UTC(2024, 2, 10, 12, 0, 0, 500), false],
+    ['2024-03-10T12:00:00.345+02:00', Date.UTC(2024, 2, 10, 10, 0, 0, 345), true],
+    ['2024-03-10T12:00:00-05:30', Date.UTC(2024, 2, 10, 17, 30), true],
+    ['2024:03:10 12:00:00 +0200', Date.UTC(2024, 2, 10, 10), true],
+    ['2024-03-10T12:00:00Z', Date.UTC(2024, 2, 10, 12), true],
+  ])('reads %s', (value, ms, hasOffset) => {
+    expect(toInstant(value)).toEqual({ ms, hasOffset });
+  });
+
+  it.each([undefined, '', '2024-03-10', 'yesterday'])('returns null for %j', value => {
+    expect(toInstant(value)).toBeNull();
+  });
+});
+
+describe('checkTimestamps', () => {
+  const find = (checks: ForensicCheck[], id: string) => checks.find(check => check.id === id);
+  const verdict = (exif: ExifData, id: string, fileModified?: number) => find(checkTimestamps(exif, fileModified), id)?.verdict;
+
+  it('has nothing to check without a capture date', () => {
+    expect(checkTimestamps({ modifyDate: '2024-03-10T12:00:00' }, Date.now())).toEqual([
+      expect.objectContaining({ id: 'timestamps', verdict: 'info' }),
+    ]);
+  });
+
+  describe('capture vs. digitize date', () => {
+    it.each([
+      ['the same wall-clock time', '2024-03-10T12:00:00', '2024-03-10T12:00:01', 'pass'],
+      ['a digitize date an hour earlier', '2024-03-10T12:00:00', '2024-03-10T11:00:00', 'warn'],
+      ['a digitize date a day later', '2024-03-10T12:00:00', '2024-03-11T12:00:00', 'warn'],
+      ['the same moment in different offsets', '2024-03-10T12:00:00+02:00', '2024-03-10T10:00:00Z', 'pass'],
+      ['an earlier moment in the same offset', '2024-03-10T12:00:00+02:00', '2024-03-10T09:00:00+02:00', 'warn'],
+      ['a wall clock compared with an offset time', '2024-03-10T12:00:00+02:00', '2024-03-10T09:00:00', 'pass'],
+    ])('checks %s', (_, dateTimeOriginal, createDate, expected) => {
+      expect(verdict({ dateTimeOriginal, createDate }, 'create-date')).toBe(expected);
+    });
+
+    it('says how far apart an earlier digitize date is', () => {
+      const check = find(checkTimestamps({ dateTimeOriginal: '2024-03-10T12:00:00', createDate: '2024-03-10T10:30:00' }), 'create-date');
+      expect(check?.detail).toContain('90 min');
+    });
+  });
+
+  describe('capture vs. modify date', () => {
+    it.each([
+      ['modified at capture', '2024-03-10T12:00:00', '2024-03-10T12:00:02', 'pass'],
+      ['modified later', '2024-03-10T12:00:00', '2024-03-12T08:00:00', 'warn'],
+      ['modified before capture', '2024-03-10T12:00:00', '2024-03-10T11:00:00', 'fail'],
+      ['modified later, once the offsets are applied', '2024-03-10T12:00:00+02:00', '2024-03-10T10:30:00Z', 'warn'],
+      ['modified before capture, once the offsets are applied', '2024-03-10T12:00:00-05:00', '2024-03-10T15:00:00Z', 'fail'],
+      ['only one date with an offset', '2024-03-10T12:00:00+02:00', '2024-03-10T09:00:00', 'info'],
+      ['only one date with an offset, further apart than any timezone', '2024-03-10T12:00:00+02:00', '2024-03-08T09:00:00', 'fail'],
+    ])('checks a file %s', (_, dateTimeOriginal, modifyDate, expected) => {
+      expect(verdict({ dateTimeOriginal, modifyDate }, 'dates')).toBe(expected);
+    });
+  });
+
+  describe('capture vs. GPS time', () => {
+    it.each([
+      ['an offset capture time matching GPS', '2024-03-10T12:00:30+02:00', 'pass'],
+      ['an offset capture time far from GPS', '2024-03-10T14:00:00+02:00', 'warn'],
+      ['a wall clock a whole timezone from GPS', '2024-03-10T12:00:30', 'pass'],
+      ['a wall clock no timezone explains', '2024-03-10T12:37:00', 'warn'],
+    ])('checks %s', (_, dateTimeOriginal, expected) => {
+      expect(verdict({ dateTimeOriginal, gpsTimestamp: '2024-03-10T10:00:00Z' }, 'gps-time')).toBe(expected);
+    });
+
+    it('names the timezone of a wall-clock capture time', () => {
+      const check = find(checkTimestamps({ dateTimeOriginal: '2024-03-10T05:30:00', gpsTimestamp: '2024-03-10T10:00:00Z' }), 'gps-time');
+      expect(check?.detail).toContain('UTC-04:30');
+    });
+  });
+
+  describe('file modification time', () => {
+    const withOffset: ExifData = { dateTimeOriginal: '2024-03-10T12:00:00+02:00' };
+    const wallClock: ExifData = { dateTimeOriginal: '2024-03-10T12:00:00' };
+    const captured = Date.UTC(2024, 2, 10, 10);
+
+    it.each([
+      ['at the capture time', withOffset, captured, 'pass'],
+      ['an hour before the capture time', withOffset, captured - HOUR, 'fail'],
+      ['an hour after the capture time', withOffset, captured + HOUR, 'pass'],
+      ['days after the capture time', withOffset, captured + 72 * HOUR, 'info'],
+      ['ten hours before a wall-clock time', wallClock, Date.UTC(2024, 2, 10, 2), 'pass'],
+      ['a day before a wall-clock time', wallClock, Date.UTC(2024, 2, 9, 12), 'fail'],
+    ])('checks a file modified %s', (_, exif, fileModified, expected) => {
+      expect(verdict(exif, 'file-time', fileModified)).toBe(expected);
+    });
+
+    it('compares with the latest EXIF date', () => {
+      const exif = { ...withOffset, modifyDate: '2024-03-12T12:00:00+02:00' };
+      expect(verdict(exif, 'file-time', captured + HOUR)).toBe('fail');
+    });
+
+    it('is skipped without a file time', () => {
+      expect(verdict(withOffset, 'file-time')).toBeUndefined();
+    });
+  });
+});
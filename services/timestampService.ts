@@ -0,0 +1,161 @@
+import { ExifData, ForensicCheck } from '../types';
+
+export interface TimestampParts {
+  dateTime: string; // EXIF "YYYY:MM:DD HH:MM:SS" wall-clock form
+  subSec?: string; // fractional seconds digits, e.g. "345"
+  offset?: string; // UTC offset, e.g. "+02:00"
+}
+
+const TIMESTAMP_PATTERN = /^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+
+const normalizeOffset = (offset: string): string =>
+  offset === 'Z' ? '+00:00' : offset.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2');
+
+/**
+ * Splits an ISO 8601 or EXIF timestamp into the parts the EXIF date, SubSecTime and OffsetTime tags store.
+ */
+export const splitTimestamp = (value: string): TimestampParts | null => {
+  const match = value.trim().match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, subSec, offset] = match;
+  return {
+    dateTime: `${year}:${month}:${day} ${hours}:${minutes}:${seconds}`,
+    subSec,
+    offset: offset ? normalizeOffset(offset) : undefined,
+  };
+};
+
+/**
+ * Builds an ISO 8601 timestamp from raw EXIF tag values. Without an offset the result is
+ * a wall-clock time with no timezone, which is what the camera recorded.
+ */
+export const toIsoTimestamp = (dateTime: unknown, subSec?: unknown, offset?: unknown): string | undefined => {
+  if (typeof dateTime !== 'string') return undefined;
+  const match = dateTime.trim().match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  // Cameras without a clock write "0000:00:00 00:00:00" or blanks
+  if (!match || match[1] === '0000') return undefined;
+  const fraction = subSec !== undefined && /^\d+$/.test(String(subSec).trim()) ? `.${String(subSec).trim()}` : '';
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:?\d{2}$/.test(offset.trim()) ? normalizeOffset(offset.trim()) : '';
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${fraction}${zone}`;
+};
+
+export interface Instant {
+  ms: number; // UTC epoch ms; for wall-clock times this treats the wall clock as if it were UTC
+  hasOffset: boolean;
+}
+
+/**
+ * Parses an ISO 8601 or EXIF timestamp into a point in time that can be compared with others.
+ */
+export const toInstant = (value: string | undefined): Instant | null => {
+  if (!value) return null;
+  const match = value.match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, subSec, offset] = match;
+  let ms = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds, subSec ? Math.round(Number(`0.${subSec}`) * 1000) : 0);
+  if (offset) {
+    const [, sign, oh, om] = normalizeOffset(offset).match(/([+-])(\d{2}):(\d{2})/)!;
+    ms -= (sign === '-' ? -1 : 1) * (+oh * 60 + +om) * 60000;
+  }
+  return { ms, hasOffset: !!offset };
+};
+
+// Real UTC offsets lie between -12:00 and +14:00
+const MAX_OFFSET_MS = 14 * 3600000;
+// Camera clocks and GPS fixes are written a moment apart
+const SAME_MOMENT_MS = 2000;
+const GPS_TOLERANCE_MS = 120000;
+
+const formatOffset = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Compares two timestamps. When only one side has an offset, the wall-clock side could be in any
+ * timezone, so the difference is only meaningful beyond the maximum possible UTC offset.
+ */
+const compare = (a: Instant, b: Instant): { deltaMs: number; ambiguous: boolean } => {
+  const deltaMs = b.ms - a.ms;
+  return { deltaMs, ambiguous: a.hasOffset !== b.hasOffset && Math.abs(deltaMs) <= MAX_OFFSET_MS };
+};
+
+export const describeDelta = (ms: number): string => {
+  const abs = Math.abs(ms) / 1000;
+  if (abs < 120) return `${Math.round(abs)} s`;
+  if (abs < 7200) return `${Math.round(abs / 60)} min`;
+  if (abs < 172800) return `${(abs / 3600).toFixed(1)} h`;
+  return `${Math.round(abs / 86400)} days`;
+};
+
+/**
+ * Cross-checks the EXIF capture, digitize, modify and GPS times against each other and against
+ * the file's modification time. Disagreement is a common sign of editing or a faked date.
+ */
+export const checkTimestamps = (exif: ExifData, fileModified?: number): ForensicCheck[] => {
+  const checks: ForensicCheck[] = [];
+  const original = toInstant(exif.dateTimeOriginal);
+  const created = toInstant(exif.createDate);
+  const modified = toInstant(exif.modifyDate);
+  const gps = exif.gpsTimestamp ? toInstant(exif.gpsTimestamp) : null;
+
+  if (!original) {
+    checks.push({ id: 'timestamps', label: 'Timestamps', verdict: 'info', detail: 'No capture date (DateTimeOriginal) to check against.' });
+    return checks;
+  }
+
+  if (created) {
+    const { deltaMs, ambiguous } = compare(original, created);
+    checks.push(ambiguous || Math.abs(deltaMs) <= SAME_MOMENT_MS
+      ? { id: 'create-date', label: 'Capture vs. digitize date', verdict: 'pass', detail: 'CreateDate matches DateTimeOriginal.' }
+      : { id: 'create-date', label: 'Capture vs. digitize date', verdict: 'warn', detail: `CreateDate differs from DateTimeOriginal by ${describeDelta(deltaMs)}. Cameras write both at the same moment.` });
+  }
+
+  if (modified) {
+    const { deltaMs, ambiguous } = compare(original, modified);
+    if (ambiguous) {
+      checks.push({ id: 'dates', label: 'Capture vs. modify date', verdict: 'info', detail: 'Only one of the dates has a UTC offset, so they cannot be compared precisely.' });
+    } else {
+      checks.push({
+        id: 'dates',
+        label: 'Capture vs. modify date',
+        verdict: deltaMs < -SAME_MOMENT_MS ? 'fail' : deltaMs > SAME_MOMENT_MS ? 'warn' : 'pass',
+        detail: deltaMs < -SAME_MOMENT_MS
+          ? `Modified (${exif.modifyDate}) ${describeDelta(deltaMs)} before it was taken (${exif.dateTimeOriginal}).`
+          : deltaMs > SAME_MOMENT_MS
+            ? `Modified ${describeDelta(deltaMs)} after capture.`
+            : 'Modify date matches capture date.',
+      });
+    }
+  }
+
+  if (gps) {
+    const deltaMs = original.ms - gps.ms;
+    if (original.hasOffset) {
+      checks.push(Math.abs(deltaMs) <= GPS_TOLERANCE_MS
+        ? { id: 'gps-time', label: 'Capture vs. GPS time', verdict: 'pass', detail: 'GPS time matches the capture time.' }
+        : { id: 'gps-time', label: 'Capture vs. GPS time', verdict: 'warn', detail: `GPS time differs from the capture time by ${describeDelta(deltaMs)}. The location fix may be stale or the date was changed.` });
+    } else {
+      // Without an offset, the gap between wall clock and GPS UTC should be a whole timezone
+      const quarterHours = Math.round(deltaMs / 900000);
+      const residual = Math.abs(deltaMs - quarterHours * 900000);
+      checks.push(Math.abs(deltaMs) <= MAX_OFFSET_MS && residual <= GPS_TOLERANCE_MS
+        ? { id: 'gps-time', label: 'Capture vs. GPS time', verdict: 'pass', detail: `GPS time implies the camera clock was set to UTC${formatOffset(quarterHours * 900000)}.` }
+        : { id: 'gps-time', label: 'Capture vs. GPS time', verdict: 'warn', detail: `Capture time and GPS time are ${describeDelta(deltaMs)} apart, which no timezone explains.` });
+    }
+  }
+
+  if (fileModified !== undefined) {
+    const latest = [original, created, modified].filter((t): t is Instant => !!t).reduce((a, b) => (b.ms > a.ms ? b : a));
+    const deltaMs = fileModified - latest.ms;
+    const slack = latest.hasOffset ? SAME_MOMENT_MS : MAX_OFFSET_MS;
+    checks.push(deltaMs < -slack
+      ? { id: 'file-time', label: 'File modification time', verdict: 'fail', detail: `The file was last modified ${describeDelta(deltaMs)} before the latest EXIF date, which is impossible for an untouched file.` }
+      : deltaMs > slack + 86400000
+        ? { id: 'file-time', label: 'File modification time', verdict: 'info', detail: `The file was last modified ${describeDelta(deltaMs)} after the latest EXIF date. Copying or downloading also updates this time.` }
+        : { id: 'file-time', label: 'File modification time', verdict: 'pass', detail: 'File modification time matches the EXIF dates.' });
+  }
+
+  return checks;
+};
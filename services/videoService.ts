@@ -0,0 +1,330 @@
+import { ExifData, RawMetadata, RawTag, StrippedSegment } from '../types';
+import { ascii, IsoBox, readIsoBoxes, readUint } from './metadataStripper';
+import { splitTimestamp, toIsoTimestamp } from './timestampService';
+
+// Metadata lives in "moov"; anything larger is almost certainly not a real movie header
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+// QuickTime times count seconds from 1904-01-01 UTC
+const MAC_EPOCH_OFFSET = 2082844800;
+
+interface Moov {
+  bytes: Uint8Array;
+  view: DataView;
+  start: number; // offset of the moov atom in the file
+}
+
+/**
+ * Walks the top-level atoms, reading only their headers, and loads the "moov" atom.
+ */
+const readMoov = async (file: Blob): Promise<Moov | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    let size = header.getUint32(0);
+    const type = String.fromCharCode(header.getUint8(4), header.getUint8(5), header.getUint8(6), header.getUint8(7));
+    if (size === 1) size = readUint(header, 8, 8);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_MOOV_BYTES) return null;
+      const bytes = new Uint8Array(await file.slice(offset, offset + size).arrayBuffer());
+      return { bytes, view: new DataView(bytes.buffer), start: offset };
+    }
+    offset += size;
+  }
+  return null;
+};
+
+const children = (moov: Moov, box: IsoBox, skip = 0): IsoBox[] =>
+  readIsoBoxes(moov.bytes, moov.view, box.contentStart + skip, box.end);
+
+const child = (moov: Moov, box: IsoBox | undefined, type: string): IsoBox | undefined =>
+  box && children(moov, box).find(b => b.type === type);
+
+// ISO "meta" is a full box with version and flags; QuickTime's "meta" is a plain container
+const metaChildren = (moov: Moov, meta: IsoBox): IsoBox[] =>
+  children(moov, meta, moov.view.getUint32(meta.contentStart) === 0 ? 4 : 0);
+
+/**
+ * Reads the value of an iTunes-style "data" atom, or a QuickTime user data text entry.
+ */
+const readValue = (moov: Moov, box: IsoBox): string | undefined => {
+  const data = children(moov, box).find(b => b.type === 'data');
+  if (data) {
+    // A type indicator and locale precede the value
+    const type = moov.view.getUint32(data.contentStart) & 0xffffff;
+    const start = data.contentStart + 8;
+    const length = data.end - start;
+    if (type === 1) return new TextDecoder().decode(moov.bytes.subarray(start, data.end)).replace(/\0+$/, '').trim() || undefined;
+    if (type === 23 && length === 4) return String(moov.view.getFloat32(start));
+    if (type === 24 && length === 8) return String(moov.view.getFloat64(start));
+    if (type === 21 || type === 22) {
+      if (length === 1) return String(moov.view.getUint8(start));
+      if (length === 2 || length === 4) return String(readUint(moov.view, start, length));
+    }
+    return undefined;
+  }
+  // QuickTime text entries are the "©" atoms; other user data is binary
+  if (!box.type.startsWith('©') || box.end - box.contentStart < 4) return undefined;
+  const length = moov.view.getUint16(box.contentStart);
+  const text = new TextDecoder().decode(moov.bytes.subarray(box.contentStart + 4, Math.min(box.end, box.contentStart + 4 + length)));
+  return text.replace(/\0+$/, '').trim() || undefined;
+};
+
+/**
+ * Maps the key names of an "mdta" metadata box (used by Apple devices) to their ilst items.
+ */
+const readMdtaItems = (moov: Moov, meta: IsoBox): { key: string; item: IsoBox }[] => {
+  const boxes = metaChildren(moov, meta);
+  const keys = boxes.find(b => b.type === 'keys');
+  const ilst = boxes.find(b => b.type === 'ilst');
+  if (!keys || !ilst) return [];
+  const names = children(moov, keys, 8).map(entry => ascii(moov.bytes, entry.contentStart, entry.end - entry.contentStart));
+  return children(moov, ilst).map(item => ({ key: names[moov.view.getUint32(item.start + 4) - 1] ?? '', item }));
+};
+
+/**
+ * Every user data entry in moov/udta, including an iTunes-style udta/meta/ilst list.
+ */
+const readUserData = (moov: Moov, udta: IsoBox | undefined): IsoBox[] => {
+  if (!udta) return [];
+  const entries = children(moov, udta);
+  const ilst = entries.filter(b => b.type === 'meta').flatMap(meta => metaChildren(moov, meta).filter(b => b.type === 'ilst'));
+  return [...entries.filter(b => b.type !== 'meta'), ...ilst.flatMap(list => children(moov, list))];
+};
+
+const macTimeToIso = (seconds: number): string | undefined => {
+  if (seconds <= 0) return undefined;
+  const date = new Date((seconds - MAC_EPOCH_OFFSET) * 1000);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().replace(/\.000Z$/, '+00:00');
+};
+
+interface MovieHeader {
+  created?: string;
+  modified?: string;
+  duration?: number; // seconds
+}
+
+const readMovieHeader = (moov: Moov, mvhd: IsoBox | undefined): MovieHeader => {
+  if (!mvhd) return {};
+  const { view } = moov;
+  const version = moov.bytes[mvhd.contentStart];
+  const size = version === 1 ? 8 : 4;
+  let offset = mvhd.contentStart + 4;
+  const created = readUint(view, offset, size);
+  const modified = readUint(view, offset + size, size);
+  offset += 2 * size;
+  const timescale = view.getUint32(offset);
+  const duration = readUint(view, offset + 4, size);
+  return {
+    created: macTimeToIso(created),
+    modified: macTimeToIso(modified),
+    duration: timescale > 0 ? Math.round((duration / timescale) * 1000) / 1000 : undefined,
+  };
+};
+
+interface TrackInfo {
+  handler: string; // 'vide', 'soun', 'meta', …
+  codec?: string;
+  width?: number;
+  height?: number;
+}
+
+const readTracks = (moov: Moov, root: IsoBox): TrackInfo[] =>
+  children(moov, root).filter(b => b.type === 'trak').map(trak => {
+    const mdia = child(moov, trak, 'mdia');
+    const hdlr = child(moov, mdia, 'hdlr');
+    const stsd = child(moov, child(moov, child(moov, mdia, 'minf'), 'stbl'), 'stsd');
+    const tkhd = child(moov, trak, 'tkhd');
+    return {
+      handler: hdlr ? ascii(moov.bytes, hdlr.contentStart + 8, 4) : '',
+      // The first sample entry follows version/flags and the entry count
+      codec: stsd && stsd.end - stsd.contentStart >= 16 ? ascii(moov.bytes, stsd.contentStart + 12, 4) : undefined,
+      // Width and height are the last two 16.16 fixed-point values of tkhd
+      width: tkhd ? moov.view.getUint32(tkhd.end - 8) / 65536 : undefined,
+      height: tkhd ? moov.view.getUint32(tkhd.end - 4) / 65536 : undefined,
+    };
+  });
+
+/**
+ * Parses an ISO 6709 point such as "+37.7858-122.4064+010.000/".
+ */
+const parseIso6709 = (value: string): { latitude: number; longitude: number; altitude?: number } | undefined => {
+  const match = value.match(/^([+-]\d{1,2}(?:\.\d+)?)([+-]\d{1,3}(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/);
+  if (!match) return undefined;
+  return { latitude: Number(match[1]), longitude: Number(match[2]), altitude: match[3] !== undefined ? Number(match[3]) : undefined };
+};
+
+// Apple writes "2023-06-01T12:34:56+0200"
+const toVideoTimestamp = (value: string | undefined): string | undefined => {
+  const parts = value ? splitTimestamp(value) : null;
+  return parts ? toIsoTimestamp(parts.dateTime, parts.subSec, parts.offset) : undefined;
+};
+
+interface VideoTags {
+  userData: Map<string, string>; // udta atom type -> value, e.g. "©xyz"
+  keys: Map<string, string>; // mdta key -> value, e.g. "com.apple.quicktime.make"
+  header: MovieHeader;
+  tracks: TrackInfo[];
+}
+
+const readVideoTags = async (file: Blob): Promise<VideoTags | null> => {
+  const moov = await readMoov(file);
+  if (!moov) return null;
+  const root = readIsoBoxes(moov.bytes, moov.view, 0, moov.bytes.length)[0];
+  const boxes = children(moov, root);
+  const userData = new Map<string, string>();
+  for (const entry of readUserData(moov, boxes.find(b => b.type === 'udta'))) {
+    const value = readValue(moov, entry);
+    if (value) userData.set(entry.type, value);
+  }
+  const keys = new Map<string, string>();
+  for (const meta of boxes.filter(b => b.type === 'meta')) {
+    for (const { key, item } of readMdtaItems(moov, meta)) {
+      const value = readValue(moov, item);
+      if (key && value) keys.set(key, value);
+    }
+  }
+  return { userData, keys, header: readMovieHeader(moov, boxes.find(b => b.type === 'mvhd')), tracks: readTracks(moov, root) };
+};
+
+/**
+ * Extracts the metadata of an MP4 or QuickTime video from its atoms, mapped onto ExifData.
+ * Resolves to null when the file has no movie header.
+ */
+export const extractVideoMetadata = async (file: Blob): Promise<ExifData | null> => {
+  const tags = await readVideoTags(file);
+  if (!tags) return null;
+  const { userData, keys, header, tracks } = tags;
+  const location = parseIso6709(keys.get('com.apple.quicktime.location.ISO6709') ?? userData.get('©xyz') ?? '');
+  const captured = toVideoTimestamp(keys.get('com.apple.quicktime.creationdate') ?? userData.get('©day'));
+  const video = tracks.find(track => track.handler === 'vide');
+
+  return {
+    make: keys.get('com.apple.quicktime.make') ?? userData.get('©mak'),
+    model: keys.get('com.apple.quicktime.model') ?? userData.get('©mod'),
+    // mvhd times are UTC
+    dateTimeOriginal: captured ?? header.created,
+    createDate: header.created,
+    modifyDate: header.modified,
+    offsetTimeOriginal: captured ? splitTimestamp(captured)?.offset : undefined,
+    latitude: location?.latitude,
+    longitude: location?.longitude,
+    altitude: location?.altitude,
+    software: keys.get('com.apple.quicktime.software') ?? userData.get('©swr') ?? userData.get('©too') ?? userData.get('©enc'),
+    width: video?.width || undefined,
+    height: video?.height || undefined,
+    duration: header.duration,
+    videoCodec: video?.codec,
+  };
+};
+
+/**
+ * Lists every atom-level tag for the raw metadata view, grouped like exifr's segments.
+ */
+export const extractVideoRawMetadata = async (file: Blob): Promise<RawMetadata> => {
+  const tags = await readVideoTags(file);
+  if (!tags) return { groups: [] };
+  const toTags = (entries: [string, unknown][]): RawTag[] =>
+    entries.filter(([, value]) => value !== undefined).map(([name, value]) => ({ name, rawValue: String(value), value: String(value) }));
+
+  return {
+    groups: [
+      { segment: 'mvhd', tags: toTags(Object.entries(tags.header)) },
+      { segment: 'udta', tags: toTags([...tags.userData]) },
+      { segment: 'mdta', tags: toTags([...tags.keys]) },
+      ...tags.tracks.map((track, i) => ({ segment: `trak${i + 1}`, tags: toTags(Object.entries(track)) })),
+    ].filter(group => group.tags.length > 0),
+  };
+};
+
+// Location and device identification; the capture time is kept
+const SENSITIVE_USER_DATA: Record<string, string> = {
+  '©xyz': 'location',
+  'loci': 'location',
+  '©mak': 'device make',
+  '©mod': 'device model',
+  '©swr': 'software',
+  '©too': 'encoder',
+  '©enc': 'encoder',
+  'XMP_': 'XMP',
+};
+const SENSITIVE_KEY = /^com\.apple\.quicktime\.(location\.|make$|model$|software$)/;
+
+/**
+ * Removes location and device atoms from an MP4 or QuickTime file without re-encoding.
+ * Sample data is referenced by absolute file offsets, so atoms are turned into "free" atoms of
+ * the same size instead of being cut out. Only the moov atom is read; the media data is passed through.
+ */
+export const stripVideoMetadata = async (file: Blob): Promise<{ blob: Blob; removed: StrippedSegment[] }> => {
+  const moov = await readMoov(file);
+  if (!moov) {
+    throw new Error("No movie header (moov atom) found");
+  }
+
+  const removed: StrippedSegment[] = [];
+  const blank = (box: IsoBox, label: string) => {
+    moov.bytes.set([0x66, 0x72, 0x65, 0x65], box.start + 4); // 'free'
+    moov.bytes.fill(0, box.contentStart, box.end);
+    removed.push({ kind: label === 'XMP' ? 'xmp' : 'other', label, size: box.end - box.start });
+  };
+
+  const visit = (box: IsoBox) => {
+    for (const entry of children(moov, box)) {
+      if (entry.type === 'trak') visit(entry);
+      if (entry.type === 'udta') {
+        for (const item of readUserData(moov, entry)) {
+          if (SENSITIVE_USER_DATA[item.type]) blank(item, `${item.type} (${SENSITIVE_USER_DATA[item.type]})`);
+        }
+      }
+      if (entry.type === 'meta') {
+        for (const { key, item } of readMdtaItems(moov, entry)) {
+          if (SENSITIVE_KEY.test(key)) blank(item, key);
+        }
+      }
+    }
+  };
+  visit(readIsoBoxes(moov.bytes, moov.view, 0, moov.bytes.length)[0]);
+
+  const blob = new Blob(
+    [file.slice(0, moov.start), moov.bytes as BlobPart, file.slice(moov.start + moov.bytes.length)],
+    { type: file.type || 'video/mp4' }
+  );
+  return { blob, removed };
+};
+
+/**
+ * Captures a frame one second in (or halfway through shorter clips) as a JPEG.
+ * The first frame is often black or blurred while the camera settles.
+ */
+export const captureKeyframe = (file: Blob, atSeconds: number = 1): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    const fail = (error: Error) => {
+      URL.revokeObjectURL(url);
+      reject(error);
+    };
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(atSeconds, (video.duration || 0) / 2);
+    };
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        fail(new Error("Could not get canvas context"));
+        return;
+      }
+      ctx.drawImage(video, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode video frame"))), 'image/jpeg', 0.92);
+    };
+    video.onerror = () => fail(new Error("This browser cannot decode the video"));
+    video.src = url;
+  });
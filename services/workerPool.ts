@@ -0,0 +1,134 @@
+import { ImageTask, ImageTaskResults, runImageTask } from './imageTasks';
+
+// Leave a core for the UI thread
+const POOL_SIZE = Math.min(4, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+
+interface WorkerReply {
+  id: number;
+  value?: unknown;
+  error?: string;
+}
+
+interface Job {
+  id: number;
+  task: ImageTask;
+  transfer: Transferable[];
+  settle: (reply: WorkerReply) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: Job | null;
+}
+
+// Tasks that draw, and so need OffscreenCanvas to run in a worker
+const CANVAS_TASKS: ImageTask['type'][] = ['render', 'fit', 'phash', 'redact', 'page', 'warp', 'ela', 'ghost'];
+
+const workers: PoolWorker[] = [];
+const queue: Job[] = [];
+let nextJobId = 0;
+// Set when a worker fails to start, e.g. a browser without module workers
+let workersUnavailable = typeof Worker === 'undefined';
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The operation was aborted', 'AbortError');
+
+const retire = (entry: PoolWorker) => {
+  entry.worker.terminate();
+  workers.splice(workers.indexOf(entry), 1);
+};
+
+const runInline = (job: Job) => {
+  runImageTask(job.task).then(
+    ({ value }) => job.settle({ id: job.id, value }),
+    error => job.settle({ id: job.id, error: error instanceof Error ? error.message : String(error) })
+  );
+};
+
+const spawn = (): PoolWorker => {
+  const entry: PoolWorker = {
+    worker: new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' }),
+    job: null,
+  };
+  entry.worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+    const job = entry.job;
+    entry.job = null;
+    job?.settle(event.data);
+    dispatch();
+  };
+  entry.worker.onerror = (event) => {
+    // Task errors are posted back, so this only fires when the worker itself broke
+    console.error("Image worker failed, falling back to the main thread", event.message);
+    const job = entry.job;
+    retire(entry);
+    workersUnavailable = true;
+    if (job) runInline(job);
+    queue.splice(0).forEach(runInline);
+  };
+  workers.push(entry);
+  return entry;
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    if (workersUnavailable) {
+      queue.splice(0).forEach(runInline);
+      return;
+    }
+    const idle = workers.find(entry => !entry.job) ?? (workers.length < POOL_SIZE ? spawn() : undefined);
+    if (!idle) return;
+    const job = queue.shift()!;
+    idle.job = job;
+    idle.worker.postMessage({ id: job.id, task: job.task }, job.transfer);
+  }
+};
+
+/**
+ * Runs a task on the image worker pool. Objects in `transfer` move to the worker without a copy
+ * and become unusable for the caller. Aborting drops a queued task, or terminates the worker
+ * running it, since synchronous work cannot be interrupted any other way.
+ */
+export const runInWorker = <K extends ImageTask['type']>(
+  task: Extract<ImageTask, { type: K }>,
+  { transfer = [], signal }: { transfer?: Transferable[]; signal?: AbortSignal } = {}
+): Promise<ImageTaskResults[K]> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      const queued = queue.indexOf(job);
+      if (queued >= 0) queue.splice(queued, 1);
+      const owner = workers.find(entry => entry.job === job);
+      if (owner) {
+        retire(owner);
+        dispatch();
+      }
+      reject(abortError(signal!));
+    };
+
+    const job: Job = {
+      id: nextJobId++,
+      task,
+      transfer,
+      settle: (reply) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (reply.error !== undefined) reject(new Error(reply.error));
+        else resolve(reply.value as ImageTaskResults[K]);
+      },
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    // Without OffscreenCanvas the worker cannot draw, so rendering stays on the main thread
+    if (CANVAS_TASKS.includes(task.type) && typeof OffscreenCanvas === 'undefined') {
+      runInline(job);
+      return;
+    }
+    queue.push(job);
+    dispatch();
+  });
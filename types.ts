@@ -1,19 +1,35 @@
 export interface ExifData {
   make?: string;
   model?: string;
+  // Timestamps are ISO 8601 with sub-seconds. They carry a UTC offset only when the camera
+  // recorded one; otherwise they are the camera's wall-clock time.
   dateTimeOriginal?: string;
+  createDate?: string;
+  modifyDate?: string;
+  offsetTimeOriginal?: string; // e.g. "+02:00"
   exposureTime?: number;
   fNumber?: number;
   iso?: number;
   focalLength?: number;
   latitude?: number;
   longitude?: number;
+  altitude?: number; // meters, negative below sea level
+  gpsDirection?: number; // degrees the camera was pointing, clockwise from north
+  gpsDirectionRef?: string; // 'T' for true north, 'M' for magnetic north
+  gpsTimestamp?: string; // ISO 8601 UTC time reported by the GPS receiver
   software?: string;
+  artist?: string;
+  ownerName?: string; // CameraOwnerName
+  serialNumber?: string; // BodySerialNumber
+  lensSerialNumber?: string;
   width?: number;
   height?: number;
+  duration?: number; // seconds, videos only
+  videoCodec?: string; // sample entry FourCC of the video track, e.g. "hvc1"
 }
 
 export interface AIAnalysisResult {
+  schemaVersion: number; // see ANALYSIS_SCHEMA_VERSION
   objects: string[];
   peopleCount: number;
   sceneType: string;
@@ -27,16 +43,332 @@ export interface AIAnalysisResult {
     score: number; // 0-100
   };
   ocrText: string;
+  profile?: { id: string; name: string }; // the analysis profile, unless it was the default one
+  customFields?: CustomFieldResult[]; // the profile's fields, in its order
+}
+
+export type ProfileFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'enum' | 'list';
+
+export interface ProfileField {
+  key: string; // property name in the response, e.g. "total"
+  label: string;
+  type: ProfileFieldType;
+  description?: string; // tells the model what to put there
+  options?: string[]; // enum only
+  required: boolean; // optional fields may be null when the image does not show them
+}
+
+export type CustomFieldValue = string | number | boolean | string[] | null;
+
+// Results carry their field definitions, so they still read right after the profile changed
+export interface CustomFieldResult extends ProfileField {
+  value: CustomFieldValue;
+}
+
+export interface AnalysisProfile {
+  id: string;
+  name: string;
+  instructions: string; // appended to the analysis prompt
+  fields: ProfileField[];
+  builtIn?: boolean;
+}
+
+export type AnalysisProviderId = 'gemini' | 'mock' | 'openai-compatible';
+
+export interface ProviderSettings {
+  provider: AnalysisProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+  apiKey?: string; // overrides the build-time key for Gemini
+  upload?: UploadOptions; // defaults to DEFAULT_UPLOAD_OPTIONS
+  cacheTtlDays?: number; // defaults to DEFAULT_CACHE_TTL_DAYS; 0 turns the result cache off
+}
+
+export interface UploadOptions {
+  maxEdge: number; // long edge in pixels images are scaled down to
+  maxBytes: number; // budget for all image parts of one request, before base64
+  tileText: boolean; // also send full-resolution crops of Document and Screenshot images
+}
+
+export interface RawTag {
+  id?: number; // numeric TIFF/IPTC tag, absent for XMP properties
+  name: string;
+  rawValue: string;
+  value: string; // human-readable
+}
+
+export interface RawMetadataGroup {
+  segment: string; // e.g. ifd0, exif, gps, xmp, iptc, icc
+  tags: RawTag[];
+}
+
+export interface RawMetadata {
+  groups: RawMetadataGroup[];
+  thumbnailUrl?: string; // object URL of the embedded EXIF thumbnail
+}
+
+export type ForensicVerdict = 'pass' | 'warn' | 'fail' | 'info';
+
+export interface ForensicCheck {
+  id: string;
+  label: string;
+  verdict: ForensicVerdict;
+  detail: string;
+}
+
+export interface QuantizationInfo {
+  tables: number[][]; // natural (row-major) order
+  estimatedQuality: number; // IJG scale, 1-100
+  isStandard: boolean; // exactly matches scaled IJG/libjpeg tables
+  fingerprint: string;
+}
+
+export interface ForensicsReport {
+  quantization?: QuantizationInfo;
+  ghostCurve?: { quality: number; error: number }[]; // recompression error per JPEG quality
+  elaHeatmapUrl?: string;
+  elaMeanError?: number;
+  thumbnailDifference?: number; // 0-255 mean absolute difference
+  checks: ForensicCheck[];
+}
+
+export type ProcessingStatus = 'queued' | 'processing' | 'done' | 'error';
+
+export type AnalysisErrorKind = 'quota' | 'auth' | 'network' | 'schema' | 'blocked' | 'cancelled' | 'unknown';
+
+export interface StageError {
+  kind: AnalysisErrorKind;
+  message: string;
+  fields?: string[]; // schema errors: the fields that failed validation
+}
+
+export type StageStatus = 'pending' | 'running' | 'retrying' | 'done' | 'error';
+
+export interface StageState {
+  status: StageStatus;
+  attempts: number;
+  error?: StageError;
+}
+
+export interface ProcessingStages {
+  exif: StageState;
+  ai: StageState;
+  ocr: StageState;
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. authenticity.score
+  problem: string;
+  action: 'coerced' | 'rejected';
+}
+
+export interface OcrBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0-100
+  bbox: OcrBox;
+}
+
+export interface OcrLine {
+  text: string;
+  confidence: number;
+  bbox: OcrBox;
+  words: OcrWord[];
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // mean word confidence, 0-100
+  language?: string; // traineddata code most words were recognized with, e.g. "eng"
+  width: number; // size of the image the boxes refer to
+  height: number;
+  lines: OcrLine[];
+}
+
+export type DocumentEntityKind = 'date' | 'amount' | 'iban' | 'name' | 'organization' | 'address' | 'email' | 'phone' | 'id' | 'other';
+
+export interface DocumentKeyValue {
+  key: string;
+  value: string;
+}
+
+export interface DocumentTable {
+  title: string;
+  headers: string[];
+  rows: string[][]; // every row has one cell per header
+}
+
+export interface DocumentEntity {
+  kind: DocumentEntityKind;
+  text: string; // as printed
+  normalized?: string; // YYYY-MM-DD dates, plain-number amounts, IBANs without spaces
+}
+
+export interface DocumentExtraction {
+  documentType: string; // e.g. Invoice, Bank statement, Letter
+  keyValues: DocumentKeyValue[];
+  tables: DocumentTable[];
+  entities: DocumentEntity[];
+}
+
+export interface PagePoint {
+  x: number; // fractions of the upright image
+  y: number;
+}
+
+export interface DocumentScan {
+  corners: PagePoint[] | null; // top-left, top-right, bottom-right, bottom-left; null when no page edges were found
+  url?: string; // object URL of the perspective-corrected page
+}
+
+export interface DocumentResult {
+  extraction: DocumentExtraction | null; // null when the extraction failed
+  issues: ValidationIssue[];
+  error?: StageError;
+  scan: DocumentScan;
+}
+
+export interface PlaceName {
+  city: string;
+  countryCode: string; // ISO 3166-1 alpha-2
+  country: string;
+  distanceKm: number; // from the capture point to the gazetteer entry
+}
+
+export interface MapPoint {
+  id: string;
+  label: string;
+  latitude: number;
+  longitude: number;
+  heading?: number;
+}
+
+export type ImageFormat =
+  | 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp'
+  | 'heic' | 'avif' | 'tiff'
+  | 'cr2' | 'nef' | 'arw' | 'dng'
+  | 'mp4' | 'mov'
+  | 'unknown';
+
+export interface ImagePart {
+  base64: string;
+  mimeType: string;
+}
+
+export interface ImagePayload extends ImagePart {
+  tiles?: ImagePart[]; // overlapping crops in reading order, sent after the whole image
+}
+
+export interface UploadStats {
+  bytes: number; // all image parts, before base64
+  mimeType: string;
+  width: number; // of the whole-image part
+  height: number;
+  originalWidth: number; // after applying the EXIF orientation
+  originalHeight: number;
+  tiles: number;
+  estimatedTokens?: number; // undefined when the provider has no estimate
 }
 
 export interface ProcessedImage {
   id: string;
   file: File;
-  previewUrl: string;
+  previewUrl: string; // a browser-decodable rendition for HEIC and RAW files
+  format?: ImageFormat; // sniffed from the file's bytes
   exif: ExifData | null;
   aiAnalysis: AIAnalysisResult | null;
+  partialAnalysis?: Partial<AIAnalysisResult>; // fields streamed so far, until aiAnalysis is set
+  validationIssues?: ValidationIssue[]; // fields the validator had to coerce
+  rawMetadata?: RawMetadata | null; // loaded on demand
+  forensics?: ForensicsReport | null; // loaded on demand
+  ocr?: OcrResult; // local OCR result, set by the ocr stage
+  upload?: UploadStats; // what the last analysis request sent
+  cache?: CacheStatus; // whether aiAnalysis came from the result cache
+  similarAnalysis?: AnalysisCacheEntry; // a near-identical image's cached result, offered instead of analyzing
+  hashes?: PerceptualHashes; // undefined until computed or when the image cannot be decoded
+  place?: PlaceName | null; // reverse-geocoded capture point, null when nothing is nearby
+  redactions?: RedactionRegion[]; // undefined until proposed; applied to the cleaned export
+  document?: DocumentResult | null; // document mode, loaded on demand
+  profileId: string; // analysis profile the next analysis uses
   isProcessing: boolean;
+  status: ProcessingStatus;
+  stages: ProcessingStages;
+  progress: number; // 0-100
   error?: string;
+  savedToHistory?: boolean;
+  fromHistory?: boolean; // reopened from history: file is only the stored thumbnail
+  fileHash?: string; // SHA-256 of the original file, known up front for history entries
+}
+
+export interface PerceptualHashes {
+  aHash: string; // 64 bits as 16 hex digits
+  dHash: string;
+  pHash: string;
+}
+
+export interface AnalysisCacheEntry {
+  key: string; // sha256 and scope
+  scope: string; // provider, model, prompt version and profile
+  sha256: string;
+  perceptualHash?: string; // dHash; absent when the image could not be decoded
+  result: AIAnalysisResult;
+  issues: ValidationIssue[];
+  cachedAt: string; // ISO 8601
+}
+
+export interface CacheStatus {
+  hit: boolean;
+  match?: 'exact' | 'similar'; // same bytes, or a near-identical perceptual hash
+  cachedAt?: string; // when the reused result was stored
+  forced?: boolean; // the cache was bypassed on request
+}
+
+export type ExportFormat = 'json' | 'csv' | 'html' | 'pdf';
+
+export interface ExportRecord {
+  fileName: string;
+  fileType: string;
+  fileSize?: number; // unknown for entries reopened from history
+  sha256: string;
+  exif: ExifData | null;
+  aiAnalysis: AIAnalysisResult | null;
+  ocr?: Omit<OcrResult, 'lines'>;
+  place?: PlaceName | null;
+  forensics?: ForensicCheck[];
+  redactions?: RedactionRegion[];
+  document?: DocumentExtraction;
+}
+
+export interface HistoryEntry {
+  id: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  fileHash: string; // SHA-256 hex of the original file
+  analyzedAt: string; // ISO timestamp
+  exif: ExifData | null;
+  aiAnalysis: AIAnalysisResult;
+  ocr?: OcrResult; // missing for entries saved before local OCR
+  hashes?: PerceptualHashes; // missing for entries saved before duplicate detection
+  redactions?: RedactionRegion[];
+  document?: DocumentExtraction; // missing unless document mode ran
+  thumbnail: Blob;
+}
+
+export interface HistoryQuery {
+  text?: string; // matches file name, camera, objects, scene and OCR text
+  cameraModel?: string;
+  dateFrom?: string; // YYYY-MM-DD, compared against the capture date
+  dateTo?: string;
+  sceneType?: string;
+  imageCategory?: AIAnalysisResult['imageCategory'];
+  object?: string;
 }
 
 export enum TabView {
@@ -46,3 +378,82 @@ export enum TabView {
   OCR = 'OCR',
   PRIVACY = 'PRIVACY'
 }
+
+export interface StripOptions {
+  keepColorProfile: boolean;
+  keepOrientation: boolean;
+}
+
+export type MetadataSegmentKind = 'exif' | 'xmp' | 'iptc' | 'icc' | 'comment' | 'other';
+
+export interface StrippedSegment {
+  kind: MetadataSegmentKind;
+  label: string; // marker or chunk name, e.g. APP1 or iTXt
+  size: number; // bytes
+}
+
+export interface StripResult {
+  bytes: Uint8Array;
+  mimeType: string;
+  removed: StrippedSegment[];
+}
+
+export type PrivacyFindingId =
+  | 'gps'
+  | 'device-serial'
+  | 'owner-name'
+  | 'device-model'
+  | 'precise-time'
+  | 'faces'
+  | 'pii-email'
+  | 'pii-phone'
+  | 'pii-card'
+  | 'pii-address';
+
+export interface PrivacyFinding {
+  id: PrivacyFindingId;
+  severity: 'high' | 'medium' | 'low';
+  title: string;
+  detail: string; // what was found, with personal data masked
+  fix: string;
+  fields: (keyof ExifData)[]; // EXIF fields the cleaner removes for this finding; empty when the fix is in the pixels
+}
+
+export interface PrivacyAudit {
+  score: number; // 0-100, higher is riskier
+  level: 'low' | 'medium' | 'high';
+  findings: PrivacyFinding[];
+}
+
+export type RedactionSource = 'face' | 'email' | 'phone' | 'card' | 'address' | 'plate' | 'id' | 'name' | 'manual';
+
+/**
+ * A rectangle to cover in the cleaned export, in fractions (0-1) of the upright image, so it
+ * applies to any rendition of it.
+ */
+export interface RedactionRegion {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  style: 'blur' | 'box';
+  source: RedactionSource;
+  confidence?: number; // 0-1, for detected faces
+}
+
+export type FieldAction = 'keep' | 'remove' | 'edit' | 'fuzz';
+
+export interface FieldEdit {
+  action: FieldAction;
+  value?: string; // used when action is 'edit'
+}
+
+export type ExifEdits = Partial<Record<keyof ExifData, FieldEdit>>;
+
+export interface ExifFieldDiff {
+  field: keyof ExifData;
+  before: ExifData[keyof ExifData];
+  after: ExifData[keyof ExifData];
+  change: 'unchanged' | 'changed' | 'removed' | 'added';
+}
@@ -1,14 +1,61 @@
-import { defineConfig, loadEnv } from 'vite'
+import { createReadStream, existsSync, readdirSync, readFileSync } from 'node:fs'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Every installed @tesseract.js-data/<code> package adds an OCR language
+const TESSDATA_DIR = 'node_modules/@tesseract.js-data'
+const ocrLanguages = existsSync(TESSDATA_DIR) ? readdirSync(TESSDATA_DIR) : []
+
+const MEDIAPIPE_WASM_DIR = 'node_modules/@mediapipe/tasks-vision/wasm'
+
+// Runtime files that tesseract.js and MediaPipe would otherwise fetch from a CDN, by the path the app
+// serves them at. The default LSTM engine only needs the LSTM builds of the core; the worker picks SIMD when it can.
+// The face detection model is not on npm, so `npm run fetch-assets` downloads it into public/ instead.
+const selfHostedFiles: Record<string, string> = {
+  // MediaPipe is loaded as a classic script, so its ES module build is left out
+  ...Object.fromEntries(readdirSync(MEDIAPIPE_WASM_DIR)
+    .filter(name => !name.includes('_module_'))
+    .map(name => [`mediapipe/wasm/${name}`, `${MEDIAPIPE_WASM_DIR}/${name}`])),
+  'tesseract/worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'tesseract/core/tesseract-core-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'tesseract/core/tesseract-core-simd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  ...Object.fromEntries(ocrLanguages.map(code => [
+    `tesseract/lang/${code}.traineddata.gz`,
+    `${TESSDATA_DIR}/${code}/4.0.0_best_int/${code}.traineddata.gz`,
+  ])),
+}
+
+// Serves the files from node_modules in dev and copies them into the build output
+const selfHostAssets = (files: Record<string, string>): Plugin => ({
+  name: 'self-host-assets',
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const source = files[(req.url ?? '').split('?')[0].slice(1)]
+      if (!source) return next()
+      res.setHeader('Content-Type', source.endsWith('.js') ? 'text/javascript' : source.endsWith('.wasm') ? 'application/wasm' : 'application/octet-stream')
+      createReadStream(source).pipe(res)
+    })
+  },
+  generateBundle() {
+    for (const [fileName, source] of Object.entries(files)) {
+      this.emitFile({ type: 'asset', fileName, source: readFileSync(source) })
+    }
+  },
+})
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
   return {
-    plugins: [react()],
+    plugins: [react(), selfHostAssets(selfHostedFiles)],
     define: {
       // Safely replace process.env.API_KEY with the actual value during build
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      'process.env.OCR_LANGUAGES': JSON.stringify(ocrLanguages.join('+'))
+    },
+    worker: {
+      // The image worker imports services as ES modules
+      format: 'es'
     }
   }
-})
\ No newline at end of file
+})